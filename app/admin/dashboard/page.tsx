@@ -9,7 +9,8 @@ import {
   Calendar,
   TrendingUp,
   LogOut,
-  RefreshCw
+  RefreshCw,
+  RotateCcw
 } from 'lucide-react'
 
 interface SalesData {
@@ -19,11 +20,23 @@ interface SalesData {
   lastSale: string
 }
 
+interface RefundedSession {
+  sessionId: string
+  slug: string
+  amount: number
+  refundId?: string
+  status: string
+  refundedAt: string
+  error?: string
+}
+
 interface DashboardData {
   sales: SalesData[]
+  refunds: RefundedSession[]
   totals: {
     totalSales: number
     totalRevenue: number
+    totalRefunded: number
   }
 }
 
@@ -182,7 +195,7 @@ export default function AdminDashboard() {
         )}
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="bg-dark-card border border-dark-border rounded-lg p-6">
             <div className="flex items-center">
               <ShoppingCart className="text-neon-blue" size={32} />
@@ -203,6 +216,17 @@ export default function AdminDashboard() {
               </div>
             </div>
           </div>
+          <div className="bg-dark-card border border-dark-border rounded-lg p-6">
+            <div className="flex items-center">
+              <RotateCcw className="text-neon-pink" size={32} />
+              <div className="ml-4">
+                <p className="text-gray-400 text-sm">Refunded ({data?.refunds?.length || 0})</p>
+                <p className="text-2xl font-bold text-neon-pink">
+                  £{data?.totals.totalRefunded ? (data.totals.totalRefunded / 100).toFixed(2) : '0.00'}
+                </p>
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Filters and Actions */}
@@ -281,6 +305,59 @@ export default function AdminDashboard() {
           </div>
         </div>
 
+        {/* Refunded Sessions */}
+        {data?.refunds && data.refunds.length > 0 && (
+          <div className="bg-dark-card border border-dark-border rounded-lg overflow-hidden mt-8">
+            <div className="px-6 py-4 border-b border-dark-border">
+              <h2 className="text-xl font-bold text-white">Refunded Sessions</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-800">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                      Session
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                      Service
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                      Amount
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                      Date
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {data.refunds.map((refund, index) => (
+                    <tr key={refund.sessionId} className={index % 2 === 0 ? 'bg-gray-800/50' : 'bg-gray-900/50'}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-300">
+                        {refund.sessionId}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-white">
+                        {getServiceDisplayName(refund.slug)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-neon-pink">
+                        £{(refund.amount / 100).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300" title={refund.error}>
+                        {refund.status === 'failed' ? 'Failed - refund manually' : refund.status}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                        {new Date(refund.refundedAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {data?.sales.length === 0 && (
           <div className="text-center py-12">
             <TrendingUp className="mx-auto text-gray-400 mb-4" size={48} />
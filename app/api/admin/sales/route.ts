@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import Stripe from 'stripe'
+import { getGenerationRepository, GenerationRepository } from '@/lib/generationStore'
+import { getOrderStore, OrderStore } from '@/lib/orderStore'
 
 // Mark this route as dynamic to avoid static generation issues
 export const dynamic = 'force-dynamic'
@@ -16,11 +18,23 @@ interface SalesData {
   lastSale: string
 }
 
+interface RefundedSession {
+  sessionId: string
+  slug: string
+  amount: number
+  refundId?: string
+  status: string
+  refundedAt: string
+  error?: string
+}
+
 interface DashboardData {
   sales: SalesData[]
+  refunds: RefundedSession[]
   totals: {
     totalSales: number
     totalRevenue: number
+    totalRefunded: number
   }
 }
 
@@ -30,6 +44,45 @@ function verifyAdminSession(): boolean {
   return adminSession?.value === 'true'
 }
 
+/**
+ * Failed generations that were refunded (or need a manual refund)
+ */
+async function getRefundedSessions(dateFilter: { gte?: number }): Promise<RefundedSession[]> {
+  const records = await getGenerationRepository().list()
+  const since = (dateFilter.gte || 0) * 1000
+
+  return records
+    .filter(record => (record.refund || record.refundError) && record.createdAt >= since)
+    .map(record => ({
+      sessionId: record.sessionId,
+      slug: record.serviceSlug,
+      amount: record.refund?.amount ?? record.amountTotal ?? 0,
+      refundId: record.refund?.id,
+      status: record.refund ? record.refund.status : 'failed',
+      refundedAt: new Date(record.refund?.createdAt || record.updatedAt).toISOString(),
+      error: record.refundError
+    }))
+}
+
+/**
+ * Service a checkout was for - older sessions carried the slug in metadata, newer ones
+ * only reference the pending order (and the generation record once the webhook ran)
+ */
+async function resolveSessionSlug(
+  session: Stripe.Checkout.Session,
+  orderStore: OrderStore,
+  repository: GenerationRepository
+): Promise<string | undefined> {
+  if (session.metadata?.slug) return session.metadata.slug
+
+  const orderId = session.metadata?.order_id || session.client_reference_id
+  const order = orderId ? await orderStore.get(orderId) : null
+  if (order) return order.slug
+
+  const record = await repository.get(session.id)
+  return record && record.serviceSlug !== 'unknown' ? record.serviceSlug : undefined
+}
+
 function getDateFilter(filter: string): { gte?: number } {
   const now = Math.floor(Date.now() / 1000)
   
@@ -63,9 +116,11 @@ export async function GET(request: NextRequest) {
         success: true,
         data: {
           sales: [],
+          refunds: [],
           totals: {
             totalSales: 0,
             totalRevenue: 0,
+            totalRefunded: 0,
           },
         },
         message: 'Stripe not configured - add STRIPE_SECRET_KEY to see sales data'
@@ -85,10 +140,15 @@ export async function GET(request: NextRequest) {
 
     // Group sessions by service slug
     const salesMap = new Map<string, SalesData>()
+    const orderStore = getOrderStore()
+    const repository = getGenerationRepository()
 
     for (const session of sessions.data) {
-      const slug = session.metadata?.slug
-      if (!slug) continue
+      const slug = await resolveSessionSlug(session, orderStore, repository)
+      if (!slug) {
+        console.warn(`Admin sales: no service found for checkout session ${session.id}`)
+        continue
+      }
 
       const amount = session.amount_total || 0
       const created = session.created
@@ -113,14 +173,20 @@ export async function GET(request: NextRequest) {
     // Convert map to array and sort by revenue
     const sales = Array.from(salesMap.values()).sort((a, b) => b.revenue - a.revenue)
 
+    const refunds = await getRefundedSessions(dateFilter)
+
     // Calculate totals
     const totals = {
       totalSales: sales.reduce((sum, sale) => sum + sale.count, 0),
       totalRevenue: sales.reduce((sum, sale) => sum + sale.revenue, 0),
+      totalRefunded: refunds
+        .filter(refund => refund.status !== 'failed')
+        .reduce((sum, refund) => sum + refund.amount, 0),
     }
 
     const data: DashboardData = {
       sales,
+      refunds,
       totals,
     }
 
@@ -136,9 +202,11 @@ export async function GET(request: NextRequest) {
       success: true,
       data: {
         sales: [],
+        refunds: [],
         totals: {
           totalSales: 0,
           totalRevenue: 0,
+          totalRefunded: 0,
         },
       },
       message: `Stripe API error: ${error instanceof Error ? error.message : 'Unknown error'}`
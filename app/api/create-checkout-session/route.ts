@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { getService, validateServiceInputs } from '@/lib/services'
+import { createAccessKey, hashAccessKey, verifyUploadToken } from '@/lib/downloadTokens'
+import { getUploadStore } from '@/lib/uploadStore'
+import { getOrderStore } from '@/lib/orderStore'
+import { screenInputs } from '@/lib/inputScreening'
+import { generateTraceId } from '@/lib/logger'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -8,7 +13,7 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 
 export async function POST(request: NextRequest) {
   try {
-    const { slug, inputs } = await request.json()
+    const { slug, inputs, uploadToken } = await request.json()
 
     // Validate service exists
     const service = getService(slug)
@@ -19,14 +24,73 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate inputs
-    if (!validateServiceInputs(slug, inputs)) {
+    if (!inputs || typeof inputs !== 'object' || Array.isArray(inputs)) {
       return NextResponse.json(
         { error: 'Invalid inputs provided' },
         { status: 400 }
       )
     }
 
+    // Validate inputs
+    const validation = validateServiceInputs(slug, inputs)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Please correct the highlighted fields', fieldErrors: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    // Image fields must point at an unexpired upload made in this customer's upload session
+    const uploadStore = getUploadStore()
+    const imageFields = service.fields.filter(field => field.type === 'image' && inputs[field.name])
+    const uploadSession = imageFields.length > 0 ? verifyUploadToken(typeof uploadToken === 'string' ? uploadToken : null) : null
+    for (const field of imageFields) {
+      const upload = uploadSession?.valid ? await uploadStore.get(inputs[field.name]) : null
+      if (!upload || upload.record.uploadSessionId !== uploadSession!.uploadSessionId) {
+        return NextResponse.json(
+          { error: 'Please correct the highlighted fields', fieldErrors: { [field.name]: `Please upload the ${field.label.toLowerCase()} again` } },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Never take payment for a document screening would refuse to generate - matches are audited
+    const screening = screenInputs(slug, inputs, { traceId: generateTraceId() })
+    if (screening.rejected) {
+      const fieldErrors: Record<string, string> = {}
+      screening.findings
+        .filter(finding => finding.action === 'reject')
+        .forEach(finding => { fieldErrors[finding.field] = finding.message })
+
+      return NextResponse.json(
+        { error: 'Please correct the highlighted fields', fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    // Only the customer's success URL carries the key; our store keeps the hash
+    const accessKey = createAccessKey()
+
+    // Inputs stay server-side - only declared fields, and only the order ID goes to Stripe
+    const orderInputs: Record<string, string> = {}
+    for (const field of service.fields) {
+      if (inputs[field.name] !== undefined && inputs[field.name] !== null && inputs[field.name] !== '') {
+        orderInputs[field.name] = String(inputs[field.name]).trim()
+      }
+    }
+
+    const orderStore = getOrderStore()
+    const order = await orderStore.create({
+      slug,
+      inputs: orderInputs,
+      accessKeyHash: hashAccessKey(accessKey)
+    })
+
+    // Attached uploads are kept for generation instead of expiring with the upload session
+    for (const field of imageFields) {
+      await uploadStore.attach(orderInputs[field.name], order.id)
+    }
+
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: [
@@ -43,14 +107,16 @@ export async function POST(request: NextRequest) {
         },
       ],
       mode: 'payment',
-      success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/result/{CHECKOUT_SESSION_ID}`,
+      success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/result/{CHECKOUT_SESSION_ID}?key=${accessKey}`,
       cancel_url: `${process.env.NEXT_PUBLIC_BASE_URL}/services/${slug}`,
+      client_reference_id: order.id,
       metadata: {
-        slug,
-        inputs: JSON.stringify(inputs),
+        order_id: order.id,
       },
     })
 
+    await orderStore.update(order.id, { checkoutSessionId: session.id })
+
     return NextResponse.json({ url: session.url })
   } catch (error) {
     console.error('Error creating checkout session:', error)
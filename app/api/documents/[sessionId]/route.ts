@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGenerationRepository } from '@/lib/generationStore'
+import { MAX_DOWNLOADS, verifyDownloadToken } from '@/lib/downloadTokens'
+import { getDocumentVersions } from '@/lib/regeneration'
+
+// Mark this route as dynamic to avoid static generation issues
+export const dynamic = 'force-dynamic'
+
+/**
+ * Stream a generated document - requires a valid download token.
+ * Serves the current version unless ?version= asks for an earlier one.
+ * Only attachment downloads count towards MAX_DOWNLOADS, per version - the
+ * result page's inline preview reloads on every status change.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  const { sessionId } = params
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const verification = verifyDownloadToken(searchParams.get('token'), sessionId)
+    if (!verification.valid) {
+      return NextResponse.json(
+        { error: verification.error },
+        { status: 403 }
+      )
+    }
+
+    const repository = getGenerationRepository()
+    const record = await repository.get(sessionId)
+    const versions = record ? getDocumentVersions(record) : []
+    const version = parseInt(searchParams.get('version') || '', 10) || record?.currentVersion || 1
+
+    // Earlier versions stay available while a regeneration is processing
+    if (!record || !versions.some(entry => entry.version === version)) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    const disposition = searchParams.get('disposition') === 'inline' ? 'inline' : 'attachment'
+    const downloadCounts = record.downloadCounts || {}
+    const downloadCount = downloadCounts[version] || 0
+    if (disposition === 'attachment' && downloadCount >= MAX_DOWNLOADS) {
+      return NextResponse.json(
+        { error: 'Download limit reached. Please contact support.' },
+        { status: 429 }
+      )
+    }
+
+    const pdf = await repository.getPdf(sessionId, version)
+    if (!pdf) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    if (disposition === 'attachment') {
+      await repository.update(sessionId, { downloadCounts: { ...downloadCounts, [version]: downloadCount + 1 } })
+    }
+
+    const versionSuffix = version > 1 ? `-v${version}` : ''
+    const filename = `internet-streets-${sessionId.replace(/[^A-Za-z0-9_-]/g, '')}${versionSuffix}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `${disposition}; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    console.error('Document download error:', error)
+    return NextResponse.json(
+      { error: 'Unable to retrieve document' },
+      { status: 500 }
+    )
+  }
+}
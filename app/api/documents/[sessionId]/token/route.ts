@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGenerationRepository } from '@/lib/generationStore'
+import { issueDownloadToken, verifyAccessKey } from '@/lib/downloadTokens'
+import { getDocumentVersions } from '@/lib/regeneration'
+
+/**
+ * Exchange the checkout access key for a short-lived download token
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { key } = await request.json()
+    const record = await getGenerationRepository().get(params.sessionId)
+
+    if (!record || !verifyAccessKey(key, record.accessKeyHash)) {
+      return NextResponse.json(
+        { error: 'Invalid access key' },
+        { status: 403 }
+      )
+    }
+
+    if (getDocumentVersions(record).length === 0) {
+      return NextResponse.json(
+        { error: 'Document is not ready yet' },
+        { status: 409 }
+      )
+    }
+
+    const { token, expiresAt } = issueDownloadToken(params.sessionId)
+    return NextResponse.json({ token, expiresAt })
+  } catch (error) {
+    console.error('Download token error:', error)
+    return NextResponse.json(
+      { error: 'Unable to issue download token' },
+      { status: 500 }
+    )
+  }
+}
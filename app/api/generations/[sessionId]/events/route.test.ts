@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { hashAccessKey } from '@/lib/downloadTokens'
+import { createInMemoryGenerationRepository, GenerationRepository, setGenerationRepository } from '@/lib/generationStore'
+import { GenerationStep } from '@/lib/logger'
+import { GET } from '@/app/api/generations/[sessionId]/events/route'
+
+const SESSION_ID = 'cs_test_events'
+const ACCESS_KEY = 'events-access-key'
+
+function eventsRequest(key?: string): NextRequest {
+  const query = key ? `?key=${encodeURIComponent(key)}` : ''
+  return new NextRequest(`http://localhost/api/generations/${SESSION_ID}/events${query}`)
+}
+
+describe('generation progress stream', () => {
+  let repository: GenerationRepository
+
+  beforeEach(async () => {
+    repository = createInMemoryGenerationRepository()
+    setGenerationRepository(repository)
+    await repository.save({
+      sessionId: SESSION_ID,
+      traceId: 'trace-events',
+      serviceSlug: 'payslip',
+      status: 'error',
+      error: 'OpenAI request failed: internal detail',
+      accessKeyHash: hashAccessKey(ACCESS_KEY),
+      steps: [{ step: GenerationStep.PROMPT_BUILT, message: 'Prompt built', timestamp: 1 }],
+      createdAt: 1,
+      updatedAt: 1
+    })
+  })
+
+  afterEach(() => {
+    setGenerationRepository(null)
+    vi.restoreAllMocks()
+  })
+
+  it('refuses a request without the access key', async () => {
+    const response = await GET(eventsRequest(), { params: { sessionId: SESSION_ID } })
+    expect(response.status).toBe(403)
+  })
+
+  it('refuses a wrong access key', async () => {
+    const response = await GET(eventsRequest('guessed-key'), { params: { sessionId: SESSION_ID } })
+    expect(response.status).toBe(403)
+  })
+
+  it('streams steps and a coarse status to the key holder', async () => {
+    const response = await GET(eventsRequest(ACCESS_KEY), { params: { sessionId: SESSION_ID } })
+    const body = await response.text()
+
+    expect(response.status).toBe(200)
+    expect(body).toContain('event: step')
+    expect(body).toContain('"step":"PROMPT_BUILT"')
+    expect(body).toContain('event: status\ndata: {"status":"error"}')
+    expect(body).not.toContain('internal detail')
+    expect(body).not.toContain('trace-events')
+  })
+})
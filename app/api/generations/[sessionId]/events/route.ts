@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAccessKey } from '@/lib/downloadTokens'
+import { getGenerationRepository } from '@/lib/generationStore'
+
+// Mark this route as dynamic to avoid static generation issues
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 1000
+
+// Stay under serverless function limits - EventSource reconnects with Last-Event-ID
+const MAX_STREAM_MS = 25000
+
+/**
+ * Stream generation progress (GenerationStep transitions and status) as Server-Sent Events.
+ * Needs the checkout access key, like the document routes - the steps are nobody else's business
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  const { sessionId } = params
+  const key = request.nextUrl.searchParams.get('key') || ''
+  const repository = getGenerationRepository()
+  const encoder = new TextEncoder()
+
+  // The record only exists once the webhook has run - until then the stream waits, and checks the key when it appears
+  const existing = await repository.get(sessionId)
+  if (existing && !verifyAccessKey(key, existing.accessKeyHash)) {
+    return NextResponse.json(
+      { error: 'Invalid access key' },
+      { status: 403 }
+    )
+  }
+
+  // Resume after the last step the client has already seen
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '', 10)
+  let nextStepIndex = Number.isNaN(lastEventId) ? 0 : lastEventId + 1
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now()
+      let closed = false
+
+      const send = (event: string, data: unknown, id?: number) => {
+        const idLine = id !== undefined ? `id: ${id}\n` : ''
+        controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      }
+
+      request.signal.addEventListener('abort', close)
+      controller.enqueue(encoder.encode(`retry: 2000\n\n`))
+
+      while (!closed && Date.now() - startedAt < MAX_STREAM_MS) {
+        try {
+          const record = await repository.get(sessionId)
+          if (closed) break
+
+          if (record) {
+            // Reconnecting gets the 403 above
+            if (!verifyAccessKey(key, record.accessKeyHash)) break
+
+            const steps = record.steps || []
+            for (; nextStepIndex < steps.length; nextStepIndex++) {
+              send('step', steps[nextStepIndex], nextStepIndex)
+            }
+
+            if (record.status !== 'processing') {
+              // Coarse status only - error details come from the status endpoint
+              send('status', { status: record.status })
+              break
+            }
+          }
+
+          // Keep-alive comment so proxies don't close an idle stream
+          controller.enqueue(encoder.encode(`: processing\n\n`))
+        } catch (error) {
+          console.error(`Progress stream error for ${sessionId}:`, error)
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+      }
+
+      close()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
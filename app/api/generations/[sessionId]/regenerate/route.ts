@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGenerationRepository } from '@/lib/generationStore'
+import { getJobQueue } from '@/lib/jobQueue'
+import { verifyAccessKey } from '@/lib/downloadTokens'
+import { drainQueue } from '@/lib/generationWorker'
+import { InvalidTransitionError } from '@/lib/generationState'
+import { checkRegenerationEligibility, getRegenerationsRemaining, requestRegeneration } from '@/lib/regeneration'
+
+/**
+ * Rerun a paid session with its stored inputs - counts against the session's allowance
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  const { sessionId } = params
+
+  try {
+    const { key } = await request.json()
+    const repository = getGenerationRepository()
+    const record = await repository.get(sessionId)
+
+    if (!record || !verifyAccessKey(key, record.accessKeyHash)) {
+      return NextResponse.json(
+        { error: 'Invalid access key' },
+        { status: 403 }
+      )
+    }
+
+    const eligibility = checkRegenerationEligibility(record)
+    if (!eligibility.allowed) {
+      return NextResponse.json(
+        { error: eligibility.error, regenerationsRemaining: getRegenerationsRemaining(record) },
+        { status: eligibility.status || 409 }
+      )
+    }
+
+    const job = await requestRegeneration(record, repository, getJobQueue())
+
+    // Local runner: process the job in-process without blocking the response
+    if (process.env.GENERATION_WORKER_MODE === 'inline') {
+      drainQueue().catch(error => console.error('Inline queue drain failed:', error))
+    }
+
+    return NextResponse.json({
+      status: 'processing',
+      sessionId,
+      version: job.version,
+      regenerationsRemaining: getRegenerationsRemaining(record) - 1
+    })
+  } catch (error) {
+    // Two clicks racing each other - the first one already moved the session on
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: 'Your document is already being regenerated' },
+        { status: 409 }
+      )
+    }
+
+    console.error(`Regeneration error for ${sessionId}:`, error)
+    return NextResponse.json(
+      { error: 'Unable to regenerate document' },
+      { status: 500 }
+    )
+  }
+}
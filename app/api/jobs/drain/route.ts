@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { drainQueue } from '@/lib/generationWorker'
+
+// Mark this route as dynamic to avoid static generation issues
+export const dynamic = 'force-dynamic'
+
+// Stay inside the function timeout in netlify.toml (60s), with headroom to respond
+const DRAIN_BUDGET_MS = parseInt(process.env.JOB_DRAIN_BUDGET_MS || '50000', 10)
+
+function verifyRunnerSecret(request: NextRequest): boolean {
+  const secret = process.env.JOB_RUNNER_SECRET
+
+  // Allow unauthenticated local draining outside production
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+/**
+ * Drain due generation jobs (called by a scheduler or the local runner)
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyRunnerSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const maxJobs = parseInt(searchParams.get('maxJobs') || '5', 10) || 5
+
+    const result = await drainQueue({ maxJobs, timeBudgetMs: DRAIN_BUDGET_MS })
+    console.log(`🧹 Queue drain finished:`, result)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Queue drain error:', error)
+    return NextResponse.json(
+      { error: 'Queue drain failed' },
+      { status: 500 }
+    )
+  }
+}
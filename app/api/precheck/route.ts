@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getService } from '@/lib/services'
+import { screenInputs } from '@/lib/inputScreening'
+
+/**
+ * Preview input screening before checkout - which fields will be changed or rejected, and why
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { slug, inputs } = await request.json()
+
+    if (!getService(slug)) {
+      return NextResponse.json(
+        { error: 'Service not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!inputs || typeof inputs !== 'object' || Array.isArray(inputs)) {
+      return NextResponse.json(
+        { error: 'Invalid inputs provided' },
+        { status: 400 }
+      )
+    }
+
+    const screening = screenInputs(slug, inputs)
+
+    // Internal reasons name the matched blocklist entry - customers only get the message
+    return NextResponse.json({
+      ok: !screening.rejected,
+      findings: screening.findings.map(({ field, label, action, message, replacement }) => ({
+        field,
+        label,
+        action,
+        message,
+        replacement
+      }))
+    })
+  } catch (error) {
+    console.error('Precheck error:', error)
+    return NextResponse.json(
+      { error: 'Unable to check your details. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
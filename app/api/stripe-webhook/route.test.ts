@@ -0,0 +1,223 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import Stripe from 'stripe'
+import { NextRequest } from 'next/server'
+import { EmailMessage, setEmailTransport } from '@/lib/email'
+import { createInMemoryGenerationRepository, GenerationRepository, setGenerationRepository } from '@/lib/generationStore'
+import { createInMemoryJobQueue, JobQueue, setJobQueue } from '@/lib/jobQueue'
+import { createInMemoryOrderStore, OrderStore, setOrderStore } from '@/lib/orderStore'
+import { createMockRefundClient, setRefundClient } from '@/lib/refunds'
+
+const WEBHOOK_SECRET = 'whsec_test_secret'
+
+type WebhookRoute = typeof import('@/app/api/stripe-webhook/route')
+
+function checkoutCompleted(session: Record<string, unknown>) {
+  return {
+    id: `evt_${session.id}`,
+    object: 'event',
+    type: 'checkout.session.completed',
+    data: {
+      object: {
+        object: 'checkout.session',
+        amount_total: 250,
+        currency: 'gbp',
+        payment_intent: 'pi_test_webhook',
+        customer_details: { email: 'customer@example.com' },
+        ...session
+      }
+    }
+  }
+}
+
+function signedRequest(event: unknown): NextRequest {
+  const payload = JSON.stringify(event)
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET })
+
+  return new NextRequest('http://localhost/api/stripe-webhook', {
+    method: 'POST',
+    headers: { 'stripe-signature': signature, 'content-type': 'application/json' },
+    body: payload
+  })
+}
+
+describe('stripe webhook failed orders', () => {
+  let route: WebhookRoute
+  let repository: GenerationRepository
+  let queue: JobQueue
+  let orderStore: OrderStore
+  const refundClient = createMockRefundClient()
+  const sent: EmailMessage[] = []
+
+  beforeAll(async () => {
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_webhook')
+    vi.stubEnv('STRIPE_WEBHOOK_SECRET', WEBHOOK_SECRET)
+    route = await import('@/app/api/stripe-webhook/route')
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  beforeEach(() => {
+    repository = createInMemoryGenerationRepository()
+    queue = createInMemoryJobQueue()
+    sent.length = 0
+    refundClient.refunds.length = 0
+    setGenerationRepository(repository)
+    setJobQueue(queue)
+    orderStore = createInMemoryOrderStore()
+    setOrderStore(orderStore)
+    setRefundClient(refundClient)
+    setEmailTransport({ name: 'test', send: async message => { sent.push(message) } })
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    setGenerationRepository(null)
+    setJobQueue(null)
+    setOrderStore(null)
+    setRefundClient(null)
+    setEmailTransport(null)
+    vi.restoreAllMocks()
+  })
+
+  it('refunds and emails the customer when the paid order is missing', async () => {
+    const response = await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_missing_order',
+      metadata: { order_id: 'ord_missing' },
+      client_reference_id: 'ord_missing'
+    })))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ received: true, status: 'error' })
+
+    const record = (await repository.get('cs_test_missing_order'))!
+    expect(record.status).toBe('error')
+    expect(record.error).toBe('Order ord_missing not found')
+    expect(record.refund).toMatchObject({ status: 'succeeded', amount: 250 })
+    expect(refundClient.refunds).toEqual([
+      { paymentIntentId: 'pi_test_webhook', sessionId: 'cs_test_missing_order', reason: 'Order ord_missing not found', amount: 250 }
+    ])
+    expect(sent).toHaveLength(1)
+    expect(sent[0].to).toBe('customer@example.com')
+    expect(sent[0].text).toContain('A full refund of £2.50 has been issued')
+    expect(await queue.list()).toHaveLength(0)
+  })
+
+  it('refunds legacy sessions with unreadable inputs', async () => {
+    await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_bad_inputs',
+      metadata: { slug: 'fbi-file', inputs: '{not json' }
+    })))
+
+    const record = (await repository.get('cs_test_bad_inputs'))!
+    expect(record.status).toBe('error')
+    expect(record.error).toBe('Invalid inputs in session metadata')
+    expect(record.refund).toMatchObject({ amount: 250 })
+    expect(sent).toHaveLength(1)
+  })
+
+  it('queues a stored order that passes the service schema', async () => {
+    const order = await orderStore.create({
+      slug: 'fbi-file',
+      inputs: { fullName: 'Sam Example', dateOfBirth: '1990-01-01', city: 'London', occupation: 'Baker' },
+      accessKeyHash: 'hash'
+    })
+
+    const response = await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_stored_order',
+      metadata: { order_id: order.id },
+      client_reference_id: order.id
+    })))
+
+    expect(await response.json()).toMatchObject({ status: 'queued' })
+    expect((await repository.get('cs_test_stored_order'))!.status).toBe('processing')
+    expect(await queue.list()).toHaveLength(1)
+    expect(refundClient.refunds).toHaveLength(0)
+  })
+
+  it('checks date bounds against when the order was placed', async () => {
+    // Valid today, but a birth date in the future when the order was taken
+    const order = await orderStore.create({
+      slug: 'fbi-file',
+      inputs: { fullName: 'Sam Example', dateOfBirth: '2024-06-01', city: 'London', occupation: 'Baker' },
+      accessKeyHash: 'hash'
+    })
+    await orderStore.update(order.id, { createdAt: Date.UTC(2024, 0, 15) })
+
+    await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_future_birth',
+      metadata: { order_id: order.id }
+    })))
+
+    const record = (await repository.get('cs_test_future_birth'))!
+    expect(record.status).toBe('error')
+    expect(record.error).toMatch(/^Invalid inputs: Date of Birth must be on or before/)
+    expect(record.refund).toMatchObject({ amount: 250 })
+    expect(await queue.list()).toHaveLength(0)
+  })
+
+  it('validates the inputs of legacy sessions the same way', async () => {
+    await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_legacy_invalid',
+      created: Math.floor(Date.UTC(2024, 0, 15) / 1000),
+      metadata: {
+        slug: 'fbi-file',
+        inputs: JSON.stringify({ fullName: 'Sam Example', dateOfBirth: '2024-06-01', city: 'London', occupation: 'Baker' })
+      }
+    })))
+
+    const record = (await repository.get('cs_test_legacy_invalid'))!
+    expect(record.error).toMatch(/^Invalid inputs: Date of Birth must be on or before/)
+    expect(record.refund).toMatchObject({ amount: 250 })
+  })
+
+  it('ignores payments this app did not create', async () => {
+    const response = await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_foreign',
+      metadata: {}
+    })))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ received: true, ignored: true })
+    expect(await repository.get('cs_test_foreign')).toBeNull()
+    expect(refundClient.refunds).toHaveLength(0)
+    expect(sent).toHaveLength(0)
+  })
+
+  it('reports a refund that needs manual handling', async () => {
+    setRefundClient({ name: 'failing', createRefund: async () => { throw new Error('Stripe unavailable') } })
+
+    await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_refund_failed',
+      metadata: { order_id: 'ord_missing' }
+    })))
+
+    const status = await route.GET(new NextRequest('http://localhost/api/stripe-webhook?sessionId=cs_test_refund_failed'))
+    expect(await status.json()).toMatchObject({ status: 'error', refunded: false, refundState: 'failed' })
+    expect(sent[0].text).toContain('our team will arrange your refund manually')
+  })
+
+  it('refunds orders for an unknown service', async () => {
+    await route.POST(signedRequest(checkoutCompleted({
+      id: 'cs_test_unknown_service',
+      metadata: { slug: 'no-such-service', inputs: '{}' }
+    })))
+
+    const record = (await repository.get('cs_test_unknown_service'))!
+    expect(record.error).toBe('Unknown service: no-such-service')
+    expect(record.refund).toMatchObject({ amount: 250 })
+  })
+
+  it('refunds a replayed failure only once', async () => {
+    const event = checkoutCompleted({ id: 'cs_test_replay', metadata: { order_id: 'ord_missing' } })
+
+    await route.POST(signedRequest(event))
+    const replay = await route.POST(signedRequest(event))
+
+    expect(await replay.json()).toMatchObject({ duplicate: true, status: 'error' })
+    expect(refundClient.refunds).toHaveLength(1)
+    expect(sent).toHaveLength(1)
+  })
+})
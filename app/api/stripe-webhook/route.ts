@@ -1,164 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
-import { validateAndGenerateText } from '@/lib/validateText'
-import { buildPrompt, validateRequiredFields } from '@/lib/promptBuilder'
-import { generateServiceBrand } from '@/lib/brand'
-import { logger, generateTraceId, GenerationStep } from '@/lib/logger'
-import { renderServiceToPdf } from '@/lib/pdfGenerator'
+import { logger, generateTraceId } from '@/lib/logger'
+import { getGenerationRepository, GenerationRecord } from '@/lib/generationStore'
+import { getJobQueue } from '@/lib/jobQueue'
+import { validateFields } from '@/lib/fieldValidation'
+import { getService } from '@/lib/services'
+import { getOrderStore, PendingOrder } from '@/lib/orderStore'
+import { drainQueue } from '@/lib/generationWorker'
+import { transitionGeneration } from '@/lib/generationState'
+import { getRefundState, refundFailedGeneration } from '@/lib/refunds'
+import { sendGenerationEmail } from '@/lib/email'
+import {
+  checkRegenerationEligibility,
+  getDocumentVersions,
+  getRegenerationsRemaining,
+  REGENERATION_ALLOWANCE
+} from '@/lib/regeneration'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
 })
 
-// Simple in-memory store for generation status (no document storage)
-const generationStatus = new Map<string, {
-  status: 'processing' | 'ready' | 'error'
-  sessionId: string
-  traceId: string
-  error?: string
-  pdfBase64?: string
-  serviceName?: string
-}>()
-
 /**
- * Generate document after successful payment (synchronous processing)
+ * Acknowledge a replayed delivery with the existing generation record
  */
-async function processDocumentGeneration(
-  sessionId: string,
-  slug: string,
-  inputs: Record<string, any>,
-  customerEmail?: string
-): Promise<{ success: boolean; pdfBase64?: string; error?: string }> {
-  const traceId = generateTraceId()
-  
-  try {
-    console.log(`[${traceId}] Starting document generation for session ${sessionId}, service: ${slug}`)
-    logger.generationStart(traceId, sessionId, slug)
-    
-    // Update status to processing
-    generationStatus.set(sessionId, {
-      status: 'processing',
-      sessionId,
-      traceId,
-      serviceName: inputs.companyName || inputs.fullName || slug
-    })
-
-    // Build and validate prompt
-    console.log(`[${traceId}] Building prompt for service: ${slug}`)
-    const promptResult = await buildPrompt(slug, inputs, traceId)
-    if (!promptResult.success) {
-      console.error(`[${traceId}] Prompt validation failed: ${promptResult.error}`)
-      throw new Error(`Prompt validation failed: ${promptResult.error}`)
-    }
-
-    console.log(`[${traceId}] Prompt built successfully for ${slug}`)
-    logger.generationStep('Prompt built and validated', traceId, GenerationStep.PROMPT_BUILT, sessionId, slug)
-    
-    // Log sanitization if occurred
-    if (promptResult.sanitizedInputs?.org_sanitized) {
-      logger.sanitizationAction(
-        promptResult.sanitizedInputs.sanitized_reason || 'Organization sanitized',
-        'Original name',
-        'Sanitized name',
-        traceId,
-        sessionId,
-        slug
-      )
-    }
-
-    // Call OpenAI with retry logic (reduced retries for faster failure)
-    console.log(`[${traceId}] 🔄 Starting OpenAI generation for ${slug}`)
-    const generationResult = await validateAndGenerateText(
-      promptResult.prompt!,
-      promptResult.metadata!.temperature,
-      slug,
-      traceId,
-      2 // Reduced retries for faster response
-    )
-
-    if (!generationResult.success) {
-      // Log the raw response for debugging
-      if (generationResult.rawResponse) {
-        logger.jsonParseError(traceId, generationResult.rawResponse, sessionId, slug)
-      }
-      
-      logger.generationFailed(
-        `OpenAI generation failed after ${generationResult.retries} retries: ${generationResult.error}`,
-        traceId,
-        sessionId,
-        slug,
-        { retries: generationResult.retries }
-      )
-      throw new Error(`Generation failed: ${generationResult.error}`)
-    }
-
-    console.log(`[${traceId}] ✅ OpenAI generation successful! Response length: ${generationResult.data?.length || 0} characters`)
-    logger.generationStep('Plain text generated and validated', traceId, GenerationStep.JSON_VALIDATED, sessionId, slug)
-
-    // Generate brand/seal
-    console.log(`[${traceId}] 🎨 Generating brand/seal for ${slug}`)
-    const brand = generateServiceBrand(slug, inputs.companyName || inputs.fullName)
-    
-    // Extract basic metadata from the text
-    console.log(`[${traceId}] 📊 Extracting metadata from generated text`)
-    const { extractBasicFields } = await import('@/lib/promptBuilder')
-    const metadata = extractBasicFields(generationResult.data!)
-
-    // Render PDF from plain text
-    console.log(`[${traceId}] 📄 Starting PDF rendering...`)
-    const pdfBuffer = await renderServiceToPdf(
-      slug,
-      { text: generationResult.data!, metadata },
-      brand,
-      promptResult.sanitizedInputs
-    )
-
-    console.log(`[${traceId}] ✅ PDF rendering completed! Size: ${pdfBuffer.length} bytes`)
-    logger.generationStep(`PDF rendered (${pdfBuffer.length} bytes)`, traceId, GenerationStep.PDF_RENDERED, sessionId, slug)
-
-    // Convert PDF to base64 for direct return
-    console.log(`[${traceId}] 🔄 Converting PDF to base64...`)
-    const pdfBase64 = pdfBuffer.toString('base64')
-    console.log(`[${traceId}] ✅ Base64 conversion completed! Length: ${pdfBase64.length} characters`)
-
-    logger.generationSuccess(traceId, sessionId, slug, sessionId)
-
-    // Update status to ready with PDF data
-    generationStatus.set(sessionId, {
-      status: 'ready',
-      sessionId,
-      traceId,
-      pdfBase64,
-      serviceName: metadata.name || slug
-    })
-
-    console.log(`[${traceId}] 🎉 Document generation COMPLETED successfully!`)
-    return { success: true, pdfBase64 }
-
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.log(`[${traceId}] 💥 ERROR in document generation: ${errorMessage}`)
-    console.log(`[${traceId}] 🔍 Error stack:`, error instanceof Error ? error.stack : 'No stack trace')
-    
-    logger.generationFailed(
-      `Document generation failed: ${errorMessage}`,
-      traceId,
-      sessionId,
-      slug,
-      error,
-      GenerationStep.GENERATION_FAILED
-    )
-
-    // Update status to error
-    generationStatus.set(sessionId, {
-      status: 'error',
-      sessionId,
-      traceId,
-      error: errorMessage
-    })
+function duplicateResponse(record: GenerationRecord | null, sessionId: string) {
+  return NextResponse.json({
+    received: true,
+    duplicate: true,
+    sessionId,
+    status: record?.status || 'processing',
+    generation: record ? toPublicStatus(record) : null
+  })
+}
 
-    console.log(`[${traceId}] ❌ Generation status set to ERROR`)
-    return { success: false, error: errorMessage }
+/**
+ * Status fields safe to expose - no access key hash, inputs or document data.
+ * The service title is looked up rather than read from the record, which older
+ * records filled with the customer's name
+ */
+function toPublicStatus(record: GenerationRecord) {
+  return {
+    status: record.status,
+    sessionId: record.sessionId,
+    traceId: record.traceId,
+    serviceSlug: record.serviceSlug,
+    serviceName: getService(record.serviceSlug)?.name || record.serviceSlug,
+    error: record.error,
+    refunded: Boolean(record.refund),
+    refundState: record.status === 'error' ? getRefundState(record) : undefined,
+    currentVersion: record.currentVersion || (record.status === 'ready' ? 1 : undefined),
+    versions: getDocumentVersions(record).map(({ version, createdAt }) => ({ version, createdAt })),
+    regenerationsRemaining: getRegenerationsRemaining(record),
+    canRegenerate: checkRegenerationEligibility(record).allowed,
+    regenerationError: record.regenerationError
   }
 }
 
@@ -187,77 +82,170 @@ export async function POST(request: NextRequest) {
     const session = event.data.object as Stripe.Checkout.Session
     console.log(`💳 Payment completed for session ${session.id}`)
 
+    const repository = getGenerationRepository()
+
+    // Stripe delivers at least once - only the first delivery of an event gets past here
+    const firstDelivery = await repository.recordEvent(event.id, session.id)
+    if (!firstDelivery) {
+      console.log(`🔁 Duplicate event ${event.id} for session ${session.id} - skipping`)
+      return duplicateResponse(await repository.get(session.id), session.id)
+    }
+
+    // A different event for a session that already has a queued or finished generation
+    const existing = await repository.get(session.id)
+    if (existing && (existing.jobId || existing.status !== 'processing')) {
+      console.log(`🔁 Session ${session.id} already has a generation (${existing.status}) - skipping`)
+      return duplicateResponse(existing, session.id)
+    }
+
+    const traceId = existing?.traceId || generateTraceId()
+    const now = Date.now()
+
+    // Resolve the submission from the pending order created at checkout
+    const orderStore = getOrderStore()
+    const orderId = session.metadata?.order_id || session.client_reference_id
+    let order: PendingOrder | null = null
+
     try {
-      // Extract service data from session metadata
-      const slug = session.metadata?.slug
-      const inputs = JSON.parse(session.metadata?.inputs || '{}')
-      const customerEmail = session.customer_email
-
-      console.log(`📋 Service slug: ${slug}`)
-      console.log(`📝 Inputs:`, inputs)
-      console.log(`👤 Customer email: ${customerEmail || 'Not provided'}`)
-
-      if (!slug) {
-        console.log(`❌ No service slug in session metadata`)
-        throw new Error('No service slug in session metadata')
+      order = orderId ? await orderStore.get(orderId) : null
+    } catch (error) {
+      // Storage failure - forget the event so Stripe's retry is processed
+      console.error(`Failed to load order ${orderId}:`, error)
+      await repository.releaseEvent(event.id).catch(() => undefined)
+      return NextResponse.json({ error: 'Unable to load order' }, { status: 500 })
+    }
+
+    // Neither an order nor a legacy slug - not a checkout this app created, so not ours to refund
+    if (!orderId && !session.metadata?.slug) {
+      console.log(`🤷 Session ${session.id} has no order or service - ignoring`)
+      return NextResponse.json({ received: true, sessionId: session.id, ignored: true })
+    }
+
+    let slug: string | undefined
+    let inputs: Record<string, any> = {}
+    let accessKeyHash: string | undefined
+    let inputError: string | null = null
+    // Date bounds ("today") are checked as they stood when the customer placed the order
+    let orderedAt = new Date(now)
+
+    if (order) {
+      slug = order.slug
+      inputs = order.inputs
+      accessKeyHash = order.accessKeyHash
+      orderedAt = new Date(order.createdAt)
+    } else if (orderId) {
+      inputError = `Order ${orderId} not found`
+    } else {
+      // Sessions created before pending orders carried the inputs in metadata
+      slug = session.metadata?.slug
+      accessKeyHash = session.metadata?.access_key_hash
+      if (session.created) orderedAt = new Date(session.created * 1000)
+      try {
+        inputs = JSON.parse(session.metadata?.inputs || '{}')
+      } catch {
+        inputError = 'Invalid inputs in session metadata'
       }
+    }
+
+    const customerEmail = session.customer_details?.email || session.customer_email
 
-      // Validate required inputs
-      console.log(`🔍 Validating required fields for ${slug}`)
-      const fieldValidation = validateRequiredFields(slug, inputs)
+    // What the customer paid - needed for the receipt and any refund
+    const payment = {
+      customerEmail: customerEmail || undefined,
+      amountTotal: session.amount_total ?? undefined,
+      currency: session.currency || undefined,
+      paymentIntentId: typeof session.payment_intent === 'string'
+        ? session.payment_intent
+        : session.payment_intent?.id
+    }
+
+    console.log(`📋 Service slug: ${slug}`)
+    console.log(`👤 Customer email: ${customerEmail || 'Not provided'}`)
+
+    const service = slug ? getService(slug) : null
+    if (!inputError && !service) {
+      inputError = `Unknown service: ${slug}`
+    } else if (!inputError && service) {
+      // Same schema checks as the form and checkout
+      console.log(`🔍 Validating inputs for ${slug}`)
+      const fieldValidation = validateFields(service.fields, inputs, service.rules, orderedAt)
       if (!fieldValidation.valid) {
-        console.log(`❌ Missing required fields: ${fieldValidation.missing.join(', ')}`)
-        throw new Error(`Missing required fields: ${fieldValidation.missing.join(', ')}`)
+        inputError = `Invalid inputs: ${Object.values(fieldValidation.errors).join('; ')}`
       }
-      console.log(`✅ Field validation passed`)
-
-      console.log(`🚀 Starting document generation for session ${session.id}, service: ${slug}`)
-      
-      // Generate document synchronously with timeout
-      const result = await Promise.race([
-        processDocumentGeneration(session.id, slug, inputs, customerEmail || undefined),
-        new Promise<{ success: boolean; error?: string }>((_, reject) =>
-          setTimeout(() => reject(new Error('Generation timeout after 30 seconds')), 30000)
-        )
-      ])
-      
-      console.log(`📊 Generation result:`, result.success ? 'SUCCESS' : 'FAILED')
-      
-      if (result.success && 'pdfBase64' in result) {
-        console.log(`✅ Returning successful response with PDF`)
-        return NextResponse.json({ 
-          success: true, 
-          sessionId: session.id,
-          pdfBase64: result.pdfBase64,
-          serviceName: slug,
-          message: 'Document generated successfully'
-        })
-      } else {
-        console.log(`❌ Returning failed response:`, result.error)
-        return NextResponse.json({ 
-          success: false, 
+    }
+
+    // Bad order data will never succeed on retry - fail the generation, refund and tell the customer
+    if (inputError) {
+      logger.generationFailed(inputError, traceId, session.id, slug || 'unknown', inputError)
+
+      try {
+        await repository.save({
+          status: 'processing',
           sessionId: session.id,
-          error: result.error || 'Generation failed',
-          message: 'Document generation failed'
+          traceId,
+          serviceSlug: slug || 'unknown',
+          ...payment,
+          createdAt: existing?.createdAt || now,
+          updatedAt: now
         })
+        const record = await transitionGeneration(repository, session.id, 'error', { error: inputError })
+        const refunded = await refundFailedGeneration(record, repository)
+        await sendGenerationEmail(refunded)
+      } catch (error) {
+        // Storage failure - forget the event so Stripe's retry is processed
+        console.error('Failed to record failed generation:', error)
+        await repository.releaseEvent(event.id).catch(() => undefined)
+        return NextResponse.json({ error: 'Unable to record generation' }, { status: 500 })
       }
 
+      return NextResponse.json({ received: true, sessionId: session.id, status: 'error' })
+    }
+
+    try {
+      await repository.save({
+        status: 'processing',
+        sessionId: session.id,
+        traceId,
+        serviceSlug: slug!,
+        serviceName: service?.name || slug,
+        inputs,
+        regenerationsAllowed: REGENERATION_ALLOWANCE,
+        regenerationsUsed: 0,
+        accessKeyHash,
+        downloadCounts: {},
+        ...payment,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      })
+
+      const job = await getJobQueue().enqueue({
+        sessionId: session.id,
+        traceId,
+        serviceSlug: slug!,
+        inputs,
+        customerEmail: customerEmail || undefined
+      })
+      await repository.update(session.id, { jobId: job.id })
+
+      if (order) {
+        await orderStore.update(order.id, { status: 'paid', checkoutSessionId: session.id })
+      }
+
+      console.log(`📥 Generation job ${job.id} queued for session ${session.id}`)
+      logger.info('Generation job queued', traceId, { jobId: job.id }, session.id, slug)
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      console.log(`💥 CRITICAL ERROR in webhook handler: ${errorMessage}`)
-      console.log(`🔍 Error details:`, error)
-      console.error('Webhook processing error:', errorMessage)
-      
-      return NextResponse.json(
-        { 
-          success: false, 
-          sessionId: session.id,
-          error: errorMessage,
-          message: 'Payment confirmed, but generation failed. Please contact support.'
-        },
-        { status: 200 } // Return 200 to prevent Stripe retries
-      )
+      // Storage failure - forget the event so Stripe's retry is processed
+      console.error('Failed to enqueue generation job:', error)
+      await repository.releaseEvent(event.id).catch(() => undefined)
+      return NextResponse.json({ error: 'Unable to queue generation' }, { status: 500 })
     }
+
+    // Local runner: process the job in-process without blocking the response
+    if (process.env.GENERATION_WORKER_MODE === 'inline') {
+      drainQueue().catch(error => console.error('Inline queue drain failed:', error))
+    }
+
+    return NextResponse.json({ received: true, sessionId: session.id, status: 'queued' })
   }
 
   return NextResponse.json({ received: true })
@@ -274,14 +262,15 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Session ID required' }, { status: 400 })
   }
 
-  const status = generationStatus.get(sessionId)
+  const repository = getGenerationRepository()
+  const record = await repository.get(sessionId)
   
-  if (!status) {
+  if (!record) {
     return NextResponse.json({ 
       status: 'processing',
       message: 'Generation status not found'
     })
   }
 
-  return NextResponse.json(status)
+  return NextResponse.json(toPublicStatus(record))
 }
\ No newline at end of file
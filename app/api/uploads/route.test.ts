@@ -0,0 +1,115 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createInMemoryUploadStore, setUploadStore, UploadStore } from '@/lib/uploadStore'
+
+type UploadRoute = typeof import('@/app/api/uploads/route')
+type SessionRoute = typeof import('@/app/api/uploads/session/route')
+
+/**
+ * 1x1 PNG header - all inspectImage reads
+ */
+function pngBytes(): Buffer {
+  const data = Buffer.alloc(33)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data, 0)
+  data.writeUInt32BE(13, 8)
+  data.write('IHDR', 12, 'ascii')
+  data.writeUInt32BE(1, 16)
+  data.writeUInt32BE(1, 20)
+  return data
+}
+
+function uploadRequest(token: string | null, address: string): NextRequest {
+  const body = new FormData()
+  body.append('file', new Blob([new Uint8Array(pngBytes())]), 'photo.png')
+  if (token) body.append('token', token)
+
+  return new NextRequest('http://localhost/api/uploads', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': address },
+    body
+  })
+}
+
+function sessionRequest(address: string): NextRequest {
+  return new NextRequest('http://localhost/api/uploads/session', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': address }
+  })
+}
+
+describe('image uploads', () => {
+  let uploads: UploadRoute
+  let sessions: SessionRoute
+  let store: UploadStore
+
+  beforeAll(async () => {
+    vi.stubEnv('DOWNLOAD_TOKEN_SECRET', 'upload-test-secret')
+    uploads = await import('@/app/api/uploads/route')
+    sessions = await import('@/app/api/uploads/session/route')
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  beforeEach(() => {
+    store = createInMemoryUploadStore()
+    setUploadStore(store)
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    setUploadStore(null)
+    vi.restoreAllMocks()
+  })
+
+  async function startSession(address: string): Promise<string> {
+    const response = await sessions.POST(sessionRequest(address))
+    expect(response.status).toBe(200)
+    return (await response.json()).token
+  }
+
+  it('rejects uploads without an upload token', async () => {
+    const response = await uploads.POST(uploadRequest(null, '203.0.113.1'))
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Upload token required' })
+  })
+
+  it('rejects a forged upload token', async () => {
+    const response = await uploads.POST(uploadRequest('abc.9999999999.forged', '203.0.113.2'))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('stores uploads under the upload session of their token', async () => {
+    const token = await startSession('203.0.113.3')
+
+    const response = await uploads.POST(uploadRequest(token, '203.0.113.3'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect((await store.get(data.id))!.record.uploadSessionId).toBe(token.split('.')[0])
+  })
+
+  it('limits uploads per upload session', async () => {
+    const token = await startSession('203.0.113.4')
+
+    for (let i = 0; i < 10; i++) {
+      expect((await uploads.POST(uploadRequest(token, '203.0.113.4'))).status).toBe(200)
+    }
+    const limited = await uploads.POST(uploadRequest(token, '203.0.113.4'))
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).toEqual(expect.any(String))
+  })
+
+  it('limits upload sessions per client', async () => {
+    for (let i = 0; i < 10; i++) {
+      await startSession('203.0.113.5')
+    }
+
+    expect((await sessions.POST(sessionRequest('203.0.113.5'))).status).toBe(429)
+    expect((await sessions.POST(sessionRequest('203.0.113.6'))).status).toBe(200)
+  })
+})
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyUploadToken } from '@/lib/downloadTokens'
+import { createRateLimiter, getClientKey } from '@/lib/rateLimit'
+import { getUploadStore, InvalidUploadError, MAX_UPLOAD_BYTES, sweepExpiredUploads } from '@/lib/uploadStore'
+
+// Per client address, and per upload session (a form has a handful of image fields)
+const clientLimiter = createRateLimiter(30, 10 * 60 * 1000)
+const sessionLimiter = createRateLimiter(10, 60 * 60 * 1000)
+
+function tooManyUploads(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: 'Too many uploads. Please try again later.' },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  )
+}
+
+/**
+ * Accept an image for an image field - requires an upload token from /api/uploads/session
+ * and returns the upload ID the form submits
+ */
+export async function POST(request: NextRequest) {
+  const clientLimit = clientLimiter.check(getClientKey(request.headers))
+  if (!clientLimit.allowed) {
+    return tooManyUploads(clientLimit.retryAfterSeconds)
+  }
+
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const token = formData.get('token')
+
+    const verification = verifyUploadToken(typeof token === 'string' ? token : null)
+    if (!verification.valid) {
+      return NextResponse.json(
+        { error: verification.error },
+        { status: 401 }
+      )
+    }
+
+    const sessionLimit = sessionLimiter.check(verification.uploadSessionId!)
+    if (!sessionLimit.allowed) {
+      return tooManyUploads(sessionLimit.retryAfterSeconds)
+    }
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    // Reject oversized files before buffering them
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Images must be ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB or smaller` },
+        { status: 413 }
+      )
+    }
+
+    await sweepExpiredUploads().catch(error => console.error('Upload sweep failed:', error))
+
+    const record = await getUploadStore().save(Buffer.from(await file.arrayBuffer()), verification.uploadSessionId!)
+    console.log(`🖼️ Stored upload ${record.id} (${record.mimeType}, ${record.width}x${record.height}, ${record.size} bytes)`)
+
+    return NextResponse.json({
+      id: record.id,
+      mimeType: record.mimeType,
+      width: record.width,
+      height: record.height
+    })
+  } catch (error) {
+    if (error instanceof InvalidUploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Upload error:', error)
+    return NextResponse.json(
+      { error: 'Unable to upload image. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
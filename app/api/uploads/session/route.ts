@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { issueUploadToken } from '@/lib/downloadTokens'
+import { createRateLimiter, getClientKey } from '@/lib/rateLimit'
+import { UPLOAD_TTL_SECONDS } from '@/lib/uploadStore'
+
+// Mark this route as dynamic to avoid static generation issues
+export const dynamic = 'force-dynamic'
+
+// A form session needs one token - a client asking for many is scripting uploads
+const sessionLimiter = createRateLimiter(10, 60 * 60 * 1000)
+
+/**
+ * Start an upload session - returns the token the upload endpoint and checkout require
+ */
+export async function POST(request: NextRequest) {
+  const limit = sessionLimiter.check(getClientKey(request.headers))
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many upload sessions. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    )
+  }
+
+  try {
+    const { token, expiresAt } = issueUploadToken(UPLOAD_TTL_SECONDS)
+    return NextResponse.json({ token, expiresAt })
+  } catch (error) {
+    console.error('Upload session error:', error)
+    return NextResponse.json(
+      { error: 'Unable to start upload. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  extractProvenanceCode,
+  getProvenanceStore,
+  normalizeProvenanceCode,
+  toPublicProvenance
+} from '@/lib/provenanceStore'
+import { NOVELTY_STATUS } from '@/lib/documentProvenance'
+
+export const dynamic = 'force-dynamic'
+
+// Our PDFs are well under this - anything bigger isn't one of ours
+const MAX_VERIFY_UPLOAD_BYTES = 10 * 1024 * 1024
+
+async function lookup(code: string) {
+  const record = await getProvenanceStore().get(code)
+  if (!record) {
+    return NextResponse.json(
+      { verified: false, code, error: 'No Internet Streets document has this code' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({
+    verified: true,
+    novelty: true,
+    status: NOVELTY_STATUS,
+    ...toPublicProvenance(record)
+  })
+}
+
+/**
+ * Look up a provenance code typed in by hand
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const code = normalizeProvenanceCode(request.nextUrl.searchParams.get('code'))
+    if (!code) {
+      return NextResponse.json(
+        { verified: false, error: 'Codes look like ISV-XXXX-XXXX' },
+        { status: 400 }
+      )
+    }
+
+    return await lookup(code)
+  } catch (error) {
+    console.error('Verify error:', error)
+    return NextResponse.json(
+      { error: 'Unable to verify right now. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Look up the code embedded in an uploaded PDF
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { verified: false, error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_VERIFY_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { verified: false, error: 'That file is too large to be an Internet Streets document' },
+        { status: 413 }
+      )
+    }
+
+    const code = extractProvenanceCode(Buffer.from(await file.arrayBuffer()))
+    if (!code) {
+      return NextResponse.json(
+        { verified: false, error: 'No Internet Streets verification code was found in this file' },
+        { status: 404 }
+      )
+    }
+
+    return await lookup(code)
+  } catch (error) {
+    console.error('Verify upload error:', error)
+    return NextResponse.json(
+      { error: 'Unable to verify right now. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
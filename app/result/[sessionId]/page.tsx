@@ -1,99 +1,280 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { useParams } from 'next/navigation'
-import { Loader2, Download, FileText } from 'lucide-react'
+import { useParams, useSearchParams } from 'next/navigation'
+import { Loader2, Download, FileText, CheckCircle, RefreshCw } from 'lucide-react'
+import type { RefundState } from '@/lib/refunds'
+
+interface DocumentVersion {
+  version: number
+  createdAt: number
+}
 
 interface ResultStatus {
   status: 'processing' | 'ready' | 'error'
-  pdfBase64?: string
   error?: string
   serviceName?: string
+  serviceSlug?: string
   sessionId?: string
+  traceId?: string
+  refunded?: boolean
+  refundState?: RefundState
+  currentVersion?: number
+  versions?: DocumentVersion[]
+  regenerationsRemaining?: number
+  canRegenerate?: boolean
+  regenerationError?: string
+}
+
+interface ProgressStep {
+  step: string
+  message: string
+  timestamp: number
+}
+
+/**
+ * Customer-facing labels for the GenerationSteps streamed by the progress endpoint
+ */
+const STEP_LABELS: Record<string, string> = {
+  CHECKOUT_COMPLETED: 'Payment confirmed',
+  PROMPT_BUILT: 'Preparing your request',
+  SANITIZATION: 'Adjusting protected names',
+  OPENAI_CALLED: 'Writing your document',
+  JSON_VALIDATED: 'Checking the text',
+  OUTPUT_MODERATED: 'Reviewing the content',
+  PDF_RENDERED: 'Rendering the PDF',
+  PDF_STORED: 'Saving your document',
+  GENERATION_COMPLETE: 'Done',
+  RETRY_ATTEMPT: 'Hit a snag - retrying'
+}
+
+// Same wording as the failure email for each refund state
+const REFUND_MESSAGES: Record<RefundState, string> = {
+  refunded: 'Your payment has been refunded automatically.',
+  failed: "We couldn't refund your payment automatically - your refund will be arranged manually.",
+  pending: 'You will not be charged for this failed generation - your refund is being processed.'
 }
 
 export default function ResultPage() {
   const router = useRouter()
   const params = useParams()
   const sessionId = params.sessionId as string
+  const searchParams = useSearchParams()
+  const accessKey = searchParams.get('key')
   const [resultStatus, setResultStatus] = useState<ResultStatus>({ status: 'processing' })
   const [isLoading, setIsLoading] = useState(true)
   const [pdfUrl, setPdfUrl] = useState<string | null>(null)
-  const [pollInterval, setPollInterval] = useState(1000) // Start with 1 second for faster response
+  const [steps, setSteps] = useState<ProgressStep[]>([])
+  const [isRegenerating, setIsRegenerating] = useState(false)
+  // Bumped after a regeneration is queued to restart progress tracking
+  const [generationRound, setGenerationRound] = useState(0)
+  const finishedRef = useRef(false)
+
+  // Exchange the checkout access key for a signed, short-lived document URL
+  const requestDocumentUrl = async (disposition: 'inline' | 'attachment', version?: number): Promise<string> => {
+    if (!accessKey) {
+      throw new Error('This link is missing its access key. Please use the link from your checkout confirmation.')
+    }
+
+    const response = await fetch(`/api/documents/${sessionId}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ key: accessKey })
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Unable to authorise download')
+    }
+
+    const versionParam = version ? `&version=${version}` : ''
+    return `/api/documents/${sessionId}?token=${encodeURIComponent(data.token)}&disposition=${disposition}${versionParam}`
+  }
 
   useEffect(() => {
     if (!sessionId) return
 
-    const pollResult = async () => {
-      try {
-        const response = await fetch(`/api/stripe-webhook?sessionId=${sessionId}`)
-        const data = await response.json()
-
-        if (data.status === 'ready' && data.pdfBase64) {
-          // Convert base64 to blob URL
-          const pdfBlob = new Blob(
-            [Uint8Array.from(atob(data.pdfBase64), c => c.charCodeAt(0))], 
-            { type: 'application/pdf' }
-          )
-          const url = URL.createObjectURL(pdfBlob)
-          setPdfUrl(url)
-          
-          setResultStatus({ 
-            status: 'ready', 
-            pdfBase64: data.pdfBase64,
-            serviceName: data.serviceName,
-            sessionId: data.sessionId 
-          })
-          setIsLoading(false)
-        } else if (data.status === 'error') {
-          setResultStatus({ status: 'error', error: data.error || data.message })
-          setIsLoading(false)
-        } else {
-          // Still processing, poll again with faster intervals
-          const nextInterval = Math.min(pollInterval * 1.2, 3000) // Cap at 3 seconds, faster growth
-          setPollInterval(nextInterval)
-          setTimeout(pollResult, nextInterval)
-        }
-      } catch (error) {
-        console.error('Error polling result:', error)
-        setResultStatus({ status: 'error', error: 'Unable to retrieve your document. Please refresh the page or contact support.' })
+    finishedRef.current = false
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+    let pollInterval = 1000 // Start with 1 second for faster response
+    let eventSource: EventSource | null = null
+
+    // Fetch the status once - returns true when generation has finished
+    const fetchStatus = async (): Promise<boolean> => {
+      const response = await fetch(`/api/stripe-webhook?sessionId=${sessionId}`)
+      const data = await response.json()
+
+      if (data.status === 'ready') {
+        setPdfUrl(await requestDocumentUrl('inline'))
+        
+        setResultStatus({ 
+          status: 'ready', 
+          serviceName: data.serviceName,
+          sessionId: data.sessionId,
+          currentVersion: data.currentVersion,
+          versions: data.versions,
+          regenerationsRemaining: data.regenerationsRemaining,
+          canRegenerate: data.canRegenerate,
+          regenerationError: data.regenerationError
+        })
+        setIsLoading(false)
+        return true
+      }
+
+      if (data.status === 'error') {
+        setResultStatus({
+          status: 'error',
+          error: data.error || data.message,
+          traceId: data.traceId,
+          refunded: data.refunded,
+          refundState: data.refundState,
+          regenerationsRemaining: data.regenerationsRemaining,
+          canRegenerate: data.canRegenerate
+        })
         setIsLoading(false)
+        return true
       }
+
+      if (data.serviceName) {
+        setResultStatus(prev => ({ ...prev, serviceName: data.serviceName }))
+      }
+      return false
     }
 
-    // Start polling immediately
-    pollResult()
-  }, [sessionId, pollInterval])
+    const finish = () => {
+      finishedRef.current = true
+      eventSource?.close()
+      if (pollTimer) clearTimeout(pollTimer)
+    }
 
-  const handleDownload = () => {
-    if (pdfUrl) {
+    const handleError = (error: unknown) => {
+      console.error('Error polling result:', error)
+      finish()
+      setResultStatus({
+        status: 'error',
+        error: error instanceof Error && error.message.includes('access key')
+          ? error.message
+          : 'Unable to retrieve your document. Please refresh the page or contact support.'
+      })
+      setIsLoading(false)
+    }
+
+    // Fallback: poll the status endpoint with a growing interval
+    const startPolling = () => {
+      if (pollTimer || finishedRef.current) return
+
+      const poll = async () => {
+        try {
+          if (await fetchStatus()) {
+            finish()
+            return
+          }
+          pollInterval = Math.min(pollInterval * 1.2, 3000) // Cap at 3 seconds, faster growth
+          pollTimer = setTimeout(poll, pollInterval)
+        } catch (error) {
+          handleError(error)
+        }
+      }
+
+      pollTimer = setTimeout(poll, 0)
+    }
+
+    // Preferred: stream progress over SSE and fetch the document once it's done - the stream needs the access key
+    if (typeof EventSource !== 'undefined' && accessKey) {
+      eventSource = new EventSource(`/api/generations/${sessionId}/events?key=${encodeURIComponent(accessKey)}`)
+
+      eventSource.addEventListener('step', (event) => {
+        const step = JSON.parse((event as MessageEvent).data) as ProgressStep
+        setSteps(prev => [...prev, step])
+      })
+
+      eventSource.addEventListener('status', (event) => {
+        const data = JSON.parse((event as MessageEvent).data)
+        if (data.status === 'processing' || finishedRef.current) return
+
+        eventSource?.close()
+        fetchStatus()
+          .then(done => done ? finish() : startPolling())
+          .catch(handleError)
+      })
+
+      eventSource.onerror = () => {
+        // The browser reconnects on its own; only fall back once it gives up
+        if (eventSource?.readyState === EventSource.CLOSED && !finishedRef.current) {
+          startPolling()
+        }
+      }
+
+      // Pick up generations that finished before the stream connected
+      fetchStatus()
+        .then(done => done && finish())
+        .catch(handleError)
+    } else {
+      startPolling()
+    }
+
+    return () => {
+      finishedRef.current = true
+      eventSource?.close()
+      if (pollTimer) clearTimeout(pollTimer)
+    }
+  }, [sessionId, accessKey, generationRound])
+
+  const handleDownload = async (version?: number) => {
+    try {
+      // Fresh token per download - the preview token may have expired
       const link = document.createElement('a')
-      link.href = pdfUrl
-      link.download = `internet-streets-${sessionId}.pdf`
-      link.target = '_blank'
+      link.href = await requestDocumentUrl('attachment', version)
+      link.download = version && version > 1
+        ? `internet-streets-${sessionId}-v${version}.pdf`
+        : `internet-streets-${sessionId}.pdf`
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
+    } catch (error) {
+      console.error('Download failed:', error)
+      alert(error instanceof Error ? error.message : 'Unable to download. Please refresh the page.')
     }
   }
 
 
+  const handleRegenerate = async () => {
+    const remaining = resultStatus.regenerationsRemaining ?? 0
+    if (!confirm(`Regenerate this document with the same details? You have ${remaining} free regeneration${remaining === 1 ? '' : 's'} left.`)) {
+      return
+    }
+
+    setIsRegenerating(true)
+    try {
+      const response = await fetch(`/api/generations/${sessionId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: accessKey })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to regenerate document')
+      }
+
+      setSteps([])
+      setPdfUrl(null)
+      setResultStatus(prev => ({ status: 'processing', serviceName: prev.serviceName }))
+      setIsLoading(true)
+      setGenerationRound(round => round + 1)
+    } catch (error) {
+      console.error('Regeneration failed:', error)
+      alert(error instanceof Error ? error.message : 'Unable to regenerate. Please try again.')
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
   const handlePreviewInNewTab = () => {
     if (pdfUrl) {
       window.open(pdfUrl, '_blank')
     }
   }
 
-  // Cleanup blob URL on unmount
-  useEffect(() => {
-    return () => {
-      if (pdfUrl) {
-        URL.revokeObjectURL(pdfUrl)
-      }
-    }
-  }, [pdfUrl])
-
   if (resultStatus.status === 'error') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-dark-bg text-white">
@@ -102,9 +283,19 @@ export default function ResultPage() {
           <p className="text-lg text-gray-300 mb-4">{resultStatus.error}</p>
           <p className="text-sm text-gray-400 mb-6">
             Reference ID: {sessionId}<br/>
-            You will not be charged for this failed generation.
+            {resultStatus.traceId && <>Trace ID: {resultStatus.traceId}<br/></>}
+            {REFUND_MESSAGES[resultStatus.refundState || (resultStatus.refunded ? 'refunded' : 'pending')]}
           </p>
           <div className="space-y-3">
+            {resultStatus.canRegenerate && accessKey && (
+              <button
+                onClick={handleRegenerate}
+                disabled={isRegenerating}
+                className="bg-neon-green hover:bg-neon-green/80 text-dark-bg font-bold py-2 px-4 rounded-lg transition-colors duration-300 mr-3 disabled:opacity-50"
+              >
+                Try Again Free
+              </button>
+            )}
             <button
               onClick={() => {navigator.clipboard.writeText(sessionId); alert('Reference ID copied!')}}
               className="bg-neon-blue hover:bg-neon-blue/80 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300 mr-3"
@@ -137,6 +328,16 @@ export default function ResultPage() {
           <p className="text-gray-400">
             This usually takes 5-15 seconds. Please don't close this page.
           </p>
+          {steps.length > 0 && (
+            <ul className="mt-6 space-y-2 text-left inline-block">
+              {steps.filter(step => STEP_LABELS[step.step]).map((step, index) => (
+                <li key={`${step.step}-${index}`} className="flex items-center text-sm text-gray-300">
+                  <CheckCircle className="mr-2 text-neon-green" size={16} />
+                  {STEP_LABELS[step.step]}
+                </li>
+              ))}
+            </ul>
+          )}
           <div className="mt-8 text-sm text-gray-500">
             <p>📄 Document will be ready for immediate download</p>
           </div>
@@ -167,7 +368,9 @@ export default function ResultPage() {
               Document Preview
             </h2>
             <div className="text-sm text-gray-400">
-              📄 Ready for download
+              📄 {resultStatus.currentVersion && resultStatus.currentVersion > 1
+                ? `Version ${resultStatus.currentVersion} ready for download`
+                : 'Ready for download'}
             </div>
           </div>
           
@@ -211,17 +414,56 @@ export default function ResultPage() {
           )}
         </div>
 
+        {resultStatus.regenerationError && (
+          <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4 mb-8 text-center text-gray-300">
+            We couldn't regenerate your document, so your previous version is shown below.
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4 justify-center mb-8">
           <button
-            onClick={handleDownload}
+            onClick={() => handleDownload()}
             className="flex items-center justify-center bg-neon-blue hover:bg-neon-blue/80 text-white font-bold py-4 px-8 rounded-lg transition-colors duration-300 neon-glow"
           >
             <Download className="mr-2" size={20} />
             Download PDF
           </button>
+          {resultStatus.canRegenerate && accessKey && (
+            <button
+              onClick={handleRegenerate}
+              disabled={isRegenerating}
+              className="flex items-center justify-center bg-dark-card border border-neon-green text-neon-green hover:bg-neon-green/10 font-bold py-4 px-8 rounded-lg transition-colors duration-300 disabled:opacity-50"
+            >
+              <RefreshCw className={`mr-2 ${isRegenerating ? 'animate-spin' : ''}`} size={20} />
+              Regenerate ({resultStatus.regenerationsRemaining} left)
+            </button>
+          )}
         </div>
 
+        {/* Previous Versions */}
+        {resultStatus.versions && resultStatus.versions.length > 1 && (
+          <div className="bg-dark-card border border-dark-border rounded-lg p-6 mb-8">
+            <h3 className="text-lg font-bold text-neon-blue mb-3">Previous Versions</h3>
+            <ul className="space-y-2">
+              {resultStatus.versions
+                .filter(entry => entry.version !== resultStatus.currentVersion)
+                .map(entry => (
+                  <li key={entry.version} className="flex items-center justify-between text-gray-300">
+                    <span>Version {entry.version} · {new Date(entry.createdAt).toLocaleString()}</span>
+                    <button
+                      onClick={() => handleDownload(entry.version)}
+                      className="flex items-center text-sm text-neon-blue hover:underline"
+                    >
+                      <Download className="mr-1" size={16} />
+                      Download
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
+
         {/* Disclaimer */}
         <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-6 mb-8">
           <h3 className="text-lg font-bold text-yellow-400 mb-3">⚠️ Important Disclaimer</h3>
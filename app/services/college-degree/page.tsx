@@ -31,6 +31,7 @@ export default function CollegeDegreePage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Generate a realistic college degree certificate with university branding, official seals, and detailed academic information. For novelty and entertainment purposes only."
           price={service.price}
         />
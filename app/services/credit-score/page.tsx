@@ -31,6 +31,7 @@ export default function CreditScorePage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Create a comprehensive credit score report with detailed financial history, loan records, and credit analysis. For novelty purposes only."
           price={service.price}
         />
@@ -31,6 +31,7 @@ export default function CriminalRecordPage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Create a realistic criminal record with charges, convictions, and court proceedings. For novelty and entertainment purposes only."
           price={service.price}
         />
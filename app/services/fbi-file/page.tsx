@@ -31,6 +31,7 @@ export default function FBIFilePage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Create a detailed FBI file containing surveillance logs, investigation notes, and classified information. Perfect for novelty purposes, role-playing, or creative projects."
           price={service.price}
         />
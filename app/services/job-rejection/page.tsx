@@ -31,6 +31,7 @@ export default function JobRejectionPage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Create a professional job rejection letter with detailed feedback and company branding. Perfect for novelty purposes or creative projects."
           price={service.price}
         />
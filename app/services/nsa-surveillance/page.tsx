@@ -31,6 +31,7 @@ export default function NSASurveillancePage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Generate a comprehensive NSA surveillance log showing intercepted communications, online activity monitoring, and digital footprint analysis. For entertainment purposes only."
           price={service.price}
         />
@@ -31,6 +31,7 @@ export default function PayslipPage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Generate a professional-looking payslip with detailed salary breakdown, deductions, and company information. Perfect for novelty purposes, creative projects, or educational use."
           price={service.price}
         />
@@ -31,6 +31,7 @@ export default function RentReferencePage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Generate a professional rent reference letter from a landlord with payment history, property details, and tenancy assessment. For novelty purposes only."
           price={service.price}
         />
@@ -31,6 +31,7 @@ export default function SchoolBehaviourPage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Create a detailed school behaviour record with attendance, disciplinary actions, and academic performance. For novelty and entertainment purposes only."
           price={service.price}
         />
@@ -31,6 +31,7 @@ export default function UniversalCreditPage() {
           serviceId={service.slug}
           serviceName={service.name}
           fields={service.fields}
+          rules={service.rules}
           description="Create a realistic Universal Credit assessment report with benefit calculations, eligibility status, and payment schedules. For novelty purposes only."
           price={service.price}
         />
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, ShieldCheck, ShieldX, Upload } from 'lucide-react'
+
+interface VerifyResult {
+  verified: boolean
+  code?: string
+  serviceName?: string
+  version?: number
+  generatedAt?: string
+  status?: string
+  error?: string
+}
+
+export default function VerifyPage() {
+  const [code, setCode] = useState('')
+  const [result, setResult] = useState<VerifyResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const showResponse = async (response: Response) => {
+    const data = await response.json()
+    setResult(response.status >= 500 ? { verified: false, error: data.error } : data)
+  }
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) return
+
+    setIsLoading(true)
+    setResult(null)
+    try {
+      await showResponse(await fetch(`/api/verify?code=${encodeURIComponent(code.trim())}`))
+    } catch {
+      setResult({ verified: false, error: 'Unable to verify right now. Please try again.' })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsLoading(true)
+    setResult(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      await showResponse(await fetch('/api/verify', { method: 'POST', body: formData }))
+    } catch {
+      setResult({ verified: false, error: 'Unable to verify right now. Please try again.' })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen py-16 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="text-center mb-12">
+          <h1 className="glitch-text text-4xl font-bold text-neon-pink mb-4">
+            Verify a Document
+          </h1>
+          <p className="text-xl text-gray-300">
+            Was this made by Internet Streets?
+          </p>
+        </div>
+
+        <div className="bg-dark-card border border-dark-border rounded-lg p-8 neon-border border-neon-green">
+          <p className="text-gray-300 mb-6">
+            Every document we generate carries a code like <span className="font-mono text-white">ISV-7K2M-QX9D</span> in
+            its footer. Enter it below, or upload the PDF and we&apos;ll find it for you.
+          </p>
+
+          <form onSubmit={handleCodeSubmit} className="flex flex-col sm:flex-row gap-3 mb-6">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="ISV-XXXX-XXXX"
+              autoComplete="off"
+              spellCheck={false}
+              className="flex-1 px-4 py-3 bg-dark-bg border border-dark-border rounded-lg text-white font-mono uppercase placeholder-gray-500 focus:border-neon-green focus:outline-none focus:ring-2 focus:ring-neon-green focus:ring-opacity-50 transition-colors"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !code.trim()}
+              className="bg-neon-green hover:bg-neon-green/80 text-black font-bold py-3 px-6 rounded-lg transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Check Code
+            </button>
+          </form>
+
+          <label className="flex items-center justify-center space-x-2 w-full py-3 px-6 border border-dashed border-dark-border rounded-lg text-gray-300 hover:border-neon-green hover:text-neon-green transition-colors cursor-pointer">
+            <Upload size={18} />
+            <span>Upload a PDF instead</span>
+            <input type="file" accept="application/pdf,.pdf" onChange={handleFileChange} disabled={isLoading} className="hidden" />
+          </label>
+
+          {isLoading && (
+            <div className="mt-8 flex items-center justify-center text-gray-300 space-x-2">
+              <Loader2 className="animate-spin" size={20} />
+              <span>Checking...</span>
+            </div>
+          )}
+
+          {result && result.verified && (
+            <div className="mt-8 p-6 bg-dark-bg rounded-lg border border-neon-green">
+              <div className="flex items-center space-x-2 text-neon-green font-bold text-lg mb-4">
+                <ShieldCheck size={24} />
+                <span>Internet Streets novelty document</span>
+              </div>
+              <p className="text-gray-300 text-sm mb-4">
+                This is a novelty document generated for entertainment. It is not a real document and was not
+                issued by any organisation it appears to come from.
+              </p>
+              <dl className="grid grid-cols-3 gap-2 text-sm">
+                <dt className="text-gray-500">Code</dt>
+                <dd className="col-span-2 text-white font-mono">{result.code}</dd>
+                <dt className="text-gray-500">Service</dt>
+                <dd className="col-span-2 text-white">{result.serviceName}</dd>
+                <dt className="text-gray-500">Generated</dt>
+                <dd className="col-span-2 text-white">
+                  {result.generatedAt && new Date(result.generatedAt).toLocaleString('en-GB')}
+                  {result.version && result.version > 1 ? ` (version ${result.version})` : ''}
+                </dd>
+              </dl>
+            </div>
+          )}
+
+          {result && !result.verified && (
+            <div className="mt-8 p-6 bg-dark-bg rounded-lg border border-red-500">
+              <div className="flex items-center space-x-2 text-red-400 font-bold text-lg mb-2">
+                <ShieldX size={24} />
+                <span>Not verified</span>
+              </div>
+              <p className="text-gray-300 text-sm">{result.error}</p>
+            </div>
+          )}
+        </div>
+
+        <p className="mt-8 text-center text-gray-500 text-xs">
+          We only confirm that a document came from us - the details entered by the customer are never shown.
+        </p>
+      </div>
+    </div>
+  )
+}
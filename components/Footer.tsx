@@ -30,6 +30,13 @@ export default function Footer() {
               Terms of Service
             </a>
             {' '}|{' '}
+            <a 
+              href="/verify" 
+              className="text-gray-400 hover:text-neon-green transition-colors"
+            >
+              Verify a document
+            </a>
+            {' '}|{' '}
             <a 
               href="mailto:thegaminggeekat@gmail.com" 
               className="text-gray-400 hover:text-neon-green transition-colors"
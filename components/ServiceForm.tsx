@@ -1,33 +1,292 @@
 'use client'
 
-import { useState } from 'react'
-import { Loader2 } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { Loader2, Upload, X } from 'lucide-react'
+import type { CrossFieldRule, ServiceField } from '@/lib/services'
+import { validateFields } from '@/lib/fieldValidation'
 
 interface ServiceFormProps {
   serviceId: string
   serviceName: string
-  fields: Array<{
-    name: string
-    label: string
-    type: 'text' | 'date' | 'email' | 'number'
-    required?: boolean
-    placeholder?: string
-  }>
+  fields: ServiceField[]
+  rules?: CrossFieldRule[]
   description: string
   price?: number
 }
 
-export default function ServiceForm({ serviceId, serviceName, fields, description, price = 250 }: ServiceFormProps) {
+export default function ServiceForm({ serviceId, serviceName, fields, rules, description, price = 250 }: ServiceFormProps) {
   const [formData, setFormData] = useState<Record<string, string>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [touched, setTouched] = useState<Record<string, boolean>>({})
   const [isLoading, setIsLoading] = useState(false)
   const [disclaimerAccepted, setDisclaimerAccepted] = useState(false)
+  const [uploading, setUploading] = useState<Record<string, boolean>>({})
+  const [previews, setPreviews] = useState<Record<string, string>>({})
+  // Object URLs behind the previews - each one keeps its file in memory until revoked
+  const previewUrls = useRef<Record<string, string>>({})
+  const [uploadToken, setUploadToken] = useState<{ token: string; expiresAt: number } | null>(null)
+  // Screening changes the customer has been shown, and the submission they were shown for
+  const [screeningNotices, setScreeningNotices] = useState<Record<string, string>>({})
+  const [reviewedInputs, setReviewedInputs] = useState<string | null>(null)
+  const isUploading = Object.keys(uploading).some(name => uploading[name])
+  const hasPendingReview = reviewedInputs === JSON.stringify(formData) && Object.keys(screeningNotices).length > 0
+
+  useEffect(() => {
+    const urls = previewUrls.current
+    return () => {
+      Object.values(urls).forEach(url => url && URL.revokeObjectURL(url))
+    }
+  }, [])
+
+  // Swap a field's preview, releasing the one it replaces
+  const replacePreview = (name: string, url: string) => {
+    const previous = previewUrls.current[name]
+    if (previous) URL.revokeObjectURL(previous)
+    previewUrls.current[name] = url
+    setPreviews(prev => ({ ...prev, [name]: url }))
+  }
 
   const handleInputChange = (name: string, value: string) => {
-    setFormData(prev => ({ ...prev, [name]: value }))
+    const next = { ...formData, [name]: value }
+    setFormData(next)
+
+    if (screeningNotices[name]) {
+      setScreeningNotices(prev => {
+        const notices = { ...prev }
+        delete notices[name]
+        return notices
+      })
+    }
+
+    // Re-check as the customer types once a field has been visited
+    if (touched[name] || fieldErrors[name]) {
+      setFieldErrors(validateFields(fields, next, rules).errors)
+    }
+  }
+
+  const handleBlur = (name: string) => {
+    setTouched(prev => ({ ...prev, [name]: true }))
+    const { errors } = validateFields(fields, formData, rules)
+    setFieldErrors(prev => {
+      const next = { ...prev }
+      if (errors[name]) next[name] = errors[name]
+      else delete next[name]
+      return next
+    })
+  }
+
+  // One upload session per form - renewed shortly before the token expires
+  const getUploadToken = async (): Promise<string> => {
+    if (uploadToken && uploadToken.expiresAt * 1000 - Date.now() > 60 * 1000) {
+      return uploadToken.token
+    }
+
+    const response = await fetch('/api/uploads/session', { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Upload failed. Please try again.')
+    }
+
+    setUploadToken({ token: data.token, expiresAt: data.expiresAt })
+    return data.token
+  }
+
+  // Images are uploaded as soon as they're picked - the form only submits the upload ID
+  const handleImageChange = async (field: ServiceField, file: File | null) => {
+    if (!file) {
+      replacePreview(field.name, '')
+      handleInputChange(field.name, '')
+      return
+    }
+
+    setUploading(prev => ({ ...prev, [field.name]: true }))
+    try {
+      const body = new FormData()
+      body.append('file', file)
+      body.append('token', await getUploadToken())
+      const response = await fetch('/api/uploads', { method: 'POST', body })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Upload failed. Please try again.')
+      }
+
+      replacePreview(field.name, URL.createObjectURL(file))
+      setFormData(prev => ({ ...prev, [field.name]: data.id }))
+      setFieldErrors(prev => {
+        const next = { ...prev }
+        delete next[field.name]
+        return next
+      })
+    } catch (error) {
+      replacePreview(field.name, '')
+      setFormData(prev => ({ ...prev, [field.name]: '' }))
+      setFieldErrors(prev => ({
+        ...prev,
+        [field.name]: error instanceof Error ? error.message : 'Upload failed. Please try again.'
+      }))
+    } finally {
+      setUploading(prev => ({ ...prev, [field.name]: false }))
+    }
+  }
+
+  const renderControl = (field: ServiceField, error?: string) => {
+    const value = formData[field.name] || ''
+    const inputClassName = `w-full px-4 py-3 bg-dark-bg border ${error ? 'border-red-500' : 'border-dark-border'} rounded-lg text-white placeholder-gray-500 focus:border-neon-green focus:outline-none focus:ring-2 focus:ring-neon-green focus:ring-opacity-50 transition-colors`
+    const today = new Date().toISOString().slice(0, 10)
+    const resolveBound = (bound?: string) => {
+      const resolved = bound === 'today' ? today : bound
+      return field.type === 'month' ? resolved?.slice(0, 7) : resolved
+    }
+    const common = {
+      id: field.name,
+      name: field.name,
+      onBlur: () => handleBlur(field.name),
+      required: field.required,
+      'aria-invalid': Boolean(error)
+    }
+
+    switch (field.type) {
+      case 'select':
+        return (
+          <select
+            {...common}
+            value={value}
+            onChange={(e) => handleInputChange(field.name, e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Select {field.label.toLowerCase()}</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+
+      case 'radio':
+        return (
+          <div role="radiogroup" aria-invalid={Boolean(error)} className="flex flex-wrap gap-3">
+            {(field.options || []).map(option => (
+              <label
+                key={option}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg border cursor-pointer transition-colors ${value === option ? 'border-neon-green text-neon-green' : 'border-dark-border text-gray-300'}`}
+              >
+                <input
+                  type="radio"
+                  name={field.name}
+                  value={option}
+                  checked={value === option}
+                  onChange={(e) => handleInputChange(field.name, e.target.value)}
+                  onBlur={() => handleBlur(field.name)}
+                  className="text-neon-green focus:ring-neon-green"
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        )
+
+      case 'textarea':
+        return (
+          <>
+            <textarea
+              {...common}
+              value={value}
+              onChange={(e) => handleInputChange(field.name, e.target.value)}
+              placeholder={field.placeholder}
+              maxLength={field.maxLength}
+              rows={4}
+              className={inputClassName}
+            />
+            {field.maxLength && (
+              <p className="mt-1 text-xs text-gray-500 text-right">{value.length}/{field.maxLength}</p>
+            )}
+          </>
+        )
+
+      case 'currency':
+        return (
+          <div className="relative">
+            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400">
+              {(field.currency || 'GBP') === 'GBP' ? '£' : field.currency}
+            </span>
+            <input
+              {...common}
+              type="number"
+              inputMode="decimal"
+              step="0.01"
+              min={field.min}
+              max={field.max}
+              value={value}
+              onChange={(e) => handleInputChange(field.name, e.target.value)}
+              placeholder={field.placeholder}
+              className={`${inputClassName} pl-10`}
+            />
+          </div>
+        )
+
+      case 'image':
+        return (
+          <div className="flex items-center space-x-4">
+            {previews[field.name] && value ? (
+              <div className="relative">
+                <img src={previews[field.name]} alt={field.label} className="w-20 h-24 object-cover rounded border border-dark-border" />
+                <button
+                  type="button"
+                  onClick={() => handleImageChange(field, null)}
+                  aria-label={`Remove ${field.label.toLowerCase()}`}
+                  className="absolute -top-2 -right-2 bg-dark-card border border-dark-border rounded-full p-1 text-gray-300 hover:text-white"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ) : null}
+            <label className={`flex items-center px-4 py-3 rounded-lg border border-dashed cursor-pointer ${error ? 'border-red-500' : 'border-dark-border'} text-gray-300 hover:border-neon-green`}>
+              {uploading[field.name] ? (
+                <Loader2 className="animate-spin mr-2" size={18} />
+              ) : (
+                <Upload className="mr-2" size={18} />
+              )}
+              <span>{uploading[field.name] ? 'Uploading...' : value ? 'Replace image' : 'Upload PNG or JPEG'}</span>
+              <input
+                id={field.name}
+                type="file"
+                accept="image/png,image/jpeg"
+                className="sr-only"
+                onChange={(e) => {
+                  handleImageChange(field, e.target.files?.[0] || null)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          </div>
+        )
+
+      default:
+        return (
+          <input
+            {...common}
+            type={field.type}
+            value={value}
+            onChange={(e) => handleInputChange(field.name, e.target.value)}
+            placeholder={field.placeholder}
+            minLength={field.minLength}
+            maxLength={field.maxLength}
+            min={field.type === 'date' || field.type === 'month' ? resolveBound(field.minDate) : field.min}
+            max={field.type === 'date' || field.type === 'month' ? resolveBound(field.maxDate) : field.max}
+            className={inputClassName}
+          />
+        )
+    }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    // Same validator the checkout endpoint runs - catch mistakes before paying
+    const validation = validateFields(fields, formData, rules)
+    setFieldErrors(validation.errors)
+    if (!validation.valid) {
+      return
+    }
     
     if (!disclaimerAccepted) {
       alert('Please confirm that you understand this is novelty content.')
@@ -37,6 +296,44 @@ export default function ServiceForm({ serviceId, serviceName, fields, descriptio
     setIsLoading(true)
 
     try {
+      // Preview screening so nothing is changed after payment without the customer knowing
+      const snapshot = JSON.stringify(formData)
+      if (reviewedInputs !== snapshot) {
+        const precheck = await fetch('/api/precheck', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            slug: serviceId,
+            inputs: formData,
+          }),
+        })
+        const result = await precheck.json()
+        if (!precheck.ok) {
+          throw new Error(result.error || 'Unable to check your details')
+        }
+
+        const rejections: Record<string, string> = {}
+        const notices: Record<string, string> = {}
+        for (const finding of result.findings as Array<{ field: string; action: string; message: string }>) {
+          if (finding.action === 'reject') rejections[finding.field] = finding.message
+          else notices[finding.field] = finding.message
+        }
+        setScreeningNotices(notices)
+
+        if (!result.ok) {
+          setFieldErrors(prev => ({ ...prev, ...rejections }))
+          return
+        }
+
+        // Show the changes and let the customer decide - the next submit continues
+        if (Object.keys(notices).length > 0) {
+          setReviewedInputs(snapshot)
+          return
+        }
+      }
+
       // Create checkout session
       const response = await fetch('/api/create-checkout-session', {
         method: 'POST',
@@ -46,6 +343,7 @@ export default function ServiceForm({ serviceId, serviceName, fields, descriptio
         body: JSON.stringify({
           slug: serviceId,
           inputs: formData,
+          uploadToken: uploadToken?.token,
         }),
       })
 
@@ -53,6 +351,8 @@ export default function ServiceForm({ serviceId, serviceName, fields, descriptio
       
       if (data.url) {
         window.location.href = data.url
+      } else if (data.fieldErrors) {
+        setFieldErrors(data.fieldErrors)
       } else {
         alert(data.error || 'Error processing payment. Please try again.')
       }
@@ -70,24 +370,33 @@ export default function ServiceForm({ serviceId, serviceName, fields, descriptio
         <h2 className="text-2xl font-bold text-neon-pink mb-4">{serviceName}</h2>
         <p className="text-gray-300 mb-8">{description}</p>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {fields.map((field) => (
-            <div key={field.name}>
-              <label className="block text-sm font-medium text-gray-300 mb-2">
-                {field.label}
-                {field.required && <span className="text-neon-pink ml-1">*</span>}
-              </label>
-              <input
-                type={field.type}
-                name={field.name}
-                value={formData[field.name] || ''}
-                onChange={(e) => handleInputChange(field.name, e.target.value)}
-                required={field.required}
-                placeholder={field.placeholder}
-                className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg text-white placeholder-gray-500 focus:border-neon-green focus:outline-none focus:ring-2 focus:ring-neon-green focus:ring-opacity-50 transition-colors"
-              />
-            </div>
-          ))}
+        <form onSubmit={handleSubmit} noValidate className="space-y-6">
+          {fields.map((field) => {
+            const error = fieldErrors[field.name]
+
+            return (
+              <div key={field.name}>
+                {field.type === 'radio' ? (
+                  <span className="block text-sm font-medium text-gray-300 mb-2">
+                    {field.label}
+                    {field.required && <span className="text-neon-pink ml-1">*</span>}
+                  </span>
+                ) : (
+                  <label htmlFor={field.name} className="block text-sm font-medium text-gray-300 mb-2">
+                    {field.label}
+                    {field.required && <span className="text-neon-pink ml-1">*</span>}
+                  </label>
+                )}
+                {renderControl(field, error)}
+                {error && (
+                  <p className="mt-1 text-sm text-red-400">{error}</p>
+                )}
+                {!error && screeningNotices[field.name] && (
+                  <p className="mt-1 text-sm text-neon-yellow">⚠️ {screeningNotices[field.name]}</p>
+                )}
+              </div>
+            )
+          })}
 
           <div className="pt-6">
             <div className="flex items-center justify-between mb-6">
@@ -109,9 +418,15 @@ export default function ServiceForm({ serviceId, serviceName, fields, descriptio
               </label>
             </div>
             
+            {hasPendingReview && (
+              <div className="mb-6 p-4 bg-dark-bg rounded-lg border border-neon-yellow text-sm text-gray-300">
+                Some of your details will be changed as shown above. Edit them, or continue to checkout with the changes.
+              </div>
+            )}
+
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || isUploading}
               className="w-full bg-neon-pink hover:bg-neon-pink/80 text-white font-bold py-4 px-6 rounded-lg transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed neon-glow flex items-center justify-center space-x-2"
             >
               {isLoading ? (
@@ -120,7 +435,7 @@ export default function ServiceForm({ serviceId, serviceName, fields, descriptio
                   <span>Processing...</span>
                 </>
               ) : (
-                <span>Generate for £{(price / 100).toFixed(2)}</span>
+                <span>{hasPendingReview ? 'Continue' : 'Generate'} for £{(price / 100).toFixed(2)}</span>
               )}
             </button>
           </div>
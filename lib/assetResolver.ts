@@ -0,0 +1,76 @@
+/**
+ * Asset Resolver - Bundled images (service logos) for the PDF renderers
+ * Assets are read from public/ on first use and kept in process, so rendering never
+ * goes over the network; a service without a usable logo gets its generated brand
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { GeneratedBrand } from '@/lib/brand'
+import { getService } from '@/lib/services'
+import { inspectImage } from '@/lib/uploadStore'
+
+export interface ImageAsset {
+  path: string
+  format: 'PNG' | 'JPEG'
+  dataUrl: string
+  width: number
+  height: number
+}
+
+export type LogoAsset =
+  | { type: 'image'; image: ImageAsset }
+  | { type: 'brand'; brand: GeneratedBrand }
+
+// public/ in development; standalone builds and functions can point elsewhere
+const ASSET_ROOT = path.resolve(process.env.ASSET_DIR || path.join(process.cwd(), 'public'))
+
+// Misses are cached too - a missing file is reported once, not on every render
+const assetCache = new Map<string, ImageAsset | null>()
+
+/**
+ * Load an image under the asset root - null (with a warning) if it is missing or not a PNG/JPEG
+ */
+export function loadImageAsset(assetPath: string): ImageAsset | null {
+  if (assetCache.has(assetPath)) {
+    return assetCache.get(assetPath)!
+  }
+
+  const filePath = path.resolve(ASSET_ROOT, assetPath.replace(/^\/+/, ''))
+  let asset: ImageAsset | null = null
+
+  if (!filePath.startsWith(ASSET_ROOT + path.sep)) {
+    console.warn(`⚠️ Asset path escapes the asset directory: ${assetPath}`)
+  } else {
+    try {
+      const data = fs.readFileSync(filePath)
+      const { mimeType, width, height } = inspectImage(data)
+      asset = {
+        path: assetPath,
+        format: mimeType === 'image/png' ? 'PNG' : 'JPEG',
+        dataUrl: `data:${mimeType};base64,${data.toString('base64')}`,
+        width,
+        height
+      }
+      console.log(`🖼️ Loaded asset ${assetPath} (${width}x${height})`)
+    } catch (error) {
+      console.warn(`⚠️ Asset ${assetPath} unavailable in ${ASSET_ROOT}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  assetCache.set(assetPath, asset)
+  return asset
+}
+
+/**
+ * Logo for a service - its bundled image, otherwise the generated brand
+ */
+export function resolveServiceLogo(slug: string, brand?: GeneratedBrand): LogoAsset | null {
+  const logoPath = getService(slug)?.logo
+  const image = logoPath ? loadImageAsset(logoPath) : null
+
+  if (image) {
+    return { type: 'image', image }
+  }
+  return brand ? { type: 'brand', brand } : null
+}
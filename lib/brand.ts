@@ -55,6 +55,13 @@ const COLOR_SCHEMES = {
   }
 }
 
+/**
+ * Escape customer-supplied text placed in SVG markup
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
 /**
  * Generate initials from name
  */
@@ -136,7 +143,7 @@ function generateCircularSeal(options: BrandOptions, colors: any): string {
       
       <!-- Central initials -->
       <text x="60" y="65" font-family="Georgia, serif" font-size="14" font-weight="bold" 
-            text-anchor="middle" fill="${colors.primary}">${initials}</text>
+            text-anchor="middle" fill="${colors.primary}">${escapeXml(initials)}</text>
       
       <!-- Inner glyph (shield, star, scroll, etc.) -->
       ${innerGlyph}
@@ -144,7 +151,7 @@ function generateCircularSeal(options: BrandOptions, colors: any): string {
       <!-- Organization text around circumference -->
       <text font-family="Georgia, serif" font-size="9" font-weight="bold" 
             text-anchor="middle" fill="${colors.secondary}" letter-spacing="1px">
-        <textPath href="#textPath" startOffset="50%">${organizationText.toUpperCase()}</textPath>
+        <textPath href="#textPath" startOffset="50%">${escapeXml(organizationText.toUpperCase())}</textPath>
       </text>
       
       <!-- Decorative elements -->
@@ -228,11 +235,11 @@ function generateRectangularLogo(options: BrandOptions, colors: any): string {
       <circle cx="25" cy="40" r="15" fill="${colors.primary}" opacity="0.1"/>
       <circle cx="25" cy="40" r="12" fill="none" stroke="${colors.secondary}" stroke-width="2"/>
       <text x="25" y="46" font-family="Arial, sans-serif" font-size="12" font-weight="bold" 
-            text-anchor="middle" fill="${colors.primary}">${initials}</text>
+            text-anchor="middle" fill="${colors.primary}">${escapeXml(initials)}</text>
       
       <!-- Organization name -->
       <text x="55" y="35" font-family="Arial, sans-serif" font-size="16" font-weight="bold" 
-            fill="${colors.primary}">${organizationText}</text>
+            fill="${colors.primary}">${escapeXml(organizationText)}</text>
       
       <!-- Subtitle -->
       <text x="55" y="50" font-family="Arial, sans-serif" font-size="11" 
@@ -0,0 +1,101 @@
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { runCleanup } from '@/lib/cleanupRules'
+import { StructuredDocument } from '@/lib/documentModel'
+import { getAllServices } from '@/lib/services'
+import { cleanDocument } from '@/lib/textClean'
+
+// Golden corpus, one directory per service: fixtures/cleanup/<slug>/response.input.txt is a raw
+// model response and document.input.json a structured one - each is cleaned for that service
+// and compared to its .expected file
+const GOLDEN_DIR = path.join(__dirname, '..', 'fixtures', 'cleanup')
+
+const SERVICE_SLUGS = getAllServices().map(service => service.slug).sort()
+
+function readGolden(slug: string, file: string): string {
+  return fs.readFileSync(path.join(GOLDEN_DIR, slug, file), 'utf8')
+}
+
+function readGoldenDocument(slug: string, kind: 'input' | 'expected'): StructuredDocument {
+  return JSON.parse(readGolden(slug, `document.${kind}.json`))
+}
+
+describe('cleanup golden files', () => {
+  it('has a corpus for every service', () => {
+    const corpus = fs.readdirSync(GOLDEN_DIR).sort()
+    expect(SERVICE_SLUGS.length).toBeGreaterThan(0)
+    expect(corpus).toEqual(SERVICE_SLUGS)
+  })
+
+  it.each(SERVICE_SLUGS)('%s response', slug => {
+    expect(runCleanup(readGolden(slug, 'response.input.txt'), { slug }).text)
+      .toBe(readGolden(slug, 'response.expected.txt').replace(/\n$/, ''))
+  })
+
+  it.each(SERVICE_SLUGS)('%s response is already clean once cleaned', slug => {
+    const cleaned = runCleanup(readGolden(slug, 'response.input.txt'), { slug }).text
+    expect(runCleanup(cleaned, { slug })).toEqual({ text: cleaned, applied: [] })
+  })
+
+  it.each(SERVICE_SLUGS)('%s document', slug => {
+    expect(cleanDocument(readGoldenDocument(slug, 'input'), slug)).toEqual(readGoldenDocument(slug, 'expected'))
+  })
+
+  it.each(SERVICE_SLUGS)('%s document is already clean once cleaned', slug => {
+    const cleaned = cleanDocument(readGoldenDocument(slug, 'input'), slug)
+    expect(cleanDocument(cleaned, slug)).toEqual(cleaned)
+  })
+})
+
+describe('runCleanup', () => {
+  it('reports the rules that changed the text, in order', () => {
+    expect(runCleanup('**Bold**   text on [Insert Date]').applied)
+      .toEqual(['strip-markdown', 'remove-placeholders', 'normalize-whitespace'])
+  })
+
+  it('keeps the wording of novelty notices', () => {
+    expect(runCleanup('Novelty item - [Insert Date] stays').text).toBe('Novelty item - [Insert Date] stays')
+  })
+
+  it('only runs service rules for their service', () => {
+    const text = 'Subject: Alex Example\n\nObserved at the library.'
+    expect(runCleanup(text, { slug: 'fbi-file' }).text).toBe('Observed at the library.')
+    expect(runCleanup(text, { slug: 'payslip' }).text).toBe(text)
+  })
+
+  it('treats document headings and list items as such without markdown markers', () => {
+    expect(runCleanup('Key findings:', { role: 'heading' }).text).toBe('KEY FINDINGS')
+    expect(runCleanup('Key findings:', { role: 'text' }).text).toBe('KEY FINDINGS')
+    expect(runCleanup('- Owns a boat', { role: 'item' }).text).toBe('Owns a boat')
+    expect(runCleanup('- Owns a boat').text).toBe('• Owns a boat')
+  })
+})
+
+describe('cleanDocument', () => {
+  it('cleans every string in the document', () => {
+    const document: StructuredDocument = {
+      title: '**Subject File**',
+      metadata: [{ label: 'Issued', value: '[Insert Date]' }],
+      sections: [{
+        heading: '## Summary',
+        blocks: [
+          { type: 'paragraph', text: 'Seen   at the *library*.' },
+          { type: 'bullets', items: ['- `Wi-Fi` use'] }
+        ]
+      }]
+    }
+
+    expect(cleanDocument(document)).toEqual({
+      title: 'Subject File',
+      metadata: [{ label: 'Issued', value: '' }],
+      sections: [{
+        heading: 'SUMMARY',
+        blocks: [
+          { type: 'paragraph', text: 'Seen at the library.' },
+          { type: 'bullets', items: ['Wi-Fi use'] }
+        ]
+      }]
+    })
+  })
+})
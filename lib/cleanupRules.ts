@@ -0,0 +1,257 @@
+/**
+ * Cleanup Rules - Named, ordered rules that tidy generated text before rendering
+ * Text is split into line tokens first; novelty notices and disclaimers become
+ * notice tokens whose wording no rule may change or remove, and every other rule
+ * only touches the tokens it is written for
+ */
+
+import type { DocumentTextRole } from '@/lib/documentModel'
+
+export type CleanupTokenKind = 'blank' | 'notice' | 'heading' | 'list' | 'text'
+
+export interface CleanupToken {
+  kind: CleanupTokenKind
+  text: string
+}
+
+export interface CleanupContext {
+  slug?: string
+  // Set when cleaning one string of a structured document - a section heading or
+  // list item is treated as one without any markdown marker
+  role?: DocumentTextRole
+}
+
+export interface CleanupRule {
+  name: string
+  description: string
+  // Service slugs the rule applies to (default: all)
+  services?: string[]
+  apply(tokens: CleanupToken[], context: CleanupContext): CleanupToken[]
+}
+
+export interface CleanupResult {
+  text: string
+  // Rules that changed something, in order - for logs and debugging
+  applied: string[]
+}
+
+// Novelty notices, disclaimers and our own branding - their wording is always kept
+const NOTICE = /not\s+a\s+real\s+document|for\s+entertainment|entertainment\s+(?:purposes\s+)?only|novelty|fictional|not\s+real\b|\(fake\)|internet\s+streets/i
+
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+/
+const MARKDOWN_HEADING = /^\s*#{1,6}\s+/
+const HORIZONTAL_RULE = /^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/
+const CODE_FENCE = /^\s*```[a-zA-Z]*\s*$/
+
+// Bracketed text the model left for someone to fill in - real bracketed content
+// such as [REDACTED] or [Annex B] is left alone
+const PLACEHOLDER = /\[(?:insert|enter|add|your|placeholder|tbc|tbd|x{2,}|current\s+date|date|name|address|signature)\b[^\]\n]{0,40}\]/gi
+
+// A placeholder right before punctuation takes the space in front of it too - "Dear [Name]," becomes "Dear,"
+const PLACEHOLDER_BEFORE_PUNCTUATION = new RegExp(`[ \\t]*${PLACEHOLDER.source}(?=[.,;:!?])`, 'gi')
+
+// Field labels echoed with nothing after them
+const EMPTY_FIELD = /^\s*(?:Name|Full Name|DOB|Date of Birth|City|Location|Occupation):\s*$/i
+
+// Our own footer echoed back into the body
+const LEAKED_PAGE_NUMBER = /^\s*Page\s+\d+\s+of\s+\d+\s*$/i
+
+// Section names the renderer styles as headers, in their canonical form
+const SECTION_HEADERS: Array<[RegExp, string]> = [
+  [/^executive summary$/i, 'EXECUTIVE SUMMARY'],
+  [/^key findings$/i, 'KEY FINDINGS'],
+  [/^surveillance activity log$/i, 'SURVEILLANCE ACTIVITY LOG'],
+  [/^analyst notes?$/i, 'ANALYST NOTES'],
+  [/^threat assessment.*$/i, 'THREAT ASSESSMENT & RECOMMENDATION'],
+  [/^summary$/i, 'SUMMARY'],
+  [/^analysis$/i, 'ANALYSIS'],
+  [/^findings$/i, 'FINDINGS'],
+  [/^recommendations?$/i, 'RECOMMENDATIONS'],
+  [/^assessment$/i, 'ASSESSMENT']
+]
+
+function classify(line: string, role?: DocumentTextRole): CleanupTokenKind {
+  if (!line.trim()) return 'blank'
+  if (NOTICE.test(line)) return 'notice'
+  if (role === 'heading' || MARKDOWN_HEADING.test(line)) return 'heading'
+  if (role === 'item' || LIST_ITEM.test(line)) return 'list'
+  return 'text'
+}
+
+/**
+ * Split text into line tokens
+ */
+export function tokenize(text: string, role?: DocumentTextRole): CleanupToken[] {
+  return text.replace(/\r\n?/g, '\n').split('\n').map(line => ({ kind: classify(line, role), text: line }))
+}
+
+export function detokenize(tokens: CleanupToken[]): string {
+  return tokens.map(token => token.text).join('\n')
+}
+
+/**
+ * Rewrite the text of every token except notices - emptied tokens become blanks
+ */
+function mapText(tokens: CleanupToken[], transform: (text: string, token: CleanupToken) => string): CleanupToken[] {
+  return tokens.map(token => {
+    if (token.kind === 'notice' || token.kind === 'blank') return token
+    const text = transform(token.text, token)
+    return text.trim() ? { ...token, text } : { kind: 'blank', text: '' }
+  })
+}
+
+/**
+ * Drop tokens matching a predicate - notices are never dropped
+ */
+function dropTokens(tokens: CleanupToken[], predicate: (token: CleanupToken) => boolean): CleanupToken[] {
+  return tokens.filter(token => token.kind === 'notice' || !predicate(token))
+}
+
+export const stripCodeFences: CleanupRule = {
+  name: 'strip-code-fences',
+  description: 'Remove ``` fence lines, keeping the text inside them',
+  apply: tokens => dropTokens(tokens, token => CODE_FENCE.test(token.text))
+}
+
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/\*\*([^*\n]+)\*\*/g, '$1')
+    .replace(/__([^_\n]+)__/g, '$1')
+    .replace(/(^|[^*\w])\*([^*\s][^*\n]*?)\*(?=[^*\w]|$)/g, '$1$2')
+    .replace(/`([^`\n]+)`/g, '$1')
+}
+
+export const stripMarkdown: CleanupRule = {
+  name: 'strip-markdown',
+  description: 'Remove emphasis, inline code, heading hashes and horizontal rules - notices lose only the markup',
+  apply: tokens => mapText(
+    dropTokens(tokens, token => HORIZONTAL_RULE.test(token.text)),
+    text => stripEmphasis(text.replace(MARKDOWN_HEADING, ''))
+  ).map(token => {
+    if (token.kind !== 'notice') return token
+    const text = stripEmphasis(token.text.replace(MARKDOWN_HEADING, ''))
+    return NOTICE.test(text) ? { ...token, text } : token
+  })
+}
+
+export const removePlaceholders: CleanupRule = {
+  name: 'remove-placeholders',
+  description: 'Remove fill-in-the-blank brackets such as [Insert Date] - other bracketed text stays',
+  apply: tokens => mapText(tokens, text => text.replace(PLACEHOLDER_BEFORE_PUNCTUATION, '').replace(PLACEHOLDER, '').replace(/[ \t]{2,}/g, ' '))
+}
+
+export const removeLeakedFooter: CleanupRule = {
+  name: 'remove-leaked-footer',
+  description: 'Remove "Page N of M" lines echoing the PDF footer',
+  apply: tokens => dropTokens(tokens, token => LEAKED_PAGE_NUMBER.test(token.text))
+}
+
+export const removeEmptyFields: CleanupRule = {
+  name: 'remove-empty-fields',
+  description: 'Remove field labels such as "City:" that have no value',
+  apply: tokens => dropTokens(tokens, token => EMPTY_FIELD.test(token.text))
+}
+
+export const removeSubjectBlock: CleanupRule = {
+  name: 'remove-subject-block',
+  description: 'Remove the banner and subject block the FBI header already renders from trusted inputs',
+  services: ['fbi-file'],
+  apply: (tokens, context) => {
+    // Titles and headings stay - the template drops a whole "Subject" section by its heading
+    if (context.role === 'title' || context.role === 'heading') return tokens
+
+    const result: CleanupToken[] = []
+    let inSubjectBlock = false
+
+    for (const token of tokens) {
+      if (token.kind !== 'notice' && /^FEDERAL BUREAU OF INVESTIGATION\b/i.test(token.text.trim())) continue
+      if (token.kind !== 'notice' && /^Subject(?: Information)?:/i.test(token.text.trim())) {
+        inSubjectBlock = /^Subject Information:?\s*$/i.test(token.text.trim())
+        continue
+      }
+      // The block runs until the first blank line
+      if (inSubjectBlock) {
+        if (token.kind === 'blank') {
+          inSubjectBlock = false
+        } else if (token.kind !== 'notice') {
+          continue
+        }
+      }
+      result.push(token)
+    }
+    return result
+  }
+}
+
+export const normalizeHeaders: CleanupRule = {
+  name: 'normalize-headers',
+  description: 'Turn known section names (any case, optional colon) into the canonical headers the renderer styles',
+  apply: tokens => tokens.map(token => {
+    if (token.kind !== 'text' && token.kind !== 'heading') return token
+    const name = token.text.trim().replace(/:$/, '')
+    const header = SECTION_HEADERS.find(([pattern]) => pattern.test(name))
+    return header ? { kind: 'heading', text: header[1] } : token
+  })
+}
+
+export const repairLists: CleanupRule = {
+  name: 'repair-lists',
+  description: 'Use • for bullets, keep numbering, and fix doubled markers like "1. - item" - document list items drop the bullet the renderer draws',
+  apply: (tokens, context) => tokens.map(token => {
+    if (token.kind !== 'list') return token
+    const text = token.text
+      .replace(/^\s*(\d+)[.)]\s*[-*•]\s+/, '$1. ')
+      .replace(/^\s*(\d+)\)\s+/, '$1. ')
+      .replace(/^\s*[-*•]\s+/, context.role === 'item' ? '' : '• ')
+    return { ...token, text }
+  })
+}
+
+export const normalizeWhitespace: CleanupRule = {
+  name: 'normalize-whitespace',
+  description: 'Collapse runs of spaces and tabs, trim line ends, and allow at most one blank line in a row',
+  apply: tokens => {
+    const result: CleanupToken[] = []
+    for (const token of tokens) {
+      if (token.kind === 'blank' && (result.length === 0 || result[result.length - 1].kind === 'blank')) continue
+      result.push(token.kind === 'blank' ? token : { ...token, text: token.text.replace(/[ \t]+/g, ' ').trim() })
+    }
+    while (result.length > 0 && result[result.length - 1].kind === 'blank') result.pop()
+    return result
+  }
+}
+
+/**
+ * The default pipeline, in order
+ */
+export const CLEANUP_RULES: CleanupRule[] = [
+  stripCodeFences,
+  stripMarkdown,
+  removePlaceholders,
+  removeLeakedFooter,
+  removeEmptyFields,
+  removeSubjectBlock,
+  normalizeHeaders,
+  repairLists,
+  normalizeWhitespace
+]
+
+/**
+ * Run text through the cleanup rules - notices keep their wording, only their whitespace is tidied
+ */
+export function runCleanup(text: string, context: CleanupContext = {}, rules: CleanupRule[] = CLEANUP_RULES): CleanupResult {
+  let tokens = tokenize(text, context.role)
+  const applied: string[] = []
+
+  for (const rule of rules) {
+    if (rule.services && (!context.slug || rule.services.indexOf(context.slug) === -1)) continue
+
+    const before = detokenize(tokens)
+    tokens = rule.apply(tokens, context)
+    if (detokenize(tokens) !== before) {
+      applied.push(rule.name)
+    }
+  }
+
+  return { text: detokenize(tokens), applied }
+}
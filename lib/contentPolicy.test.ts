@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import policyConfig from '../data/content-policy.json'
+import { parseContentPolicy } from '@/lib/contentPolicy'
+import { StructuredDocument, validateDocument } from '@/lib/documentModel'
+import { getFixtureResponse, listFixtureServices } from '@/lib/fixtures'
+import { screenInputs } from '@/lib/inputScreening'
+import { moderateOutput } from '@/lib/outputModeration'
+
+const DOSSIER_SERVICES = ['criminal-record', 'fbi-file', 'nsa-surveillance']
+
+// The sort of record a dossier is made of - and harassment anywhere else
+const DOSSIER_WORDING = 'Subject was placed on a terrorist watchlist in 2019 after sharing a cell with a convicted rapist.'
+
+function fixtureDocument(slug: string): StructuredDocument {
+  return validateDocument(JSON.parse(getFixtureResponse(slug)!)).document!
+}
+
+function withParagraph(document: StructuredDocument, text: string): StructuredDocument {
+  return {
+    ...document,
+    sections: document.sections.concat({ heading: 'Additional Notes', blocks: [{ type: 'paragraph', text }] })
+  }
+}
+
+describe('content policy file', () => {
+  it('parses', () => {
+    expect(() => parseContentPolicy(policyConfig)).not.toThrow()
+  })
+})
+
+describe('output moderation of the real fixtures', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  it.each(listFixtureServices())('passes the %s fixture', slug => {
+    const result = moderateOutput(slug, fixtureDocument(slug), 'trace_policy')
+
+    expect(result.violations).toEqual([])
+    expect(result.passed).toBe(true)
+  })
+
+  it.each(DOSSIER_SERVICES)('allows watchlist and conviction wording in %s output', slug => {
+    const result = moderateOutput(slug, withParagraph(fixtureDocument(slug), DOSSIER_WORDING), 'trace_policy')
+
+    expect(result.passed).toBe(true)
+    expect(result.text).toContain('terrorist watchlist')
+  })
+
+  it.each(listFixtureServices().filter(slug => DOSSIER_SERVICES.indexOf(slug) === -1))(
+    'rejects the same wording in %s output',
+    slug => {
+      const result = moderateOutput(slug, withParagraph(fixtureDocument(slug), DOSSIER_WORDING), 'trace_policy')
+
+      expect(result.passed).toBe(false)
+      expect(result.violations.map(match => match.ruleId)).toContain('abuse-in-output')
+    }
+  )
+})
+
+describe('public figures', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  it('catches misspelt names in the full name input', () => {
+    const result = screenInputs('fbi-file', { fullName: 'Elon Mussk' })
+
+    expect(result.inputs.fullName).toBe('John Smith')
+    expect(result.findings.map(finding => finding.replacement)).toEqual(['John Smith'])
+  })
+
+  it('replaces exact names in generated text', () => {
+    const result = moderateOutput('payslip', withParagraph(fixtureDocument('payslip'), 'Approved by Bill Gates.'), 'trace_policy')
+
+    expect(result.text).toContain('Approved by John Smith.')
+    expect(result.redactions.map(match => match.ruleId)).toEqual(['public-figures-in-output'])
+  })
+
+  it('leaves look-alike names in generated text alone', () => {
+    const result = moderateOutput('payslip', withParagraph(fixtureDocument('payslip'), 'Approved by Bill Yates of Joe Bidden Ltd.'), 'trace_policy')
+
+    expect(result.text).toContain('Approved by Bill Yates of Joe Bidden Ltd.')
+    expect(result.redactions).toEqual([])
+  })
+})
+
+describe('input screening', () => {
+  it.each(listFixtureServices())('rejects abusive %s inputs', slug => {
+    const result = screenInputs(slug, { fullName: 'Sam the rapist', companyName: 'Nazi Holdings' })
+
+    expect(result.rejected).toBe(true)
+    expect(result.findings.every(finding => finding.action === 'reject')).toBe(true)
+  })
+})
@@ -0,0 +1,356 @@
+/**
+ * Content Policy - Data-driven rules for customer inputs and generated text
+ * Rules live in data/content-policy.json, versioned so every audit entry records which
+ * policy made the decision; each rule is scoped to services and fields and either
+ * rejects the submission, replaces the value or flags it for review
+ */
+
+import policyConfig from '../data/content-policy.json'
+import type { ServiceField } from '@/lib/services'
+
+export type PolicyAction = 'reject' | 'replace' | 'flag'
+
+// word: whole words only; fuzzy: whole words, allowing small misspellings of longer terms
+export type PolicyMatchMode = 'word' | 'fuzzy'
+
+// input: customer submissions; output: the text the model generated
+export type PolicyTarget = 'input' | 'output'
+
+export interface PolicyRule {
+  id: string
+  description?: string
+  action: PolicyAction
+  match: PolicyMatchMode
+  terms: string[]
+  // Required for replace rules
+  replacement?: string
+  // Customer-facing message - {label}, {value} and {replacement} are filled in
+  message?: string
+  // Service slugs the rule applies to (default: all)
+  services?: string[]
+  // Field names the rule applies to (default: every text and textarea field) - inputs only
+  fields?: string[]
+  // What the rule screens (default: inputs only)
+  targets?: PolicyTarget[]
+}
+
+export interface ContentPolicy {
+  version: string
+  rules: PolicyRule[]
+}
+
+export interface PolicyMatch {
+  ruleId: string
+  action: PolicyAction
+  field: string
+  label: string
+  value: string
+  term: string
+  // The text that matched - differs from the term for fuzzy matches
+  matchedText: string
+  replacement?: string
+  message: string
+}
+
+export interface PolicyEvaluation {
+  policyVersion: string
+  // Inputs with replacements applied
+  inputs: Record<string, any>
+  matches: PolicyMatch[]
+  rejected: boolean
+  flagged: boolean
+}
+
+export interface TextEvaluation {
+  policyVersion: string
+  // Text with replacements applied to every occurrence
+  text: string
+  matches: PolicyMatch[]
+  // Replace matches that survived redaction (e.g. spelled with accents or misspelled)
+  unredacted: PolicyMatch[]
+  rejected: boolean
+  flagged: boolean
+}
+
+export class ContentPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContentPolicyError'
+  }
+}
+
+const ACTIONS: PolicyAction[] = ['reject', 'replace', 'flag']
+const MATCH_MODES: PolicyMatchMode[] = ['word', 'fuzzy']
+const TARGETS: PolicyTarget[] = ['input', 'output']
+
+// Symbol swaps used to dodge a blocklist - digits are left alone because terms like MI5 contain them
+const LOOKALIKES: Record<string, string> = { '@': 'a', '$': 's' }
+
+/**
+ * Validate a parsed rules file - throws ContentPolicyError naming the first problem
+ */
+export function parseContentPolicy(raw: any): ContentPolicy {
+  if (!raw || typeof raw !== 'object' || typeof raw.version !== 'string' || !raw.version) {
+    throw new ContentPolicyError('Content policy must have a version')
+  }
+  if (!Array.isArray(raw.rules)) {
+    throw new ContentPolicyError('Content policy must have a rules array')
+  }
+
+  const seen: string[] = []
+  const rules: PolicyRule[] = raw.rules.map((rule: any, index: number) => {
+    if (!rule || typeof rule.id !== 'string' || !rule.id) {
+      throw new ContentPolicyError(`Rule ${index + 1} has no id`)
+    }
+    const id: string = rule.id
+    if (seen.indexOf(id) !== -1) {
+      throw new ContentPolicyError(`Duplicate rule id "${id}"`)
+    }
+    seen.push(id)
+
+    if (ACTIONS.indexOf(rule.action) === -1) {
+      throw new ContentPolicyError(`Rule "${id}" has an unknown action "${rule.action}"`)
+    }
+    if (MATCH_MODES.indexOf(rule.match) === -1) {
+      throw new ContentPolicyError(`Rule "${id}" has an unknown match mode "${rule.match}"`)
+    }
+    if (!Array.isArray(rule.terms) || rule.terms.length === 0 || rule.terms.some((term: any) => typeof term !== 'string' || !normalize(term))) {
+      throw new ContentPolicyError(`Rule "${id}" needs a non-empty list of terms`)
+    }
+    if (rule.action === 'replace' && (typeof rule.replacement !== 'string' || !rule.replacement)) {
+      throw new ContentPolicyError(`Replace rule "${id}" needs a replacement`)
+    }
+    if (rule.targets !== undefined && (!Array.isArray(rule.targets) || rule.targets.some((target: any) => TARGETS.indexOf(target) === -1))) {
+      throw new ContentPolicyError(`Rule "${id}" targets must be "input" and/or "output"`)
+    }
+    for (const key of ['services', 'fields']) {
+      if (rule[key] !== undefined && (!Array.isArray(rule[key]) || rule[key].some((entry: any) => typeof entry !== 'string'))) {
+        throw new ContentPolicyError(`Rule "${id}" ${key} must be a list of names`)
+      }
+    }
+
+    return rule as PolicyRule
+  })
+
+  return { version: raw.version, rules }
+}
+
+/**
+ * Lowercase, strip accents and punctuation, undo lookalike characters and collapse whitespace
+ */
+export function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[@$]/g, char => LOOKALIKES[char])
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Edit distance allowed for a fuzzy term - short terms must match exactly
+ */
+function allowedDistance(term: string): number {
+  if (term.length < 5) return 0
+  if (term.length < 10) return 1
+  return 2
+}
+
+function levenshtein(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    // Every later row is at least this far off
+    if (rowMin > limit) return limit + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Find a term in normalized text - returns the matched words, or null
+ */
+function findTerm(text: string, term: string, mode: PolicyMatchMode): string | null {
+  const normalizedTerm = normalize(term)
+  if ((' ' + text + ' ').indexOf(' ' + normalizedTerm + ' ') !== -1) {
+    return normalizedTerm
+  }
+
+  const limit = allowedDistance(normalizedTerm)
+  if (mode !== 'fuzzy' || limit === 0) return null
+
+  // Compare against every run of words the same length as the term
+  const words = text.split(' ')
+  const termWords = normalizedTerm.split(' ').length
+  for (let start = 0; start + termWords <= words.length; start++) {
+    const window = words.slice(start, start + termWords).join(' ')
+    if (levenshtein(window, normalizedTerm, limit) <= limit) {
+      return window
+    }
+  }
+  return null
+}
+
+function targets(rule: PolicyRule, slug: string, target: PolicyTarget): boolean {
+  if ((rule.targets || ['input']).indexOf(target) === -1) return false
+  return !rule.services || rule.services.indexOf(slug) !== -1
+}
+
+function appliesTo(rule: PolicyRule, slug: string, field: ServiceField): boolean {
+  if (!targets(rule, slug, 'input')) return false
+  if (rule.fields) return rule.fields.indexOf(field.name) !== -1
+  return field.type === 'text' || field.type === 'textarea'
+}
+
+function fillMessage(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] !== undefined ? values[key] : placeholder)
+}
+
+function buildMatch(rule: PolicyRule, field: string, label: string, value: string, term: string, matchedText: string): PolicyMatch {
+  return {
+    ruleId: rule.id,
+    action: rule.action,
+    field,
+    label,
+    value,
+    term,
+    matchedText,
+    replacement: rule.replacement,
+    message: fillMessage(rule.message || '{label} contains content we can\'t include in a document.', {
+      label,
+      value,
+      replacement: rule.replacement || ''
+    })
+  }
+}
+
+/**
+ * Match normalized words (plain letters and digits) in the original text, whatever
+ * punctuation or spacing sits between them
+ */
+function wordsPattern(matchedText: string): RegExp {
+  return new RegExp(`(^|[^A-Za-z0-9])(${matchedText.split(' ').join('[^A-Za-z0-9]+')})(?=[^A-Za-z0-9]|$)`, 'gi')
+}
+
+/**
+ * Evaluate a submission - the first matching term per rule and field is reported;
+ * replacements are applied to the returned inputs, rejections and flags are only reported
+ */
+export function evaluateContentPolicy(
+  slug: string,
+  fields: ServiceField[],
+  inputs: Record<string, any>,
+  policy: ContentPolicy = getContentPolicy()
+): PolicyEvaluation {
+  const sanitized: Record<string, any> = { ...inputs }
+  const matches: PolicyMatch[] = []
+
+  for (const field of fields) {
+    const value = inputs[field.name]
+    if (typeof value !== 'string' || !value.trim()) continue
+    const text = normalize(value)
+
+    for (const rule of policy.rules) {
+      if (!appliesTo(rule, slug, field)) continue
+
+      for (const term of rule.terms) {
+        const matchedText = findTerm(text, term, rule.match)
+        if (matchedText === null) continue
+
+        matches.push(buildMatch(rule, field.name, field.label, value, term, matchedText))
+
+        if (rule.action === 'replace' && sanitized[field.name] === value) {
+          sanitized[field.name] = rule.replacement
+        }
+        break
+      }
+    }
+  }
+
+  return {
+    policyVersion: policy.version,
+    inputs: sanitized,
+    matches,
+    rejected: matches.some(match => match.action === 'reject'),
+    flagged: matches.some(match => match.action === 'flag')
+  }
+}
+
+/**
+ * Evaluate generated text against the output rules - replacements are applied to every
+ * occurrence, anything redaction can't remove is reported as unredacted
+ */
+export function evaluateGeneratedText(
+  slug: string,
+  text: string,
+  policy: ContentPolicy = getContentPolicy()
+): TextEvaluation {
+  const rules = policy.rules.filter(rule => targets(rule, slug, 'output'))
+  const matches: PolicyMatch[] = []
+  let redacted = text
+
+  for (const rule of rules) {
+    for (const term of rule.terms) {
+      // Replacing one spelling can uncover another (a fuzzy variant), so keep going until the term is gone
+      for (let round = 0; round < 10; round++) {
+        const matchedText = findTerm(normalize(redacted), term, rule.match)
+        if (matchedText === null) break
+
+        const pattern = wordsPattern(matchedText)
+        const excerpt = (redacted.match(pattern) || [matchedText])[0].replace(/^[^A-Za-z0-9]/, '')
+        matches.push(buildMatch(rule, 'output', 'Generated text', excerpt, term, matchedText))
+
+        if (rule.action !== 'replace') break
+        const replaced = redacted.replace(pattern, (_, before) => before + rule.replacement)
+        if (replaced === redacted) break
+        redacted = replaced
+      }
+    }
+  }
+
+  // Check the redacted text again - accents and lookalikes can slip past the redaction
+  const remaining = normalize(redacted)
+  const unredacted = matches.filter(match => {
+    if (match.action !== 'replace') return false
+    const rule = rules.find(candidate => candidate.id === match.ruleId)!
+    return findTerm(remaining, match.term, rule.match) !== null
+  })
+
+  return {
+    policyVersion: policy.version,
+    text: redacted,
+    matches,
+    unredacted,
+    rejected: unredacted.length > 0 || matches.some(match => match.action === 'reject'),
+    flagged: matches.some(match => match.action === 'flag')
+  }
+}
+
+let activePolicy: ContentPolicy | null = null
+
+/**
+ * Get the active policy (data/content-policy.json unless overridden)
+ */
+export function getContentPolicy(): ContentPolicy {
+  if (!activePolicy) {
+    activePolicy = parseContentPolicy(policyConfig)
+  }
+
+  return activePolicy
+}
+
+/**
+ * Override the policy (tests, staged rule changes) - pass null to reload the rules file
+ */
+export function setContentPolicy(policy: ContentPolicy | null): void {
+  activePolicy = policy ? parseContentPolicy(policy) : null
+}
@@ -0,0 +1,379 @@
+/**
+ * Document Model - The typed structure between the LLM and the PDF renderer
+ * The model is asked for this shape through a JSON schema (structured outputs), the
+ * response is validated here, and the renderer lays out blocks by type instead of
+ * guessing structure from line patterns
+ */
+
+export interface DocumentEntry {
+  label: string
+  value: string
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph'
+  text: string
+}
+
+export interface BulletListBlock {
+  type: 'bullets'
+  items: string[]
+}
+
+export interface TableBlock {
+  type: 'table'
+  columns: string[]
+  rows: string[][]
+}
+
+export interface KeyValueBlock {
+  type: 'keyValue'
+  entries: DocumentEntry[]
+}
+
+export interface SignatureBlock {
+  type: 'signature'
+  name: string
+  role?: string
+  date?: string
+}
+
+export type DocumentBlock = ParagraphBlock | BulletListBlock | TableBlock | KeyValueBlock | SignatureBlock
+
+export interface DocumentSection {
+  heading: string
+  blocks: DocumentBlock[]
+}
+
+export interface StructuredDocument {
+  title: string
+  // Reference numbers, dates and similar shown under the title
+  metadata: DocumentEntry[]
+  sections: DocumentSection[]
+}
+
+// Where a piece of text sits in the document - section headings and list items carry no markdown markers
+export type DocumentTextRole = 'title' | 'heading' | 'item' | 'text'
+
+export interface DocumentValidationResult {
+  valid: boolean
+  document?: StructuredDocument
+  errors: string[]
+}
+
+// Limits keep a runaway response from producing a 40-page PDF
+const LIMITS = {
+  title: 120,
+  text: 2000,
+  label: 80,
+  metadata: 12,
+  sections: 20,
+  blocks: 30,
+  items: 40,
+  columns: 6,
+  rows: 40
+}
+
+// Documents shorter than this (as text) are treated as failed generations
+export const MIN_DOCUMENT_LENGTH = 300
+
+const nullableString = { type: ['string', 'null'] }
+const entrySchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['label', 'value'],
+  properties: { label: { type: 'string' }, value: { type: 'string' } }
+}
+
+/**
+ * JSON schema for structured outputs - strict mode, so every property is required
+ * and optional values are nullable
+ */
+export const DOCUMENT_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'metadata', 'sections'],
+  properties: {
+    title: { type: 'string' },
+    metadata: { type: 'array', items: entrySchema },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['heading', 'blocks'],
+        properties: {
+          heading: { type: 'string' },
+          blocks: {
+            type: 'array',
+            items: {
+              anyOf: [
+                {
+                  type: 'object',
+                  additionalProperties: false,
+                  required: ['type', 'text'],
+                  properties: { type: { type: 'string', enum: ['paragraph'] }, text: { type: 'string' } }
+                },
+                {
+                  type: 'object',
+                  additionalProperties: false,
+                  required: ['type', 'items'],
+                  properties: { type: { type: 'string', enum: ['bullets'] }, items: { type: 'array', items: { type: 'string' } } }
+                },
+                {
+                  type: 'object',
+                  additionalProperties: false,
+                  required: ['type', 'columns', 'rows'],
+                  properties: {
+                    type: { type: 'string', enum: ['table'] },
+                    columns: { type: 'array', items: { type: 'string' } },
+                    rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+                  }
+                },
+                {
+                  type: 'object',
+                  additionalProperties: false,
+                  required: ['type', 'entries'],
+                  properties: { type: { type: 'string', enum: ['keyValue'] }, entries: { type: 'array', items: entrySchema } }
+                },
+                {
+                  type: 'object',
+                  additionalProperties: false,
+                  required: ['type', 'name', 'role', 'date'],
+                  properties: { type: { type: 'string', enum: ['signature'] }, name: { type: 'string' }, role: nullableString, date: nullableString }
+                }
+              ]
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+export const DOCUMENT_SCHEMA_NAME = 'structured_document'
+
+/**
+ * Appended to every prompt so models without schema support still know the shape
+ */
+export const DOCUMENT_FORMAT_INSTRUCTIONS = `Respond with a single JSON object, no prose around it, in this shape:
+- "title": the document title
+- "metadata": [{ "label", "value" }] for reference numbers, dates and similar shown under the title
+- "sections": [{ "heading", "blocks" }] where each block is one of
+  { "type": "paragraph", "text" },
+  { "type": "bullets", "items": [string] },
+  { "type": "table", "columns": [string], "rows": [[string]] } (every row has one cell per column),
+  { "type": "keyValue", "entries": [{ "label", "value" }] },
+  { "type": "signature", "name", "role" (or null), "date" (or null) }
+Use plain text in every string - no markdown.`
+
+type Check = (condition: boolean, message: string) => boolean
+
+function checkString(value: unknown, path: string, max: number, check: Check, allowEmpty: boolean = false): value is string {
+  if (!check(typeof value === 'string', `${path} must be a string`)) return false
+  const text = (value as string).trim()
+  return check(allowEmpty || text.length > 0, `${path} must not be empty`) &&
+    check(text.length <= max, `${path} is longer than ${max} characters`)
+}
+
+function checkArray(value: unknown, path: string, max: number, check: Check, min: number = 1): value is unknown[] {
+  if (!check(Array.isArray(value), `${path} must be an array`)) return false
+  const length = (value as unknown[]).length
+  return check(length >= min, `${path} must have at least ${min} entr${min === 1 ? 'y' : 'ies'}`) &&
+    check(length <= max, `${path} has more than ${max} entries`)
+}
+
+function readEntries(value: unknown, path: string, max: number, check: Check, min: number = 1): DocumentEntry[] {
+  if (!checkArray(value, path, max, check, min)) return []
+  return value.map((entry: any, index) => {
+    const entryPath = `${path}[${index}]`
+    if (!check(Boolean(entry) && typeof entry === 'object', `${entryPath} must be an object`)) return { label: '', value: '' }
+    checkString(entry.label, `${entryPath}.label`, LIMITS.label, check)
+    checkString(entry.value, `${entryPath}.value`, LIMITS.text, check, true)
+    return { label: String(entry.label || '').trim(), value: String(entry.value || '').trim() }
+  })
+}
+
+function readBlock(block: any, path: string, check: Check): DocumentBlock | null {
+  if (!check(Boolean(block) && typeof block === 'object', `${path} must be an object`)) return null
+
+  switch (block.type) {
+    case 'paragraph':
+      return checkString(block.text, `${path}.text`, LIMITS.text, check)
+        ? { type: 'paragraph', text: block.text.trim() }
+        : null
+
+    case 'bullets': {
+      if (!checkArray(block.items, `${path}.items`, LIMITS.items, check)) return null
+      const items = block.items as unknown[]
+      const valid = items.every((item, index) => checkString(item, `${path}.items[${index}]`, LIMITS.text, check))
+      return valid ? { type: 'bullets', items: items.map(item => String(item).trim()) } : null
+    }
+
+    case 'table': {
+      if (!checkArray(block.columns, `${path}.columns`, LIMITS.columns, check)) return null
+      if (!checkArray(block.rows, `${path}.rows`, LIMITS.rows, check)) return null
+      const columns = (block.columns as unknown[]).map((column, index) => {
+        checkString(column, `${path}.columns[${index}]`, LIMITS.label, check)
+        return String(column).trim()
+      })
+      const rows = (block.rows as unknown[]).map((row, rowIndex) => {
+        const rowPath = `${path}.rows[${rowIndex}]`
+        if (!check(Array.isArray(row), `${rowPath} must be an array`)) return []
+        const cells = row as unknown[]
+        check(cells.length === columns.length, `${rowPath} has ${cells.length} cells, expected ${columns.length}`)
+        return cells.map((cell, cellIndex) => {
+          checkString(cell, `${rowPath}[${cellIndex}]`, LIMITS.text, check, true)
+          return String(cell).trim()
+        })
+      })
+      return { type: 'table', columns, rows }
+    }
+
+    case 'keyValue':
+      return { type: 'keyValue', entries: readEntries(block.entries, `${path}.entries`, LIMITS.items, check) }
+
+    case 'signature': {
+      if (!checkString(block.name, `${path}.name`, LIMITS.label, check)) return null
+      const optional = (value: unknown, field: string) => {
+        if (value === null || value === undefined || value === '') return undefined
+        return checkString(value, `${path}.${field}`, LIMITS.label, check) ? (value as string).trim() : undefined
+      }
+      return { type: 'signature', name: block.name.trim(), role: optional(block.role, 'role'), date: optional(block.date, 'date') }
+    }
+
+    default:
+      check(false, `${path}.type "${block.type}" is not a known block type`)
+      return null
+  }
+}
+
+/**
+ * Validate a parsed response - returns a normalised document (trimmed strings,
+ * null optionals removed) or every problem found
+ */
+export function validateDocument(value: unknown): DocumentValidationResult {
+  const errors: string[] = []
+  const check: Check = (condition, message) => {
+    if (!condition) errors.push(message)
+    return condition
+  }
+
+  if (!check(Boolean(value) && typeof value === 'object' && !Array.isArray(value), 'Document must be a JSON object')) {
+    return { valid: false, errors }
+  }
+
+  const raw = value as Record<string, unknown>
+  checkString(raw.title, 'title', LIMITS.title, check)
+  const metadata = readEntries(raw.metadata, 'metadata', LIMITS.metadata, check, 0)
+
+  const sections: DocumentSection[] = []
+  if (checkArray(raw.sections, 'sections', LIMITS.sections, check)) {
+    (raw.sections as any[]).forEach((section, sectionIndex) => {
+      const path = `sections[${sectionIndex}]`
+      if (!check(Boolean(section) && typeof section === 'object', `${path} must be an object`)) return
+      checkString(section.heading, `${path}.heading`, LIMITS.label, check)
+      const blocks: DocumentBlock[] = []
+      if (checkArray(section.blocks, `${path}.blocks`, LIMITS.blocks, check)) {
+        (section.blocks as unknown[]).forEach((block, blockIndex) => {
+          const parsed = readBlock(block, `${path}.blocks[${blockIndex}]`, check)
+          if (parsed) blocks.push(parsed)
+        })
+      }
+      sections.push({ heading: String(section.heading || '').trim(), blocks })
+    })
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  const document: StructuredDocument = { title: String(raw.title).trim(), metadata, sections }
+  const length = documentToText(document).length
+  if (length < MIN_DOCUMENT_LENGTH) {
+    return { valid: false, errors: [`Document too short (${length} characters, minimum ${MIN_DOCUMENT_LENGTH})`] }
+  }
+
+  return { valid: true, document, errors: [] }
+}
+
+/**
+ * Parse and validate a raw model response
+ */
+export function parseDocument(raw: string): DocumentValidationResult {
+  // Some models still wrap JSON in a code fence
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+  try {
+    return validateDocument(JSON.parse(json))
+  } catch (error) {
+    return { valid: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] }
+  }
+}
+
+/**
+ * Apply a transform to every piece of text in a document (moderation, cleanup)
+ */
+export function mapDocumentText(document: StructuredDocument, transform: (text: string, role: DocumentTextRole) => string): StructuredDocument {
+  const mapText = (text: string) => transform(text, 'text')
+  const mapEntries = (entries: DocumentEntry[]) => entries.map(entry => ({ label: mapText(entry.label), value: mapText(entry.value) }))
+
+  const mapBlock = (block: DocumentBlock): DocumentBlock => {
+    switch (block.type) {
+      case 'paragraph':
+        return { ...block, text: mapText(block.text) }
+      case 'bullets':
+        return { ...block, items: block.items.map(item => transform(item, 'item')) }
+      case 'table':
+        return { ...block, columns: block.columns.map(mapText), rows: block.rows.map(row => row.map(mapText)) }
+      case 'keyValue':
+        return { ...block, entries: mapEntries(block.entries) }
+      case 'signature':
+        return {
+          ...block,
+          name: mapText(block.name),
+          role: block.role !== undefined ? mapText(block.role) : undefined,
+          date: block.date !== undefined ? mapText(block.date) : undefined
+        }
+    }
+  }
+
+  return {
+    title: transform(document.title, 'title'),
+    metadata: mapEntries(document.metadata),
+    sections: document.sections.map(section => ({ heading: transform(section.heading, 'heading'), blocks: section.blocks.map(mapBlock) }))
+  }
+}
+
+/**
+ * Plain-text rendering of a document - for moderation, field extraction and logs
+ */
+export function documentToText(document: StructuredDocument): string {
+  const lines: string[] = [document.title]
+  document.metadata.forEach(entry => lines.push(`${entry.label}: ${entry.value}`))
+
+  for (const section of document.sections) {
+    lines.push('', section.heading.toUpperCase())
+    for (const block of section.blocks) {
+      switch (block.type) {
+        case 'paragraph':
+          lines.push(block.text)
+          break
+        case 'bullets':
+          block.items.forEach(item => lines.push(`• ${item}`))
+          break
+        case 'table':
+          lines.push(block.columns.join(' | '))
+          block.rows.forEach(row => lines.push(row.join(' | ')))
+          break
+        case 'keyValue':
+          block.entries.forEach(entry => lines.push(`${entry.label}: ${entry.value}`))
+          break
+        case 'signature':
+          lines.push(['Signed:', block.name, block.role, block.date].filter(Boolean).join(' '))
+          break
+      }
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,122 @@
+/**
+ * Document Provenance - What every PDF records about where it came from
+ * The renderer stamps this into the document properties and XMP metadata so any
+ * copy can be traced back to us and identified as a novelty document
+ */
+
+import crypto from 'crypto'
+import { generateProvenanceCode } from '@/lib/provenanceStore'
+import { getService } from '@/lib/services'
+
+export const GENERATOR_NAME = 'Internet Streets'
+export const GENERATOR_URL = 'https://internetstreets.uk'
+export const NOVELTY_STATUS = 'Novelty document - not a real document'
+
+// XMP namespace for our provenance record
+export const PROVENANCE_NAMESPACE = 'https://internetstreets.uk/ns/provenance/1.0/'
+export const VERIFY_URL = 'internetstreets.uk/verify'
+
+// Drawn diagonally across every page of every service - there is deliberately no way to turn it off
+export const WATERMARK_TEXT = 'NOVELTY DOCUMENT - NOT REAL'
+export const FOOTER_DISCLAIMER = 'Internet Streets Entertainment – Not a Real Document.'
+
+export interface DocumentProvenance {
+  // Public reference derived from the session - never the session ID itself
+  reference: string
+  // Public verification code - absent for documents rendered outside the worker
+  code?: string
+  serviceSlug: string
+  version: number
+  generatedAt: number
+}
+
+/**
+ * Derive a document reference from a session - stable across versions, and
+ * doesn't reveal the Stripe session ID it came from
+ */
+export function createDocumentReference(sessionId: string): string {
+  const digest = crypto.createHash('sha256').update(sessionId).digest('hex')
+  return `IS-${digest.slice(0, 12).toUpperCase()}`
+}
+
+/**
+ * Provenance for a generated document version
+ */
+export function buildProvenance(sessionId: string, serviceSlug: string, version: number = 1): DocumentProvenance {
+  return {
+    reference: createDocumentReference(sessionId),
+    code: generateProvenanceCode(),
+    serviceSlug,
+    version,
+    generatedAt: Date.now()
+  }
+}
+
+export interface DocumentProperties {
+  title: string
+  subject: string
+  author: string
+  keywords: string
+  creator: string
+}
+
+/**
+ * Document info dictionary entries - the same for every renderer
+ */
+export function buildDocumentProperties(provenance: DocumentProvenance): DocumentProperties {
+  const serviceName = getService(provenance.serviceSlug)?.name || provenance.serviceSlug
+
+  return {
+    title: `${serviceName} (Novelty Document)`,
+    subject: `${NOVELTY_STATUS}. Reference ${provenance.reference}`,
+    author: GENERATOR_NAME,
+    keywords: ['novelty', 'not a real document', GENERATOR_URL, provenance.reference, provenance.code].filter(Boolean).join(', '),
+    creator: `${GENERATOR_NAME} (${GENERATOR_URL})`
+  }
+}
+
+/**
+ * Escape a value for the XMP packet
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Provenance record carried in the XMP metadata - escaped JSON, the same for every renderer
+ */
+export function buildProvenanceRecord(provenance: DocumentProvenance): string {
+  return escapeXml(JSON.stringify({
+    generator: GENERATOR_NAME,
+    url: GENERATOR_URL,
+    status: NOVELTY_STATUS,
+    novelty: true,
+    reference: provenance.reference,
+    provenanceCode: provenance.code,
+    verifyAt: `https://${VERIFY_URL}`,
+    version: provenance.version,
+    service: provenance.serviceSlug,
+    generatedAt: new Date(provenance.generatedAt).toISOString()
+  }))
+}
+
+/**
+ * Complete XMP packet, laid out exactly as jsPDF's addMetadata writes it, for
+ * renderers that have to add the metadata stream themselves
+ */
+export function buildXmpPacket(provenance: DocumentProvenance): string {
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description rdf:about="" xmlns:jspdf="${PROVENANCE_NAMESPACE}">`,
+    `<jspdf:metadata>${buildProvenanceRecord(provenance)}</jspdf:metadata>`,
+    '</rdf:Description></rdf:RDF>',
+    '</x:xmpmeta>'
+  ].join('')
+}
+
+/**
+ * Placeholder provenance for documents rendered outside the worker
+ */
+export function unreferencedProvenance(serviceSlug: string): DocumentProvenance {
+  return { reference: 'UNREFERENCED', serviceSlug, version: 1, generatedAt: Date.now() }
+}
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getRendererEngine } from '@/lib/documentRenderer'
+
+describe('getRendererEngine', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses jsPDF for html services until the HTML renderer is enabled', () => {
+    vi.stubEnv('PDF_RENDERER', '')
+    vi.stubEnv('HTML_RENDERER_ENABLED', '')
+
+    expect(getRendererEngine('payslip')).toBe('jspdf')
+    expect(getRendererEngine('college-degree')).toBe('jspdf')
+  })
+
+  it('honours a service\'s html setting once enabled', () => {
+    vi.stubEnv('PDF_RENDERER', '')
+    vi.stubEnv('HTML_RENDERER_ENABLED', 'true')
+
+    expect(getRendererEngine('payslip')).toBe('html')
+    expect(getRendererEngine('fbi-file')).toBe('jspdf')
+  })
+
+  it('lets PDF_RENDERER override every service', () => {
+    vi.stubEnv('HTML_RENDERER_ENABLED', 'true')
+    vi.stubEnv('PDF_RENDERER', 'jspdf')
+    expect(getRendererEngine('payslip')).toBe('jspdf')
+
+    vi.stubEnv('PDF_RENDERER', 'html')
+    expect(getRendererEngine('fbi-file')).toBe('html')
+  })
+})
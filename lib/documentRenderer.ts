@@ -0,0 +1,59 @@
+/**
+ * Document Renderer - Picks the PDF engine for each service
+ * jsPDF draws documents directly and always works; the HTML engine prints React
+ * templates through headless Chrome and falls back to jsPDF if Chrome fails
+ */
+
+import { GeneratedBrand } from '@/lib/brand'
+import { DocumentProvenance, unreferencedProvenance } from '@/lib/documentProvenance'
+import { SanitizedInputs } from '@/lib/inputScreening'
+import { GeneratedDocument, renderServiceToPdf } from '@/lib/pdfGenerator'
+import { renderServiceToHtmlPdf } from '@/lib/htmlRenderer'
+import { getService, RendererEngine } from '@/lib/services'
+import { UploadedImage } from '@/lib/uploadStore'
+
+/**
+ * Engine for a service - PDF_RENDERER overrides the per-service setting. A service's
+ * "html" setting is only honoured with HTML_RENDERER_ENABLED=true: until Chrome is known
+ * to start in the deployed runtime, each failed launch would spend up to the render
+ * timeout of the job's time before falling back to jsPDF
+ */
+export function getRendererEngine(slug: string): RendererEngine {
+  const override = process.env.PDF_RENDERER as RendererEngine | undefined
+  if (override === 'jspdf' || override === 'html') {
+    return override
+  }
+
+  const engine = getService(slug)?.renderer || 'jspdf'
+  return engine === 'html' && process.env.HTML_RENDERER_ENABLED !== 'true' ? 'jspdf' : engine
+}
+
+/**
+ * Render a document with its service's engine
+ */
+export async function renderDocumentPdf(
+  slug: string,
+  document: GeneratedDocument,
+  brand?: GeneratedBrand,
+  sanitizedInputs?: SanitizedInputs,
+  images: UploadedImage[] = [],
+  provenance?: DocumentProvenance,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const engine = getRendererEngine(slug)
+  console.log(`🖨️ Rendering ${slug} with the ${engine} engine`)
+
+  if (engine === 'html') {
+    try {
+      const pdfBuffer = await renderServiceToHtmlPdf(slug, document, brand, images, provenance || unreferencedProvenance(slug), signal)
+      console.log(`✅ HTML PDF generation completed! Size: ${pdfBuffer.length} bytes`)
+      return pdfBuffer
+    } catch (error) {
+      // A cancelled job must not spend more time on the fallback
+      if (signal?.aborted) throw error
+      console.warn(`⚠️ HTML rendering failed for ${slug}, falling back to jsPDF: ${error}`)
+    }
+  }
+
+  return renderServiceToPdf(slug, document, brand, sanitizedInputs, images, provenance)
+}
@@ -0,0 +1,178 @@
+import jsPDF from 'jspdf'
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { StructuredDocument, validateDocument } from '@/lib/documentModel'
+import {
+  createTemplateEnvironment,
+  DocumentMetadata,
+  DocumentTemplate,
+  stampLines,
+  templateMicrotext,
+  templateReference,
+  templateTitle
+} from '@/lib/documentTemplates'
+import { getFixtureResponse } from '@/lib/fixtures'
+import { getTemplate, listTemplates } from '@/lib/templateRegistry'
+import { cleanDocument } from '@/lib/textClean'
+import DocumentPage from '@/templates/html/DocumentPage'
+
+const GENERATED_AT = Date.UTC(2024, 0, 15, 9, 30)
+
+const METADATA: DocumentMetadata = {
+  name: 'Test Subject',
+  dob: '1990-01-01',
+  city: 'Test City',
+  companyName: 'Test Occupation'
+}
+
+// Drawing calls that make up a template's look, with coordinates rounded to 0.1mm
+const RECORDED = ['text', 'rect', 'roundedRect', 'circle', 'line'] as const
+
+function fixtureContent(template: DocumentTemplate): StructuredDocument {
+  const validation = validateDocument(JSON.parse(getFixtureResponse(template.slug)!))
+  return template.prepare(cleanDocument(validation.document!, template.slug), METADATA)
+}
+
+function recordingDoc(): { doc: jsPDF; calls: string[] } {
+  const doc = new jsPDF()
+  const calls: string[] = []
+  const target = doc as unknown as Record<string, (...args: unknown[]) => unknown>
+
+  RECORDED.forEach(method => {
+    const original = target[method].bind(doc)
+    target[method] = (...args: unknown[]) => {
+      const page = doc.getCurrentPageInfo().pageNumber
+      const shown = args.map(arg => typeof arg === 'number' ? Math.round(arg * 10) / 10 : arg)
+      calls.push(`p${page} ${method} ${JSON.stringify(shown)}`)
+      return original(...args)
+    }
+  })
+
+  return { doc, calls }
+}
+
+/**
+ * Draw a template's header and closing around its fixture, recording every shape and string
+ */
+function renderTemplate(template: DocumentTemplate): string[] {
+  const { doc, calls } = recordingDoc()
+  const environment = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+  const context = {
+    doc,
+    slug: template.slug,
+    content: fixtureContent(template),
+    metadata: METADATA,
+    environment,
+    reference: templateReference(template, environment),
+    pageWidth: doc.internal.pageSize.width,
+    pageHeight: doc.internal.pageSize.height
+  }
+
+  const yPos = template.renderHeader(context, 85)
+  template.renderClosing(context, Math.max(yPos, 200))
+  return calls
+}
+
+function renderTemplateHtml(template: DocumentTemplate): string {
+  const environment = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+  return renderToStaticMarkup(createElement(DocumentPage, {
+    template,
+    content: fixtureContent(template),
+    metadata: METADATA,
+    environment,
+    reference: templateReference(template, environment)
+  }))
+}
+
+describe('template environment', () => {
+  it('repeats the same random sequence for the same seed', () => {
+    const first = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+    const second = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+    const draws = [first.random(), first.random(), first.random()]
+
+    expect([second.random(), second.random(), second.random()]).toEqual(draws)
+    draws.forEach(draw => {
+      expect(draw).toBeGreaterThanOrEqual(0)
+      expect(draw).toBeLessThan(1)
+    })
+  })
+
+  it('gives different documents different sequences', () => {
+    expect(createTemplateEnvironment('IS-000000000001', GENERATED_AT).random())
+      .not.toBe(createTemplateEnvironment('IS-000000000002', GENERATED_AT).random())
+  })
+
+  it('fills the year from the clock', () => {
+    expect(stampLines(['VERIFIED', '{year}'], createTemplateEnvironment('seed', GENERATED_AT))).toEqual(['VERIFIED', '2024'])
+  })
+})
+
+describe.each(listTemplates())('%s template', slug => {
+  const template = getTemplate(slug)
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  it('is registered under its own slug', () => {
+    expect(template.slug).toBe(slug)
+  })
+
+  it('draws the same header and closing on every render', () => {
+    expect(renderTemplate(template)).toEqual(renderTemplate(template))
+  })
+
+  it('matches the recorded layout', () => {
+    expect(renderTemplate(template)).toMatchSnapshot()
+  })
+
+  it('prints its title, band, seal and reference', () => {
+    const drawn = renderTemplate(template).join('\n')
+    const environment = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+    const reference = templateReference(template, environment)
+
+    templateTitle(template, fixtureContent(template)).split(/\s+/).forEach(word => {
+      expect(drawn).toContain(word.replace('—', ''))
+    })
+    if (template.band) expect(drawn).toContain(template.band.label.toUpperCase())
+    if (template.seal) template.seal.lines.forEach(line => expect(drawn).toContain(line))
+    if (reference) expect(drawn).toContain(reference)
+  })
+
+  it('renders the same elements through the HTML page', () => {
+    const html = renderTemplateHtml(template)
+    const environment = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+    const reference = templateReference(template, environment)
+
+    expect(html).toBe(renderTemplateHtml(template))
+    if (template.band) expect(html).toContain(template.band.label)
+    if (template.seal) template.seal.lines.forEach(line => expect(html).toContain(line))
+    if (template.stamp) expect(html).toContain(template.stamp.text)
+    if (reference) expect(html).toContain(reference)
+    if (template.closing?.verification) {
+      stampLines(template.closing.verification, environment).forEach(line => expect(html).toContain(line))
+    }
+  })
+
+  it('dates its microtext from the clock', () => {
+    const environment = createTemplateEnvironment('IS-0123456789AB', GENERATED_AT)
+    const microtext = templateMicrotext(template, templateReference(template, environment), environment)
+
+    if (template.microtext) {
+      expect(microtext![0]).toContain('Generated 2024-01-15')
+      expect(microtext![1]).toBe(template.microtext)
+    } else {
+      expect(microtext).toBeNull()
+    }
+  })
+})
+
+describe('fbi-file header entries', () => {
+  it('takes the case reference and date from the environment', () => {
+    const entries = getTemplate('fbi-file').headerEntries(METADATA, createTemplateEnvironment('IS-0123456789AB', GENERATED_AT))
+
+    expect(entries.find(entry => entry.label === 'Case Ref')!.value).toMatch(/^24-\d{4}-FBI$/)
+    expect(entries.find(entry => entry.label === 'Date')!.value).toBe('15/01/2024')
+  })
+})
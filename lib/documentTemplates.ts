@@ -0,0 +1,312 @@
+/**
+ * Document Templates - Per-service layout plugins for the PDF renderers
+ * A template owns what makes a service look like itself (header band, seals, title,
+ * accent colour, panels, signature and verification stamps, sections its header
+ * already shows); the renderer owns everything else, including the watermark,
+ * footer and provenance, so no template can leave them out
+ */
+
+import crypto from 'crypto'
+import jsPDF from 'jspdf'
+import { GeneratedBrand } from '@/lib/brand'
+import { DocumentEntry, StructuredDocument } from '@/lib/documentModel'
+import { GENERATOR_NAME } from '@/lib/documentProvenance'
+import {
+  BandOptions,
+  drawBand,
+  drawSeal,
+  drawStamp,
+  drawTitle,
+  drawVerificationStamp,
+  INK,
+  layout,
+  Seal,
+  typography
+} from '@/lib/pdfLayout'
+import { drawFixedBlock, drawKeyValues, drawPanel, FlowStyle } from '@/lib/pdfFlow'
+
+export interface DocumentMetadata {
+  name?: string
+  dob?: string
+  city?: string
+  companyName?: string
+  [key: string]: string | undefined
+}
+
+/**
+ * Clock and random source for everything a template makes up - injected so a render can be repeated exactly
+ */
+export interface TemplateEnvironment {
+  now: Date
+  random(): number
+}
+
+export interface TemplateContext {
+  doc: jsPDF
+  slug: string
+  content: StructuredDocument
+  metadata?: DocumentMetadata
+  brand?: GeneratedBrand
+  environment: TemplateEnvironment
+  // Document ID from templateReference - the same on the header and the microtext
+  reference?: string
+  pageWidth: number
+  pageHeight: number
+}
+
+export interface TemplateBand extends BandOptions {
+  label: string
+  marking?: string
+}
+
+export interface TemplateClosing {
+  // Signature line for documents that don't carry a signature block of their own
+  signature?: string
+  // Boxed verification stamp - {year} is replaced with the year of issue
+  verification?: string[]
+  // Large seal centred under the closing (certificates) - {year} as above
+  seal?: string[]
+  // Empty QR code box in the corner
+  qrCode?: boolean
+}
+
+export interface DocumentTemplate {
+  // Service slug the template is registered under
+  slug: string
+  // Band colour - also headings and rules when the document has no generated brand
+  accent: string
+  // Fixed title - defaults to the document's own
+  title?: string
+  // Smaller line under the title, e.g. the issuing department
+  subtitle?: string
+  // Coloured band across the top of the first page
+  band?: TemplateBand
+  // Seal beside the title - the title is then set left, letterhead style
+  seal?: Seal
+  // Classification-style stamp between the photo and the logo
+  stamp?: { text: string; color: string }
+  // Document ID under the title ("Document ID: FBI-7K2MQX9D"), also used by the microtext
+  reference?: { label: string; prefix: string }
+  // Heading of the shaded panel the header entries are drawn in - plain rows without one
+  panel?: string
+  // Rules under section headings, accent-filled striped tables
+  body?: Omit<FlowStyle, 'heading'>
+  // What follows the content - signature line, verification stamp, seal, QR box
+  closing?: TemplateClosing
+  // System name printed in microtext under the footer, after the document ID
+  microtext?: string
+  // Extra CSS for the HTML renderer
+  styles?: string
+  // Reshape the document before layout - e.g. drop a section the header already shows
+  prepare(content: StructuredDocument, metadata?: DocumentMetadata): StructuredDocument
+  // Label/value pairs shown under the title from trusted inputs (case references, subject details)
+  headerEntries(metadata: DocumentMetadata | undefined, environment: TemplateEnvironment): DocumentEntry[]
+  // Draw the first-page header from yPos, returning where the body starts (jsPDF only)
+  renderHeader(context: TemplateContext, yPos: number): number
+  // Draw the closing after the content, returning where it ends (jsPDF only)
+  renderClosing(context: TemplateContext, yPos: number): number
+}
+
+export interface DocumentColors {
+  heading: string
+  rule: string
+}
+
+export type TemplateOptions = Pick<DocumentTemplate, 'slug' | 'accent'> &
+  Partial<Omit<DocumentTemplate, 'slug' | 'accent'>>
+
+const REFERENCE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+/**
+ * Environment seeded from a document's identity - the same document always gets the
+ * same made-up references, and nothing depends on when or where it is re-rendered
+ */
+export function createTemplateEnvironment(seed: string, now: number): TemplateEnvironment {
+  // mulberry32 - small, fast and plenty for decorative reference numbers
+  let state = crypto.createHash('sha256').update(seed).digest().readUInt32BE(0)
+  return {
+    now: new Date(now),
+    random: () => {
+      state = (state + 0x6d2b79f5) | 0
+      let t = Math.imul(state ^ (state >>> 15), 1 | state)
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+}
+
+/**
+ * Document ID for a template - prefix and eight random characters
+ */
+export function templateReference(template: DocumentTemplate, environment: TemplateEnvironment): string | undefined {
+  if (!template.reference) return undefined
+
+  let id = ''
+  for (let i = 0; i < 8; i++) {
+    id += REFERENCE_ALPHABET.charAt(Math.floor(environment.random() * REFERENCE_ALPHABET.length))
+  }
+  return `${template.reference.prefix}-${id}`
+}
+
+/**
+ * Microtext under the footer - document ID and date on the left, system name on the right
+ */
+export function templateMicrotext(template: DocumentTemplate, reference: string | undefined, environment: TemplateEnvironment): [string, string] | null {
+  if (!template.microtext) return null
+  const issued = `Generated ${environment.now.toISOString().split('T')[0]}`
+  return [reference && template.reference ? `${template.reference.label}: ${reference} • ${issued}` : issued, template.microtext]
+}
+
+/**
+ * Fill {year} in stamp and seal lines
+ */
+export function stampLines(lines: string[], environment: TemplateEnvironment): string[] {
+  return lines.map(line => line.replace('{year}', String(environment.now.getUTCFullYear())))
+}
+
+/**
+ * Document title as the template shows it
+ */
+export function templateTitle(template: DocumentTemplate, content: StructuredDocument): string {
+  return (template.title || content.title || 'Document').toUpperCase()
+}
+
+/**
+ * Heading and rule colours - from the generated brand when there is one, otherwise the accent
+ */
+export function documentColors(template: DocumentTemplate, brand?: GeneratedBrand): DocumentColors {
+  return brand
+    ? { heading: brand.colors.primary, rule: brand.colors.secondary }
+    : { heading: template.accent, rule: template.accent }
+}
+
+/**
+ * Body style for the flow engine
+ */
+export function templateFlowStyle(template: DocumentTemplate, brand?: GeneratedBrand): FlowStyle {
+  return { ...template.body, heading: documentColors(template, brand).heading }
+}
+
+/**
+ * Whether the document signs itself - the closing's signature line is only a fallback
+ */
+function hasSignature(content: StructuredDocument): boolean {
+  return content.sections.some(section => section.blocks.some(block => block.type === 'signature'))
+}
+
+/**
+ * Default first-page header - band, stamp, title (centred, or beside a seal), reference and header entries
+ */
+function renderTemplateHeader(template: DocumentTemplate, context: TemplateContext, yPos: number): number {
+  const { doc, content, metadata, brand, environment, reference, pageWidth, pageHeight } = context
+  const colors = documentColors(template, brand)
+
+  if (template.band) {
+    drawBand(doc, pageWidth, template.accent, template.band.label, template.band.marking, template.band)
+  }
+  if (template.stamp) {
+    drawStamp(doc, template.stamp.text, pageWidth / 2 - 15, layout.marginTop + 20, template.stamp.color)
+  }
+
+  const title = templateTitle(template, content)
+  const lines: string[] = []
+  if (template.subtitle) lines.push(template.subtitle)
+  if (reference && template.reference) lines.push(`${template.reference.label}: ${reference} • Generated by ${GENERATOR_NAME}`)
+
+  if (template.seal) {
+    // Letterhead - title and reference set left, the seal level with them on the right
+    const sealSize = 24
+    const sealBottom = yPos + 4 + sealSize / 2
+    drawSeal(doc, template.seal, pageWidth - layout.marginSides - sealSize / 2, yPos + 4, sealSize, colors.heading)
+    yPos = drawTitle(doc, title, pageWidth, yPos, colors.heading, 'left', pageWidth - layout.marginSides * 2 - sealSize - 5)
+    yPos = Math.max(drawSubtitles(doc, lines, yPos, layout.marginSides, 'left') + 20, sealBottom + 8)
+  } else {
+    yPos = drawTitle(doc, title, pageWidth, yPos, colors.heading)
+    yPos = drawSubtitles(doc, lines, yPos, pageWidth / 2, 'center') + 20
+  }
+
+  const entries = template.headerEntries(metadata, environment).filter(entry => entry.value)
+  if (entries.length > 0) {
+    yPos = template.panel
+      ? drawPanel(doc, template.panel, entries, yPos - 8, pageWidth, pageHeight, colors.heading) + layout.sectionSpacing + 5
+      : drawKeyValues(doc, entries, yPos - 5, pageWidth, pageHeight) + layout.sectionSpacing
+  }
+  return yPos
+}
+
+/**
+ * Small grey lines under the title, returning the last baseline
+ */
+function drawSubtitles(doc: jsPDF, lines: string[], yPos: number, x: number, align: 'left' | 'center'): number {
+  doc.setFont('Helvetica', 'normal')
+  doc.setFontSize(typography.footer.size)
+  doc.setTextColor(102)
+  lines.forEach(line => {
+    yPos += 5
+    doc.text(line, x, yPos, { align })
+  })
+  doc.setTextColor(INK)
+  doc.setFontSize(typography.body.size)
+  return yPos
+}
+
+/**
+ * Default closing - fallback signature on the left, seal in the middle, verification stamp on the right.
+ * The QR box sits in the bottom corner of the last page, under the body and clear of the footer
+ */
+function renderTemplateClosing(template: DocumentTemplate, context: TemplateContext, yPos: number): number {
+  const closing = template.closing
+  if (!closing) return yPos
+
+  const { doc, content, brand, environment, pageWidth, pageHeight } = context
+  const color = documentColors(template, brand).heading
+
+  if (closing.qrCode) {
+    const size = 18
+    const x = pageWidth - layout.marginSides - size
+    const y = pageHeight - layout.marginBottom - layout.footerPadding + 1
+    doc.setDrawColor(204)
+    doc.rect(x, y, size, size)
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(6)
+    doc.setTextColor(153)
+    doc.text('QR CODE', x + size / 2, y + size / 2 + 1, { align: 'center' })
+    doc.setTextColor(INK)
+  }
+
+  const signature = closing.signature && !hasSignature(content) ? closing.signature : undefined
+  if (!signature && !closing.verification && !closing.seal) return yPos
+
+  return drawFixedBlock(doc, closing.seal ? 34 : 26, y => {
+    if (signature) {
+      doc.setDrawColor(120)
+      doc.line(layout.marginSides, y + 14, layout.marginSides + layout.signatureWidth, y + 14)
+      doc.setFont('Helvetica', 'normal')
+      doc.setFontSize(typography.footer.size)
+      doc.setTextColor(102)
+      doc.text(signature, layout.marginSides, y + 19)
+      doc.setTextColor(INK)
+    }
+    if (closing.seal) {
+      drawSeal(doc, { shape: 'circle', lines: stampLines(closing.seal, environment), fill: '#f0f0f0' }, pageWidth / 2, y + 16, 30, color)
+    }
+    if (closing.verification) {
+      drawVerificationStamp(doc, stampLines(closing.verification, environment), pageWidth - layout.marginSides - 35, y + 2, color)
+    }
+  }, yPos, pageHeight)
+}
+
+/**
+ * Build a template - options cover the common header and closing, renderHeader/renderClosing replace them entirely
+ */
+export function createTemplate(options: TemplateOptions): DocumentTemplate {
+  const template: DocumentTemplate = {
+    ...options,
+    prepare: options.prepare || (content => content),
+    headerEntries: options.headerEntries || (() => []),
+    renderHeader: options.renderHeader || ((context, yPos) => renderTemplateHeader(template, context, yPos)),
+    renderClosing: options.renderClosing || ((context, yPos) => renderTemplateClosing(template, context, yPos))
+  }
+
+  return template
+}
@@ -0,0 +1,135 @@
+/**
+ * Download Tokens - Signed, short-lived access to generated documents
+ *
+ * Checkout issues a random access key (only its hash is stored); the result page
+ * exchanges it for an HMAC-signed token that the download endpoint verifies.
+ * Upload tokens are signed the same way and scope image uploads to one form session
+ */
+
+import crypto from 'crypto'
+
+// Token lifetime and per-session download allowance (overridable via env)
+export const DOWNLOAD_TOKEN_TTL_SECONDS = parseInt(process.env.DOWNLOAD_TOKEN_TTL_SECONDS || '900', 10)
+export const MAX_DOWNLOADS = parseInt(process.env.MAX_DOWNLOADS || '10', 10)
+
+export interface TokenVerification {
+  valid: boolean
+  error?: string
+  expiresAt?: number
+}
+
+export interface UploadTokenVerification extends TokenVerification {
+  uploadSessionId?: string
+}
+
+function getSecret(): string {
+  const secret = process.env.DOWNLOAD_TOKEN_SECRET
+  if (!secret) {
+    throw new Error('DOWNLOAD_TOKEN_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url')
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB)
+}
+
+/**
+ * Random access key handed to the customer in the checkout success URL
+ */
+export function createAccessKey(): string {
+  return crypto.randomBytes(24).toString('base64url')
+}
+
+/**
+ * Hash stored alongside the generation - the plain key is never persisted
+ */
+export function hashAccessKey(accessKey: string): string {
+  return crypto.createHash('sha256').update(accessKey).digest('hex')
+}
+
+/**
+ * Check a presented access key against the stored hash
+ */
+export function verifyAccessKey(accessKey: string, accessKeyHash?: string): boolean {
+  if (!accessKey || !accessKeyHash) return false
+  return safeEqual(hashAccessKey(accessKey), accessKeyHash)
+}
+
+/**
+ * Issue a signed download token for a session: <expiry>.<signature>
+ */
+export function issueDownloadToken(
+  sessionId: string,
+  ttlSeconds: number = DOWNLOAD_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: number } {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds
+  const signature = sign(`${sessionId}.${expiresAt}`)
+  return { token: `${expiresAt}.${signature}`, expiresAt }
+}
+
+/**
+ * Verify a download token for a session
+ */
+export function verifyDownloadToken(token: string | null, sessionId: string): TokenVerification {
+  if (!token) {
+    return { valid: false, error: 'Download token required' }
+  }
+
+  const [expiryPart, signature] = token.split('.')
+  const expiresAt = parseInt(expiryPart, 10)
+  if (!signature || Number.isNaN(expiresAt)) {
+    return { valid: false, error: 'Malformed download token' }
+  }
+
+  if (!safeEqual(sign(`${sessionId}.${expiresAt}`), signature)) {
+    return { valid: false, error: 'Invalid download token' }
+  }
+
+  if (expiresAt < Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: 'Download token expired', expiresAt }
+  }
+
+  return { valid: true, expiresAt }
+}
+
+/**
+ * Issue a signed upload token for a new upload session: <uploadSessionId>.<expiry>.<signature>
+ */
+export function issueUploadToken(ttlSeconds: number): { token: string; uploadSessionId: string; expiresAt: number } {
+  const uploadSessionId = crypto.randomBytes(12).toString('hex')
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds
+  const signature = sign(`upload.${uploadSessionId}.${expiresAt}`)
+  return { token: `${uploadSessionId}.${expiresAt}.${signature}`, uploadSessionId, expiresAt }
+}
+
+/**
+ * Verify an upload token - returns the upload session it was issued for
+ */
+export function verifyUploadToken(token: string | null): UploadTokenVerification {
+  if (!token) {
+    return { valid: false, error: 'Upload token required' }
+  }
+
+  const [uploadSessionId, expiryPart, signature] = token.split('.')
+  const expiresAt = parseInt(expiryPart, 10)
+  if (!uploadSessionId || !signature || Number.isNaN(expiresAt)) {
+    return { valid: false, error: 'Malformed upload token' }
+  }
+
+  if (!safeEqual(sign(`upload.${uploadSessionId}.${expiresAt}`), signature)) {
+    return { valid: false, error: 'Invalid upload token' }
+  }
+
+  if (expiresAt < Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: 'Upload token expired', expiresAt }
+  }
+
+  return { valid: true, uploadSessionId, expiresAt }
+}
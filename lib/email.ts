@@ -0,0 +1,188 @@
+/**
+ * Email Delivery - Receipts, download links and failure notices
+ * Pluggable transport: SMTP in production, a local maildir for development and tests
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import nodemailer from 'nodemailer'
+import { GenerationRecord } from '@/lib/generationStore'
+import { issueDownloadToken } from '@/lib/downloadTokens'
+import { getRefundState } from '@/lib/refunds'
+import { getService } from '@/lib/services'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+// Emailed links outlive the result page token - customers open them later
+const EMAIL_LINK_TTL_SECONDS = parseInt(process.env.EMAIL_LINK_TTL_SECONDS || String(7 * 24 * 60 * 60), 10)
+
+const FROM_ADDRESS = process.env.EMAIL_FROM || 'Internet Streets <no-reply@internetstreets.uk>'
+
+/**
+ * SMTP transport (any provider - SES, Postmark, Mailgun...)
+ */
+export function createSmtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: FROM_ADDRESS, ...message })
+    }
+  }
+}
+
+/**
+ * Maildir-style file transport - each message lands in <dir>/new as an .eml file
+ */
+export function createFileTransport(baseDir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const newDir = path.join(baseDir, 'new')
+      fs.mkdirSync(newDir, { recursive: true })
+
+      // Header values must stay on one line
+      const header = (value: string) => value.replace(/[\r\n]+/g, ' ')
+      const headers = [
+        `From: ${header(FROM_ADDRESS)}`,
+        `To: ${header(message.to)}`,
+        `Subject: ${header(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8'
+      ]
+      const fileName = `${Date.now()}.${crypto.randomBytes(4).toString('hex')}.eml`
+      fs.writeFileSync(path.join(newDir, fileName), `${headers.join('\r\n')}\r\n\r\n${message.text}`)
+    }
+  }
+}
+
+let transport: EmailTransport | null = null
+
+/**
+ * Get the configured transport (EMAIL_TRANSPORT=smtp|file, defaults to smtp when SMTP_HOST is set)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    const mode = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file')
+    transport = mode === 'smtp'
+      ? createSmtpTransport()
+      : createFileTransport(process.env.EMAIL_MAILDIR || path.join(process.cwd(), '.data', 'mail'))
+  }
+
+  return transport
+}
+
+/**
+ * Override the transport (tests, alternative providers)
+ */
+export function setEmailTransport(emailTransport: EmailTransport | null): void {
+  transport = emailTransport
+}
+
+function formatPrice(amount?: number, currency?: string): string | null {
+  if (amount === undefined) return null
+  const symbol = !currency || currency.toLowerCase() === 'gbp' ? '£' : `${currency.toUpperCase()} `
+  return `${symbol}${(amount / 100).toFixed(2)}`
+}
+
+/**
+ * Receipt plus secure download link for a ready document
+ */
+export function buildDocumentReadyEmail(record: GenerationRecord, to: string): EmailMessage {
+  const serviceName = getService(record.serviceSlug)?.name || record.serviceSlug
+  const { token } = issueDownloadToken(record.sessionId, EMAIL_LINK_TTL_SECONDS)
+  const downloadUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/api/documents/${record.sessionId}?token=${encodeURIComponent(token)}`
+  const price = formatPrice(record.amountTotal, record.currency)
+  const linkDays = Math.round(EMAIL_LINK_TTL_SECONDS / 86400)
+
+  const text = [
+    'Thanks for your order - your document is ready.',
+    '',
+    `Service: ${serviceName}`,
+    price ? `Amount paid: ${price}` : null,
+    `Reference ID: ${record.sessionId}`,
+    '',
+    `Download your document (link valid for ${linkDays} days):`,
+    downloadUrl,
+    '',
+    'This document is novelty content for entertainment purposes only. It is not a real, official or legally binding document.',
+    '',
+    'Internet Streets'
+  ].filter(line => line !== null).join('\n')
+
+  return { to, subject: `Your ${serviceName} is ready`, text }
+}
+
+/**
+ * What happens to the customer's payment - matches the result page for the same refund state
+ */
+function refundMessage(record: GenerationRecord): string {
+  switch (getRefundState(record)) {
+    case 'refunded':
+      return `A full refund${record.amountTotal !== undefined ? ` of ${formatPrice(record.amountTotal, record.currency)}` : ''} has been issued to your original payment method. It usually arrives within 5-10 working days.`
+    case 'failed':
+      return "We couldn't refund your payment automatically - our team will arrange your refund manually."
+    case 'pending':
+      return 'You will not be charged for this failed generation - your refund is being processed.'
+  }
+}
+
+/**
+ * Apology with reference ID for a failed generation
+ */
+export function buildGenerationFailedEmail(record: GenerationRecord, to: string): EmailMessage {
+  const serviceName = getService(record.serviceSlug)?.name || record.serviceSlug
+
+  const text = [
+    `We're sorry - we couldn't generate your ${serviceName}.`,
+    '',
+    `Reference ID: ${record.sessionId}`,
+    '',
+    refundMessage(record),
+    'If you have any questions, reply to this email or contact support with the reference ID above.',
+    '',
+    'Internet Streets'
+  ].join('\n')
+
+  return { to, subject: `We couldn't generate your ${serviceName}`, text }
+}
+
+/**
+ * Send the email matching a generation's final status - never throws
+ */
+export async function sendGenerationEmail(record: GenerationRecord): Promise<boolean> {
+  if (!record.customerEmail) return false
+  if (record.status === 'processing') return false
+
+  try {
+    const message = record.status === 'ready'
+      ? buildDocumentReadyEmail(record, record.customerEmail)
+      : buildGenerationFailedEmail(record, record.customerEmail)
+
+    const emailTransport = getEmailTransport()
+    await emailTransport.send(message)
+    console.log(`[${record.traceId}] 📧 ${record.status} email sent via ${emailTransport.name}`)
+    return true
+  } catch (error) {
+    console.error(`[${record.traceId}] Failed to send ${record.status} email:`, error)
+    return false
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Field Validation - One schema-driven validator for the form, checkout and webhook
+ * Has no server-only imports so ServiceForm can run exactly the same rules in the browser
+ */
+
+import type { CrossFieldRule, ServiceField } from '@/lib/services'
+
+export interface FieldValidationResult {
+  valid: boolean
+  errors: Record<string, string>
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+const ISO_MONTH = /^\d{4}-(0[1-9]|1[0-2])$/
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const CURRENCY_AMOUNT = /^\d+(\.\d{1,2})?$/
+const UPLOAD_ID = /^upl_[a-f0-9]{32}$/
+
+/**
+ * IDs handed out by the upload endpoint for image fields
+ */
+export function isUploadId(value: unknown): value is string {
+  return typeof value === 'string' && UPLOAD_ID.test(value)
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  return String(value).trim()
+}
+
+/**
+ * Resolve a configured date bound - an ISO date or "today"
+ */
+function resolveDate(bound: string, now: Date): string {
+  return bound === 'today' ? now.toISOString().slice(0, 10) : bound
+}
+
+function isValidDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+}
+
+function formatMonth(value: string): string {
+  return new Date(`${value}-01T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+function formatCurrency(amount: number, currency: string = 'GBP'): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount)
+}
+
+/**
+ * Check a single field value - returns the error message, or null when valid
+ */
+export function validateField(field: ServiceField, rawValue: unknown, now: Date = new Date()): string | null {
+  const value = toText(rawValue)
+  const label = field.label || field.name
+
+  if (!value) {
+    return field.required ? `${label} is required` : null
+  }
+
+  if (field.minLength !== undefined && value.length < field.minLength) {
+    return `${label} must be at least ${field.minLength} characters`
+  }
+
+  if (field.maxLength !== undefined && value.length > field.maxLength) {
+    return `${label} must be ${field.maxLength} characters or fewer`
+  }
+
+  if (field.options && field.options.indexOf(value) === -1) {
+    return `Please choose a valid ${label.toLowerCase()}`
+  }
+
+  if (field.type === 'email' && !EMAIL.test(value)) {
+    return `${label} must be a valid email address`
+  }
+
+  if (field.type === 'number' || field.type === 'currency') {
+    const number = Number(value)
+    if (!Number.isFinite(number)) {
+      return `${label} must be a number`
+    }
+    if (field.type === 'currency' && !CURRENCY_AMOUNT.test(value)) {
+      return `${label} must be an amount with up to 2 decimal places`
+    }
+    const describe = (bound: number) => field.type === 'currency' ? formatCurrency(bound, field.currency) : bound
+    if (field.min !== undefined && number < field.min) {
+      return `${label} must be at least ${describe(field.min)}`
+    }
+    if (field.max !== undefined && number > field.max) {
+      return `${label} must be no more than ${describe(field.max)}`
+    }
+  }
+
+  if (field.type === 'month') {
+    if (!ISO_MONTH.test(value)) {
+      return `${label} must be a month and year`
+    }
+    const minMonth = field.minDate ? resolveDate(field.minDate, now).slice(0, 7) : null
+    if (minMonth && value < minMonth) {
+      return `${label} must be ${formatMonth(minMonth)} or later`
+    }
+    const maxMonth = field.maxDate ? resolveDate(field.maxDate, now).slice(0, 7) : null
+    if (maxMonth && value > maxMonth) {
+      return `${label} must be ${formatMonth(maxMonth)} or earlier`
+    }
+  }
+
+  if (field.type === 'image' && !isUploadId(value)) {
+    return `Please upload the ${label.toLowerCase()} again`
+  }
+
+  if (field.type === 'date') {
+    if (!isValidDate(value)) {
+      return `${label} must be a valid date`
+    }
+    const minDate = field.minDate ? resolveDate(field.minDate, now) : null
+    if (minDate && value < minDate) {
+      return `${label} must be on or after ${formatDate(minDate)}`
+    }
+    const maxDate = field.maxDate ? resolveDate(field.maxDate, now) : null
+    if (maxDate && value > maxDate) {
+      return `${label} must be on or before ${formatDate(maxDate)}`
+    }
+  }
+
+  if (field.pattern && !new RegExp(`^(?:${field.pattern})$`).test(value)) {
+    return field.patternMessage || `${label} is not in the expected format`
+  }
+
+  return null
+}
+
+/**
+ * Human-readable form of a submitted value, as it should appear in a prompt or document
+ */
+export function formatFieldValue(field: ServiceField, rawValue: unknown): string {
+  const value = toText(rawValue)
+  if (!value) return ''
+
+  switch (field.type) {
+    case 'currency':
+      return CURRENCY_AMOUNT.test(value) ? formatCurrency(Number(value), field.currency) : value
+    case 'month':
+      return ISO_MONTH.test(value) ? formatMonth(value) : value
+    case 'image':
+      return 'Photo provided'
+    default:
+      return value
+  }
+}
+
+/**
+ * Compare two values as numbers when both are numeric, otherwise as strings (ISO dates sort correctly)
+ */
+function compareValues(a: string, b: string): number {
+  const numberA = Number(a)
+  const numberB = Number(b)
+  if (Number.isFinite(numberA) && Number.isFinite(numberB)) {
+    return numberA - numberB
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function checkRule(rule: CrossFieldRule, inputs: Record<string, any>): boolean {
+  const value = toText(inputs[rule.field])
+  const other = toText(inputs[rule.otherField])
+
+  // Missing values are reported by the field checks
+  if (!value || !other) return true
+
+  switch (rule.compare) {
+    case 'after':
+      return compareValues(value, other) > 0
+    case 'before':
+      return compareValues(value, other) < 0
+    case 'notEqual':
+      return value.toLowerCase() !== other.toLowerCase()
+    default:
+      return true
+  }
+}
+
+/**
+ * Validate inputs against a field schema and cross-field rules
+ */
+export function validateFields(
+  fields: ServiceField[],
+  inputs: Record<string, any>,
+  rules: CrossFieldRule[] = [],
+  now: Date = new Date()
+): FieldValidationResult {
+  const errors: Record<string, string> = {}
+
+  for (const field of fields) {
+    const error = validateField(field, inputs[field.name], now)
+    if (error) {
+      errors[field.name] = error
+    }
+  }
+
+  for (const rule of rules) {
+    // One message per field - the field's own error is more specific
+    if (errors[rule.field] || errors[rule.otherField]) continue
+    if (!checkRule(rule, inputs)) {
+      errors[rule.field] = rule.message
+    }
+  }
+
+  return { valid: Object.keys(errors).length === 0, errors }
+}
@@ -0,0 +1,64 @@
+/**
+ * Fixture Registry - Recorded LLM outputs per service
+ * Backs test mode and offline rendering so every service layout is exercised
+ *
+ * Layout: fixtures/<slug>/default.json, plus optional fixtures/<slug>/<inputHash>.json
+ * for input-specific recordings. Each file is a structured document as the model
+ * returns it (see documentModel)
+ */
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures')
+
+// Fixture files never change at runtime, so cache reads per process
+const fixtureCache = new Map<string, string | null>()
+
+/**
+ * Stable hash of service inputs (key order independent)
+ */
+export function hashInputs(inputs: Record<string, any>): string {
+  const normalized = Object.keys(inputs)
+    .sort()
+    .map(key => [key, inputs[key]])
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex').substring(0, 12)
+}
+
+function readFixture(slug: string, name: string): string | null {
+  // Slugs come from services.json, but never let one escape the fixtures directory
+  if (!/^[a-z0-9-]+$/.test(slug) || !/^[a-z0-9-]+$/.test(name)) return null
+
+  const cacheKey = `${slug}/${name}`
+  if (fixtureCache.has(cacheKey)) {
+    return fixtureCache.get(cacheKey) || null
+  }
+
+  const fixturePath = path.join(FIXTURES_DIR, slug, `${name}.json`)
+  const text = fs.existsSync(fixturePath) ? fs.readFileSync(fixturePath, 'utf8').trim() : null
+  fixtureCache.set(cacheKey, text)
+  return text
+}
+
+/**
+ * Get the recorded response for a service - input-specific recording first, then the default
+ */
+export function getFixtureResponse(slug: string, inputHash?: string): string | null {
+  if (inputHash) {
+    const specific = readFixture(slug, inputHash)
+    if (specific) return specific
+  }
+
+  return readFixture(slug, 'default')
+}
+
+/**
+ * List services that have a default fixture
+ */
+export function listFixtureServices(): string[] {
+  if (!fs.existsSync(FIXTURES_DIR)) return []
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(slug => readFixture(slug, 'default') !== null)
+    .sort()
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { canTransition, InvalidTransitionError, transitionGeneration } from '@/lib/generationState'
+import { createInMemoryGenerationRepository, GenerationStatus } from '@/lib/generationStore'
+
+const STATUSES: GenerationStatus[] = ['processing', 'ready', 'error']
+
+const ALLOWED: [GenerationStatus, GenerationStatus][] = [
+  ['processing', 'ready'],
+  ['processing', 'error'],
+  ['ready', 'processing'],
+  ['error', 'processing']
+]
+
+const FORBIDDEN: [GenerationStatus, GenerationStatus][] = STATUSES
+  .reduce((pairs, from) => pairs.concat(STATUSES.map(to => [from, to] as [GenerationStatus, GenerationStatus])), [] as [GenerationStatus, GenerationStatus][])
+  .filter(([from, to]) => !ALLOWED.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to))
+
+async function repositoryWith(status: GenerationStatus) {
+  const repository = createInMemoryGenerationRepository()
+  await repository.save({
+    sessionId: 'cs_test_state',
+    traceId: 'trace_state',
+    serviceSlug: 'fbi-file',
+    status,
+    createdAt: 1,
+    updatedAt: 1
+  })
+  return repository
+}
+
+describe('canTransition', () => {
+  it.each(ALLOWED)('allows %s → %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true)
+  })
+
+  it.each(FORBIDDEN)('forbids %s → %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false)
+  })
+
+  it('covers every pair of statuses', () => {
+    expect(ALLOWED.length + FORBIDDEN.length).toBe(STATUSES.length * STATUSES.length)
+  })
+})
+
+describe('transitionGeneration', () => {
+  it.each(ALLOWED)('moves a %s record to %s and applies the changes', async (from, to) => {
+    const repository = await repositoryWith(from)
+
+    const record = await transitionGeneration(repository, 'cs_test_state', to, { error: 'detail' })
+
+    expect(record.status).toBe(to)
+    expect(record.error).toBe('detail')
+    expect((await repository.get('cs_test_state'))!.status).toBe(to)
+  })
+
+  it.each(FORBIDDEN)('rejects %s → %s and leaves the record untouched', async (from, to) => {
+    const repository = await repositoryWith(from)
+
+    await expect(transitionGeneration(repository, 'cs_test_state', to, { error: 'detail' }))
+      .rejects.toBeInstanceOf(InvalidTransitionError)
+
+    const stored = await repository.get('cs_test_state')
+    expect(stored!.status).toBe(from)
+    expect(stored!.error).toBeUndefined()
+  })
+
+  it('rejects a transition for an unknown session', async () => {
+    const repository = createInMemoryGenerationRepository()
+
+    await expect(transitionGeneration(repository, 'cs_test_missing', 'ready'))
+      .rejects.toThrow('Generation record not found for cs_test_missing')
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Generation State Machine
+ * Guards status transitions so duplicate webhooks and late workers can't
+ * overwrite a finished generation
+ */
+
+import { GenerationRecord, GenerationRepository, GenerationStatus } from '@/lib/generationStore'
+
+/**
+ * Allowed transitions - ready only re-enters processing for a customer
+ * regeneration, error may be requeued
+ */
+const TRANSITIONS: Record<GenerationStatus, GenerationStatus[]> = {
+  processing: ['ready', 'error'],
+  ready: ['processing'],
+  error: ['processing']
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public sessionId: string, public from: GenerationStatus, public to: GenerationStatus) {
+    super(`Invalid generation transition for ${sessionId}: ${from} → ${to}`)
+    this.name = 'InvalidTransitionError'
+  }
+}
+
+/**
+ * Check whether a status change is allowed
+ */
+export function canTransition(from: GenerationStatus, to: GenerationStatus): boolean {
+  return TRANSITIONS[from].indexOf(to) !== -1
+}
+
+/**
+ * Apply a status change to a stored record, enforcing the state machine
+ */
+export async function transitionGeneration(
+  repository: GenerationRepository,
+  sessionId: string,
+  to: GenerationStatus,
+  changes: Partial<Omit<GenerationRecord, 'sessionId' | 'status'>> = {}
+): Promise<GenerationRecord> {
+  const record = await repository.get(sessionId)
+  if (!record) {
+    throw new Error(`Generation record not found for ${sessionId}`)
+  }
+
+  if (!canTransition(record.status, to)) {
+    throw new InvalidTransitionError(sessionId, record.status, to)
+  }
+
+  const updated = await repository.update(sessionId, { ...changes, status: to })
+  return updated!
+}
@@ -0,0 +1,264 @@
+/**
+ * Generation Store - Durable status and PDF persistence
+ * Keeps generation records out of module memory so cold starts, extra
+ * serverless instances and redeploys don't lose a paid document
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { GenerationStep } from '@/lib/logger'
+
+export type GenerationStatus = 'processing' | 'ready' | 'error'
+
+export interface GenerationStepRecord {
+  step: GenerationStep
+  message: string
+  timestamp: number
+}
+
+export interface RefundRecord {
+  id: string
+  status: string
+  amount: number
+  createdAt: number
+}
+
+export interface DocumentVersion {
+  version: number
+  traceId: string
+  temperature: number
+  seed?: number
+  // Public code for the verify page
+  provenanceCode?: string
+  createdAt: number
+}
+
+export interface GenerationRecord {
+  sessionId: string
+  traceId: string
+  serviceSlug: string
+  status: GenerationStatus
+  serviceName?: string
+  error?: string
+  inputs?: Record<string, any>
+  jobId?: string
+  accessKeyHash?: string
+  // Attachment downloads per document version
+  downloadCounts?: Record<number, number>
+  customerEmail?: string
+  amountTotal?: number
+  currency?: string
+  paymentIntentId?: string
+  refund?: RefundRecord
+  refundError?: string
+  versions?: DocumentVersion[]
+  currentVersion?: number
+  regenerationsAllowed?: number
+  regenerationsUsed?: number
+  regenerationError?: string
+  steps?: GenerationStepRecord[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface GenerationRepository {
+  get(sessionId: string): Promise<GenerationRecord | null>
+  list(): Promise<GenerationRecord[]>
+  save(record: GenerationRecord): Promise<void>
+  update(sessionId: string, changes: Partial<Omit<GenerationRecord, 'sessionId'>>): Promise<GenerationRecord | null>
+  savePdf(sessionId: string, pdf: Buffer, version?: number): Promise<void>
+  getPdf(sessionId: string, version?: number): Promise<Buffer | null>
+  recordEvent(eventId: string, sessionId: string): Promise<boolean>
+  releaseEvent(eventId: string): Promise<void>
+}
+
+/**
+ * Session IDs come from Stripe (cs_test_..., cs_live_...) but are also taken
+ * from query strings, so never let one escape the store directory
+ */
+function safeKey(sessionId: string): string {
+  return sessionId.replace(/[^A-Za-z0-9_-]/g, '_')
+}
+
+/**
+ * Write via a temp file and rename so readers never see a partial record
+ */
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  fs.writeFileSync(tmpPath, data)
+  fs.renameSync(tmpPath, filePath)
+}
+
+/**
+ * File-backed repository - one JSON record per session and one PDF per document version
+ */
+export function createFileGenerationRepository(baseDir: string): GenerationRepository {
+  const ensureDir = () => {
+    fs.mkdirSync(baseDir, { recursive: true })
+  }
+
+  const recordPath = (sessionId: string) => path.join(baseDir, `${safeKey(sessionId)}.json`)
+  // Version 1 keeps the original file name so documents stored before regeneration still resolve
+  const pdfPath = (sessionId: string, version: number) => path.join(
+    baseDir,
+    version > 1 ? `${safeKey(sessionId)}.v${version}.pdf` : `${safeKey(sessionId)}.pdf`
+  )
+  const eventPath = (eventId: string) => path.join(baseDir, 'events', safeKey(eventId))
+
+  const read = (sessionId: string): GenerationRecord | null => {
+    try {
+      return JSON.parse(fs.readFileSync(recordPath(sessionId), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  return {
+    async get(sessionId) {
+      return read(sessionId)
+    },
+
+    async list() {
+      if (!fs.existsSync(baseDir)) return []
+      return fs.readdirSync(baseDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => {
+          try {
+            return JSON.parse(fs.readFileSync(path.join(baseDir, file), 'utf8')) as GenerationRecord
+          } catch {
+            return null
+          }
+        })
+        .filter((record): record is GenerationRecord => record !== null)
+        .sort((a, b) => b.createdAt - a.createdAt)
+    },
+
+    async save(record) {
+      ensureDir()
+      writeFileAtomic(recordPath(record.sessionId), JSON.stringify(record, null, 2))
+    },
+
+    async update(sessionId, changes) {
+      const existing = read(sessionId)
+      if (!existing) return null
+
+      const updated: GenerationRecord = { ...existing, ...changes, sessionId, updatedAt: Date.now() }
+      ensureDir()
+      writeFileAtomic(recordPath(sessionId), JSON.stringify(updated, null, 2))
+      return updated
+    },
+
+    async savePdf(sessionId, pdf, version = 1) {
+      ensureDir()
+      writeFileAtomic(pdfPath(sessionId, version), pdf)
+    },
+
+    async getPdf(sessionId, version = 1) {
+      try {
+        return fs.readFileSync(pdfPath(sessionId, version))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async recordEvent(eventId, sessionId) {
+      fs.mkdirSync(path.dirname(eventPath(eventId)), { recursive: true })
+      try {
+        // Exclusive create - fails if this event was already recorded
+        fs.writeFileSync(eventPath(eventId), sessionId, { flag: 'wx' })
+        return true
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false
+        throw error
+      }
+    },
+
+    async releaseEvent(eventId) {
+      try {
+        fs.unlinkSync(eventPath(eventId))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      }
+    }
+  }
+}
+
+/**
+ * In-memory repository for tests and local experiments
+ */
+export function createInMemoryGenerationRepository(): GenerationRepository {
+  const records = new Map<string, GenerationRecord>()
+  const pdfs = new Map<string, Buffer>()
+  const events = new Map<string, string>()
+
+  return {
+    async get(sessionId) {
+      const record = records.get(sessionId)
+      return record ? { ...record } : null
+    },
+
+    async list() {
+      return Array.from(records.values())
+        .map(record => ({ ...record }))
+        .sort((a, b) => b.createdAt - a.createdAt)
+    },
+
+    async save(record) {
+      records.set(record.sessionId, { ...record })
+    },
+
+    async update(sessionId, changes) {
+      const existing = records.get(sessionId)
+      if (!existing) return null
+
+      const updated: GenerationRecord = { ...existing, ...changes, sessionId, updatedAt: Date.now() }
+      records.set(sessionId, updated)
+      return { ...updated }
+    },
+
+    async savePdf(sessionId, pdf, version = 1) {
+      pdfs.set(`${sessionId}#${version}`, Buffer.from(pdf))
+    },
+
+    async getPdf(sessionId, version = 1) {
+      return pdfs.get(`${sessionId}#${version}`) || null
+    },
+
+    async recordEvent(eventId, sessionId) {
+      if (events.has(eventId)) return false
+      events.set(eventId, sessionId)
+      return true
+    },
+
+    async releaseEvent(eventId) {
+      events.delete(eventId)
+    }
+  }
+}
+
+let repository: GenerationRepository | null = null
+
+/**
+ * Get the configured repository (GENERATION_STORE=memory|file)
+ */
+export function getGenerationRepository(): GenerationRepository {
+  if (!repository) {
+    if (process.env.GENERATION_STORE === 'memory') {
+      repository = createInMemoryGenerationRepository()
+    } else {
+      const baseDir = process.env.GENERATION_STORE_DIR || path.join(process.cwd(), '.data', 'generations')
+      repository = createFileGenerationRepository(baseDir)
+    }
+  }
+
+  return repository
+}
+
+/**
+ * Override the repository (tests, alternative backends)
+ */
+export function setGenerationRepository(repo: GenerationRepository | null): void {
+  repository = repo
+}
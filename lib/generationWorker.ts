@@ -0,0 +1,369 @@
+/**
+ * Generation Worker
+ * Claims queued jobs and runs prompt → OpenAI → moderation → PDF outside the webhook request
+ */
+
+import crypto from 'crypto'
+import { validateAndGenerateText } from '@/lib/validateText'
+import { buildPrompt, extractBasicFields } from '@/lib/promptBuilder'
+import { generateServiceBrand } from '@/lib/brand'
+import { logger, GenerationStep, subscribeToLogs } from '@/lib/logger'
+import { renderDocumentPdf } from '@/lib/documentRenderer'
+import { getGenerationRepository, GenerationRepository, DocumentVersion } from '@/lib/generationStore'
+import { getJobQueue, GenerationJob, JobQueue } from '@/lib/jobQueue'
+import { transitionGeneration } from '@/lib/generationState'
+import { sendGenerationEmail } from '@/lib/email'
+import { refundFailedGeneration } from '@/lib/refunds'
+import { getDocumentVersions, getVersionSettings } from '@/lib/regeneration'
+import { getService } from '@/lib/services'
+import { loadFieldImages } from '@/lib/uploadStore'
+import { buildProvenance } from '@/lib/documentProvenance'
+import { getProvenanceStore } from '@/lib/provenanceStore'
+import { moderateOutput, summarizeModeration, OUTPUT_MODERATION_REGENERATIONS } from '@/lib/outputModeration'
+
+// Per-attempt ceiling so a hung OpenAI call can't hold a job forever
+const JOB_TIMEOUT_MS = parseInt(process.env.JOB_TIMEOUT_MS || '60000', 10)
+
+// A drain with less time than this left stops claiming jobs
+const MIN_JOB_BUDGET_MS = 15000
+
+export interface DrainResult {
+  processed: number
+  completed: number
+  retried: number
+  deadLettered: number
+}
+
+/**
+ * Stop a timed-out attempt before its next write - the job may already be retrying
+ */
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Generation cancelled')
+  }
+}
+
+/**
+ * Persist the GenerationSteps logged for a trace onto its record, in order,
+ * so progress can be streamed to the result page from any instance
+ */
+function recordLoggedSteps(repository: GenerationRepository, sessionId: string, traceId: string) {
+  let pending: Promise<unknown> = Promise.resolve()
+
+  const unsubscribe = subscribeToLogs(entry => {
+    if (entry.traceId !== traceId || !entry.step) return
+
+    const step = { step: entry.step, message: entry.message, timestamp: entry.timestamp }
+    pending = pending
+      .then(async () => {
+        const record = await repository.get(sessionId)
+        if (record) {
+          await repository.update(sessionId, { steps: [...(record.steps || []), step] })
+        }
+      })
+      .catch(error => console.error(`[${traceId}] Failed to record generation step:`, error))
+  })
+
+  return {
+    flush: () => pending,
+    stop: async () => {
+      unsubscribe()
+      await pending
+    }
+  }
+}
+
+/**
+ * Generate a document for a claimed job - throws on failure so the queue can retry.
+ * Returns null when the job's document version was already produced by an earlier job.
+ * Aborting the signal cancels provider and renderer calls and stops any further writes.
+ */
+export async function processDocumentGeneration(
+  job: GenerationJob,
+  repository: GenerationRepository = getGenerationRepository(),
+  signal?: AbortSignal
+): Promise<{ serviceName: string; version: DocumentVersion } | null> {
+  const { sessionId, traceId, serviceSlug: slug, inputs } = job
+  const versionNumber = job.version || 1
+
+  // A duplicate job for an already produced version must not regenerate (or re-bill OpenAI)
+  const existing = await repository.get(sessionId)
+  if (existing && getDocumentVersions(existing).some(entry => entry.version === versionNumber)) {
+    console.log(`[${traceId}] Session ${sessionId} already has version ${versionNumber} - skipping duplicate job ${job.id}`)
+    return null
+  }
+
+  console.log(`[${traceId}] Starting document generation for session ${sessionId}, service: ${slug}, version ${versionNumber} (attempt ${job.attempts}/${job.maxAttempts})`)
+  logger.generationStart(traceId, sessionId, slug)
+
+  // Build and validate prompt
+  console.log(`[${traceId}] Building prompt for service: ${slug}`)
+  const promptResult = await buildPrompt(slug, inputs, traceId, sessionId)
+  if (!promptResult.success) {
+    console.error(`[${traceId}] Prompt validation failed: ${promptResult.error}`)
+    throw new Error(`Prompt validation failed: ${promptResult.error}`)
+  }
+
+  console.log(`[${traceId}] Prompt built successfully for ${slug}`)
+  logger.generationStep('Prompt built and validated', traceId, GenerationStep.PROMPT_BUILT, sessionId, slug)
+
+  // Log sanitization if occurred
+  if (promptResult.sanitizedInputs?.org_sanitized) {
+    logger.sanitizationAction(
+      promptResult.sanitizedInputs.sanitized_reason || 'Organization sanitized',
+      'Original name',
+      'Sanitized name',
+      traceId,
+      sessionId,
+      slug
+    )
+  }
+
+  // Regenerations sample differently so the customer gets a new take on the same inputs
+  const settings = getVersionSettings(promptResult.metadata!.temperature, job.generationAttempt || versionNumber)
+
+  // Call OpenAI with retry logic (reduced retries for faster failure)
+  console.log(`[${traceId}] 🔄 Starting OpenAI generation for ${slug}`)
+  logger.generationStep('Text generation requested', traceId, GenerationStep.OPENAI_CALLED, sessionId, slug)
+  const generationResult = await validateAndGenerateText(
+    promptResult.prompt!,
+    settings.temperature,
+    slug,
+    traceId,
+    2, // Reduced retries for faster response
+    inputs,
+    settings.seed,
+    signal
+  )
+  throwIfAborted(signal)
+
+  if (!generationResult.success) {
+    // Log the raw response for debugging
+    if (generationResult.rawResponse) {
+      logger.jsonParseError(traceId, generationResult.rawResponse, sessionId, slug)
+    }
+    throw new Error(`Generation failed: ${generationResult.error}`)
+  }
+
+  console.log(`[${traceId}] ✅ OpenAI generation successful! Response length: ${generationResult.data?.length || 0} characters`)
+  logger.generationStep('Structured document generated and validated', traceId, GenerationStep.JSON_VALIDATED, sessionId, slug)
+
+  // Moderate what the model wrote - redact real names, regenerate anything redaction can't fix
+  let moderation = moderateOutput(slug, generationResult.document!, traceId, sessionId)
+  let moderationRounds = 0
+  while (!moderation.passed && moderationRounds < OUTPUT_MODERATION_REGENERATIONS) {
+    throwIfAborted(signal)
+    moderationRounds++
+    console.log(`[${traceId}] 🛡️ Output failed moderation (${moderation.violations.map(match => match.ruleId).join(', ')}) - regenerating (${moderationRounds}/${OUTPUT_MODERATION_REGENERATIONS})`)
+    logger.retryAttempt(moderationRounds, 'Generated document failed output moderation', traceId, sessionId, slug)
+
+    const retryResult = await validateAndGenerateText(
+      promptResult.prompt!,
+      settings.temperature,
+      slug,
+      traceId,
+      2,
+      inputs,
+      crypto.randomInt(0, 2 ** 31),
+      signal
+    )
+    if (!retryResult.success) {
+      throw new Error(`Generation failed: ${retryResult.error}`)
+    }
+    moderation = moderateOutput(slug, retryResult.document!, traceId, sessionId)
+  }
+
+  const moderationSummary = summarizeModeration(moderation, moderationRounds)
+  const moderationData = {
+    policyVersion: moderation.policyVersion,
+    redactions: moderation.redactions.map(match => match.ruleId),
+    flags: moderation.flags.map(match => match.ruleId),
+    violations: moderation.violations.map(match => match.ruleId),
+    regenerations: moderationRounds
+  }
+  if (!moderation.passed) {
+    logger.warn(moderationSummary, traceId, moderationData, sessionId, slug, GenerationStep.OUTPUT_MODERATED)
+    throw new Error(`Output moderation failed: ${moderation.violations.map(match => match.ruleId).join(', ')}`)
+  }
+  logger.generationStep(moderationSummary, traceId, GenerationStep.OUTPUT_MODERATED, sessionId, slug, moderationData)
+  const document = moderation.document
+
+  // Generate brand/seal
+  console.log(`[${traceId}] 🎨 Generating brand/seal for ${slug}`)
+  const brand = generateServiceBrand(slug, inputs.companyName || inputs.fullName)
+
+  // Extract basic metadata from the document's text
+  console.log(`[${traceId}] 📊 Extracting metadata from generated document`)
+  const metadata = extractBasicFields(moderation.text)
+
+  // Customer photos from image fields
+  const images = await loadFieldImages(getService(slug)?.fields || [], inputs)
+
+  // Provenance printed in the footer and metadata - the code is registered once the PDF is stored
+  const provenance = buildProvenance(sessionId, slug, versionNumber)
+  const serviceName = getService(slug)?.name || slug
+
+  // Render PDF from the structured document
+  console.log(`[${traceId}] 📄 Starting PDF rendering...`)
+  const pdfBuffer = await renderDocumentPdf(
+    slug,
+    { content: document, metadata },
+    brand,
+    promptResult.sanitizedInputs,
+    images,
+    provenance,
+    signal
+  )
+
+  console.log(`[${traceId}] ✅ PDF rendering completed! Size: ${pdfBuffer.length} bytes`)
+  logger.generationStep(`PDF rendered (${pdfBuffer.length} bytes)`, traceId, GenerationStep.PDF_RENDERED, sessionId, slug)
+
+  // Persist the PDF before flagging the record as ready
+  throwIfAborted(signal)
+  await repository.savePdf(sessionId, pdfBuffer, versionNumber)
+  logger.generationStep('PDF stored', traceId, GenerationStep.PDF_STORED, sessionId, slug)
+
+  throwIfAborted(signal)
+  await getProvenanceStore().save({
+    code: provenance.code!,
+    reference: provenance.reference,
+    serviceSlug: slug,
+    serviceName,
+    version: versionNumber,
+    generatedAt: provenance.generatedAt
+  })
+  console.log(`[${traceId}] 🔏 Registered provenance code ${provenance.code} for version ${versionNumber}`)
+
+  return {
+    serviceName,
+    version: { version: versionNumber, traceId, ...settings, provenanceCode: provenance.code, createdAt: Date.now() }
+  }
+}
+
+/**
+ * Claim and run a single job - returns the job in its final state, or null if the queue is idle.
+ * An attempt that outlives timeoutMs is aborted, not just abandoned, so it can't race its retry.
+ */
+export async function runNextJob(
+  queue: JobQueue = getJobQueue(),
+  repository: GenerationRepository = getGenerationRepository(),
+  timeoutMs: number = JOB_TIMEOUT_MS
+): Promise<GenerationJob | null> {
+  const job = await queue.claim()
+  if (!job) return null
+
+  const { sessionId, traceId, serviceSlug: slug } = job
+  const steps = recordLoggedSteps(repository, sessionId, traceId)
+
+  const controller = new AbortController()
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    const result = await Promise.race([
+      processDocumentGeneration(job, repository, controller.signal),
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          const timeoutError = new Error(`Generation timeout after ${Math.round(timeoutMs / 1000)} seconds`)
+          controller.abort(timeoutError)
+          reject(timeoutError)
+        }, timeoutMs)
+      })
+    ])
+    clearTimeout(timeoutId)
+
+    if (result) {
+      logger.generationSuccess(traceId, sessionId, slug, sessionId)
+
+      // Steps must land before the status flips, or the progress stream closes early
+      await steps.flush()
+      const current = await repository.get(sessionId)
+      const record = await transitionGeneration(repository, sessionId, 'ready', {
+        serviceName: result.serviceName,
+        error: undefined,
+        versions: [...(current?.versions || []), result.version],
+        currentVersion: result.version.version
+      })
+      console.log(`[${traceId}] 🎉 Document generation COMPLETED successfully!`)
+
+      await sendGenerationEmail(record)
+    }
+
+    await queue.complete(job.id)
+    return { ...job, status: 'completed' }
+
+  } catch (error) {
+    clearTimeout(timeoutId)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.log(`[${traceId}] 💥 ERROR in document generation: ${errorMessage}`)
+
+    const failed = await queue.fail(job.id, errorMessage)
+
+    if (failed && failed.status === 'queued') {
+      logger.retryAttempt(failed.attempts + 1, errorMessage, traceId, sessionId, slug)
+      console.log(`[${traceId}] ⏳ Job ${job.id} requeued for ${new Date(failed.runAt).toISOString()}`)
+      await steps.flush()
+      return failed
+    }
+
+    // Out of attempts - dead-letter the job and surface the error to the customer
+    logger.generationFailed(
+      `Document generation failed after ${job.attempts} attempts: ${errorMessage}`,
+      traceId,
+      sessionId,
+      slug,
+      error,
+      GenerationStep.GENERATION_FAILED
+    )
+
+    try {
+      await steps.flush()
+      const current = await repository.get(sessionId)
+
+      // A failed regeneration falls back to the customer's previous version - no refund owed
+      if (current && getDocumentVersions(current).length > 0) {
+        await transitionGeneration(repository, sessionId, 'ready', { regenerationError: errorMessage })
+        console.log(`[${traceId}] ↩️ Regeneration failed, version ${current.currentVersion || 1} kept`)
+        return failed
+      }
+
+      const record = await transitionGeneration(repository, sessionId, 'error', { error: errorMessage })
+      const refunded = await refundFailedGeneration(record, repository)
+      await sendGenerationEmail(refunded)
+    } catch (storeError) {
+      console.error(`[${traceId}] Failed to finalise failed generation:`, storeError)
+    }
+
+    console.log(`[${traceId}] ❌ Job ${job.id} dead-lettered, generation status set to ERROR`)
+    return failed
+  } finally {
+    await steps.stop()
+  }
+}
+
+/**
+ * Run due jobs until the queue is idle (local runner, tests and the drain endpoint).
+ * With a time budget, each job's timeout is cut to the time left and no job is
+ * claimed once too little remains, so the drain finishes inside its caller's limit.
+ */
+export async function drainQueue(
+  options: { maxJobs?: number; timeBudgetMs?: number; queue?: JobQueue; repository?: GenerationRepository } = {}
+): Promise<DrainResult> {
+  const { maxJobs = 10, timeBudgetMs, queue = getJobQueue(), repository = getGenerationRepository() } = options
+  const result: DrainResult = { processed: 0, completed: 0, retried: 0, deadLettered: 0 }
+  const deadline = timeBudgetMs !== undefined ? Date.now() + timeBudgetMs : Infinity
+
+  while (result.processed < maxJobs) {
+    const remaining = deadline - Date.now()
+    if (remaining < MIN_JOB_BUDGET_MS) break
+
+    const job = await runNextJob(queue, repository, Math.min(JOB_TIMEOUT_MS, remaining))
+    if (!job) break
+
+    result.processed++
+    if (job.status === 'completed') result.completed++
+    else if (job.status === 'dead') result.deadLettered++
+    else result.retried++
+  }
+
+  return result
+}
@@ -0,0 +1,121 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { documentToText, validateDocument } from '@/lib/documentModel'
+import { DocumentProvenance } from '@/lib/documentProvenance'
+import { getFixtureResponse } from '@/lib/fixtures'
+import { appendDocumentInfo } from '@/lib/htmlRenderer'
+import { renderServiceToPdf } from '@/lib/pdfGenerator'
+import { extractBasicFields } from '@/lib/promptBuilder'
+import { extractProvenanceCode } from '@/lib/provenanceStore'
+
+const PROVENANCE: DocumentProvenance = {
+  reference: 'IS-0123456789AB',
+  code: 'ISV-7K2M-QX9D',
+  serviceSlug: 'payslip',
+  version: 2,
+  generatedAt: Date.UTC(2024, 0, 15, 9, 30)
+}
+
+/**
+ * Smallest PDF shaped like Chrome's output - classic xref table and trailer, catalog in a plain object
+ */
+function chromePdf(): Buffer {
+  const objects = [
+    '1 0 obj\n<</Type /Catalog\n/Pages 2 0 R>>\nendobj\n',
+    '2 0 obj\n<</Type /Pages\n/Count 1\n/Kids [3 0 R]>>\nendobj\n',
+    '3 0 obj\n<</Type /Page\n/Parent 2 0 R\n/MediaBox [0 0 595 842]>>\nendobj\n',
+    '4 0 obj\n<</Producer (Skia/PDF m120)>>\nendobj\n'
+  ]
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map(object => {
+    const offset = pdf.length
+    pdf += object
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 5\n0000000000 65535 f \n${offsets.map(offset => `${('0000000000' + offset).slice(-10)} 00000 n \n`).join('')}`
+  pdf += `trailer\n<</Size 5\n/Root 1 0 R\n/Info 4 0 R>>\nstartxref\n${xref}\n%%EOF`
+  return Buffer.from(pdf, 'latin1')
+}
+
+function xmpPacket(pdf: string): string {
+  const match = pdf.match(/<x:xmpmeta[\s\S]*?<\/x:xmpmeta>/)
+  expect(match).not.toBeNull()
+  return match![0]
+}
+
+/**
+ * Objects the last xref section points at, keyed by object number
+ */
+function lastXrefObjects(pdf: string): Record<number, string> {
+  const xref = parseInt(pdf.match(/startxref\s+(\d+)\s+%%EOF\s*$/)![1], 10)
+  const table = pdf.slice(xref, pdf.indexOf('trailer', xref)).split('\n').slice(1)
+  const objects: Record<number, string> = {}
+  let objectNumber = 0
+  table.forEach(line => {
+    const subsection = line.match(/^(\d+) (\d+)$/)
+    const entry = line.match(/^(\d{10}) (\d{5}) n $/)
+    if (subsection) {
+      objectNumber = parseInt(subsection[1], 10)
+    } else if (entry) {
+      const offset = parseInt(entry[1], 10)
+      objects[objectNumber++] = pdf.slice(offset, pdf.indexOf('endobj', offset))
+    }
+  })
+  return objects
+}
+
+describe('appendDocumentInfo', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  it('keeps the original file as the first part of the update', () => {
+    const source = chromePdf()
+    expect(appendDocumentInfo(source, PROVENANCE).subarray(0, source.length).equals(source)).toBe(true)
+  })
+
+  it('points the new xref entries at the objects they name', () => {
+    const objects = lastXrefObjects(appendDocumentInfo(chromePdf(), PROVENANCE).toString('latin1'))
+
+    expect(Object.keys(objects)).toEqual(['1', '5', '6'])
+    expect(objects[1]).toMatch(/^1 0 obj\n<<\/Type \/Catalog\n\/Pages 2 0 R\n\/Metadata 6 0 R\n>>/)
+    expect(objects[5]).toMatch(/^5 0 obj\n<<\n\/Title \(.+ \\\(Novelty Document\\\)\)/)
+    expect(objects[6]).toMatch(/^6 0 obj\n<< \/Type \/Metadata \/Subtype \/XML \/Length \d+ >>\nstream\n<x:xmpmeta/)
+  })
+
+  it('chains the trailer to the previous xref', () => {
+    const source = chromePdf().toString('latin1')
+    const previous = source.match(/startxref\s+(\d+)/)![1]
+    const pdf = appendDocumentInfo(chromePdf(), PROVENANCE).toString('latin1')
+
+    expect(pdf).toContain(`<< /Size 7 /Root 1 0 R /Info 5 0 R /Prev ${previous} >>`)
+  })
+
+  it('gives the metadata stream its exact length', () => {
+    const pdf = appendDocumentInfo(chromePdf(), PROVENANCE).toString('latin1')
+    const stream = pdf.match(/\/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!
+
+    expect(stream[2].length).toBe(parseInt(stream[1], 10))
+  })
+
+  it('writes the same XMP packet as the jsPDF engine', async () => {
+    const content = validateDocument(JSON.parse(getFixtureResponse('payslip')!)).document!
+    const jspdf = await renderServiceToPdf('payslip', { content, metadata: extractBasicFields(documentToText(content)) }, undefined, undefined, [], PROVENANCE)
+    const html = appendDocumentInfo(chromePdf(), PROVENANCE)
+
+    expect(xmpPacket(html.toString('latin1'))).toBe(xmpPacket(jspdf.toString('latin1')))
+    expect(extractProvenanceCode(html)).toBe(PROVENANCE.code)
+  })
+
+  it('replaces a metadata stream the catalog already had', () => {
+    const source = chromePdf().toString('latin1').replace('/Pages 2 0 R>>', '/Pages 2 0 R\n/Metadata 4 0 R>>')
+    const objects = lastXrefObjects(appendDocumentInfo(Buffer.from(source, 'latin1'), PROVENANCE).toString('latin1'))
+
+    expect(objects[1]).not.toContain('/Metadata 4 0 R')
+    expect(objects[1]).toContain('/Metadata 6 0 R')
+  })
+
+  it('rejects a PDF without a classic trailer', () => {
+    expect(() => appendDocumentInfo(Buffer.from('%PDF-1.7\n%%EOF', 'latin1'), PROVENANCE)).toThrow('no classic trailer')
+  })
+})
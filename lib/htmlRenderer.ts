@@ -0,0 +1,300 @@
+/**
+ * HTML PDF Renderer - React templates printed to PDF by headless Chrome
+ * Layouts get real tables, grids and fonts; the watermark, footer and provenance
+ * are added here so no template can leave them out
+ */
+
+import { createElement } from 'react'
+import puppeteer from 'puppeteer'
+import { resolveServiceLogo } from '@/lib/assetResolver'
+import { GeneratedBrand } from '@/lib/brand'
+import {
+  buildDocumentProperties,
+  buildXmpPacket,
+  DocumentProvenance,
+  FOOTER_DISCLAIMER,
+  VERIFY_URL
+} from '@/lib/documentProvenance'
+import { createTemplateEnvironment, templateMicrotext, templateReference } from '@/lib/documentTemplates'
+import { cleanDocument } from '@/lib/textClean'
+import { GeneratedDocument } from '@/lib/pdfGenerator'
+import { getTemplate } from '@/lib/templateRegistry'
+import { UploadedImage } from '@/lib/uploadStore'
+import DocumentPage from '@/templates/html/DocumentPage'
+
+// Chrome is slow to start on a cold function instance
+const RENDER_TIMEOUT_MS = parseInt(process.env.PDF_RENDER_TIMEOUT_MS || '30000', 10)
+
+export class HtmlRenderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HtmlRenderError'
+  }
+}
+
+/**
+ * Render a document to PDF through its HTML template
+ */
+export async function renderServiceToHtmlPdf(
+  slug: string,
+  document: GeneratedDocument,
+  brand: GeneratedBrand | undefined,
+  images: UploadedImage[],
+  provenance: DocumentProvenance,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const template = getTemplate(slug)
+  console.log(`🧩 Using ${template.slug} HTML template for ${slug}`)
+
+  const content = template.prepare(cleanDocument(document.content, slug), document.metadata)
+  // Same clock and references as the jsPDF engine would use for this version
+  const environment = createTemplateEnvironment(provenance.reference, provenance.generatedAt)
+  const reference = templateReference(template, environment)
+  const html = await renderDocumentHtml(createElement(DocumentPage, {
+    template,
+    content,
+    metadata: document.metadata,
+    brand,
+    logo: resolveServiceLogo(slug, brand),
+    photo: images[0],
+    environment,
+    reference
+  }))
+  console.log(`🧱 Built HTML document (${html.length} chars)`)
+
+  const footer = renderFooterTemplate(environment.now, provenance.code, templateMicrotext(template, reference, environment))
+  const pdf = await printHtml(html, footer, signal)
+  return appendDocumentInfo(pdf, provenance)
+}
+
+/**
+ * Static markup for a page element - react-dom/server is only loaded when the HTML engine is used
+ */
+async function renderDocumentHtml(element: ReturnType<typeof createElement>): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server')
+  return `<!DOCTYPE html>${renderToStaticMarkup(element)}`
+}
+
+/**
+ * Print HTML to an A4 PDF - scripts are disabled and every network request is blocked.
+ * Aborting the signal closes the browser, which fails any print in progress
+ */
+async function printHtml(html: string, footerTemplate: string, signal?: AbortSignal): Promise<Buffer> {
+  const browser = await puppeteer.launch({
+    headless: 'new',
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+    timeout: RENDER_TIMEOUT_MS
+  })
+  const abort = () => {
+    browser.close().catch(() => undefined)
+  }
+  signal?.addEventListener('abort', abort)
+
+  try {
+    if (signal?.aborted) {
+      throw new HtmlRenderError('Render cancelled')
+    }
+
+    const page = await browser.newPage()
+    await page.setJavaScriptEnabled(false)
+    await page.setRequestInterception(true)
+    page.on('request', request => {
+      if (request.url().startsWith('data:')) {
+        request.continue()
+      } else {
+        request.abort()
+      }
+    })
+
+    await page.setContent(html, { waitUntil: 'load', timeout: RENDER_TIMEOUT_MS })
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: '<span></span>',
+      footerTemplate,
+      timeout: RENDER_TIMEOUT_MS
+    })
+
+    return Buffer.from(pdf)
+  } finally {
+    signal?.removeEventListener('abort', abort)
+    if (browser.connected) {
+      await browser.close()
+    }
+  }
+}
+
+/**
+ * Escape text for Chrome's header/footer templates, which are parsed as HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Footer on every page - timestamp, disclaimer, page number, the verification line and any microtext
+ */
+function renderFooterTemplate(generatedAt: Date, provenanceCode?: string, microtext?: [string, string] | null): string {
+  const ts = escapeHtml(generatedAt.toLocaleString('en-GB', { hour12: false }))
+  const verification = provenanceCode
+    ? `<div style="text-align: center; font-size: 6px; margin-top: 2px;">Verify this novelty document at ${escapeHtml(VERIFY_URL)} with code ${escapeHtml(provenanceCode)}</div>`
+    : ''
+  const micro = microtext
+    ? `<div style="display: flex; justify-content: space-between; font-size: 5px; color: #999; margin-top: 2px;"><span>${escapeHtml(microtext[0])}</span><span>${escapeHtml(microtext[1])}</span></div>`
+    : ''
+
+  // Footer templates don't inherit the page's styles and default to a zero font size
+  return `
+<div style="width: 100%; margin: 0 20mm; font-family: Helvetica, Arial, sans-serif; font-size: 8px; color: #555;">
+  <div style="display: flex; justify-content: space-between;">
+    <span>Generated ${ts}</span>
+    <span>${escapeHtml(FOOTER_DISCLAIMER)}</span>
+    <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+  </div>
+  ${verification}
+  ${micro}
+</div>`
+}
+
+/**
+ * Encode a PDF text string - literal when ASCII, UTF-16BE hex otherwise
+ */
+function pdfString(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `(${value.replace(/([\\()])/g, '\\$1')})`
+  }
+
+  let hex = 'FEFF'
+  for (let i = 0; i < value.length; i++) {
+    hex += ('0000' + value.charCodeAt(i).toString(16).toUpperCase()).slice(-4)
+  }
+  return `<${hex}>`
+}
+
+/**
+ * PDF date string - D:YYYYMMDDHHmmSSZ
+ */
+function pdfDate(timestamp: number): string {
+  return `D:${new Date(timestamp).toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`
+}
+
+/**
+ * Offset as a ten-digit xref field
+ */
+function xrefOffset(offset: number): string {
+  return ('0000000000' + offset).slice(-10)
+}
+
+/**
+ * Body of the last definition of an object, without the outer << >> - Chrome writes
+ * the catalog as a plain object, never inside an object stream
+ */
+function readObjectDictionary(source: string, objectNumber: string, generation: string): string {
+  const pattern = new RegExp(`(?:^|\\s)${objectNumber}\\s+${generation}\\s+obj([\\s\\S]*?)endobj`, 'g')
+  let body: string | null = null
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source)) !== null) {
+    body = match[1].trim()
+  }
+
+  if (!body || body.indexOf('<<') !== 0 || body.lastIndexOf('>>') !== body.length - 2) {
+    throw new HtmlRenderError(`PDF catalog ${objectNumber} ${generation} R is not a plain dictionary`)
+  }
+  return body.slice(2, -2)
+}
+
+/**
+ * Replace Chrome's document info with ours and attach the XMP provenance packet through
+ * an incremental update - the same info and packet the jsPDF engine writes. Neither is
+ * compressed, so the provenance code stays findable by extractProvenanceCode even though
+ * Chrome compresses the page text
+ */
+export function appendDocumentInfo(pdf: Buffer, provenance: DocumentProvenance): Buffer {
+  const source = pdf.toString('latin1')
+  const startxref = source.lastIndexOf('startxref')
+  const trailerStart = source.lastIndexOf('trailer', startxref)
+  const prevMatch = startxref >= 0 ? source.slice(startxref).match(/startxref\s+(\d+)/) : null
+
+  if (!prevMatch || trailerStart < 0) {
+    throw new HtmlRenderError('PDF has no classic trailer to update')
+  }
+
+  const trailer = source.slice(trailerStart, startxref)
+  const rootMatch = trailer.match(/\/Root\s+(\d+)\s+(\d+)\s+R/)
+  const sizeMatch = trailer.match(/\/Size\s+(\d+)/)
+  if (!rootMatch || !sizeMatch) {
+    throw new HtmlRenderError('PDF trailer is missing /Root or /Size')
+  }
+
+  const properties = buildDocumentProperties(provenance)
+  const infoNumber = parseInt(sizeMatch[1], 10)
+  const metadataNumber = infoNumber + 1
+  const catalog = readObjectDictionary(source, rootMatch[1], rootMatch[2]).replace(/\/Metadata\s+\d+\s+\d+\s+R/, '')
+  // Written byte for byte, as jsPDF does
+  const packet = Buffer.from(buildXmpPacket(provenance), 'utf8').toString('latin1')
+
+  const objects = [
+    [
+      `${rootMatch[1]} ${rootMatch[2]} obj`,
+      `<<${catalog.replace(/\s+$/, '')}`,
+      `/Metadata ${metadataNumber} 0 R`,
+      '>>',
+      'endobj',
+      ''
+    ],
+    [
+      `${infoNumber} 0 obj`,
+      '<<',
+      `/Title ${pdfString(properties.title)}`,
+      `/Subject ${pdfString(properties.subject)}`,
+      `/Author ${pdfString(properties.author)}`,
+      `/Keywords ${pdfString(properties.keywords)}`,
+      `/Creator ${pdfString(properties.creator)}`,
+      `/Producer ${pdfString('Chrome')}`,
+      `/CreationDate ${pdfString(pdfDate(provenance.generatedAt))}`,
+      '>>',
+      'endobj',
+      ''
+    ],
+    [
+      `${metadataNumber} 0 obj`,
+      `<< /Type /Metadata /Subtype /XML /Length ${packet.length} >>`,
+      'stream',
+      packet,
+      'endstream',
+      'endobj',
+      ''
+    ]
+  ].map(lines => lines.join('\n'))
+
+  const separator = pdf[pdf.length - 1] === 0x0a ? '' : '\n'
+  const offsets: number[] = []
+  let offset = pdf.length + separator.length
+  objects.forEach(object => {
+    offsets.push(offset)
+    offset += Buffer.byteLength(object, 'latin1')
+  })
+
+  const update = [
+    separator + objects.join('') + 'xref',
+    `${rootMatch[1]} 1`,
+    `${xrefOffset(offsets[0])} ${('00000' + rootMatch[2]).slice(-5)} n `,
+    `${infoNumber} 2`,
+    `${xrefOffset(offsets[1])} 00000 n `,
+    `${xrefOffset(offsets[2])} 00000 n `,
+    'trailer',
+    `<< /Size ${metadataNumber + 1} /Root ${rootMatch[1]} ${rootMatch[2]} R /Info ${infoNumber} 0 R /Prev ${prevMatch[1]} >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    ''
+  ].join('\n')
+
+  return Buffer.concat([pdf, Buffer.from(update, 'latin1')])
+}
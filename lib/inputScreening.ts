@@ -0,0 +1,97 @@
+/**
+ * Input Screening - Applies the content policy to a submission
+ * Runs before checkout (so customers see what will change) and again when the
+ * prompt is built, so both always agree
+ */
+
+import { getService } from '@/lib/services'
+import { evaluateContentPolicy, normalize, PolicyMatch } from '@/lib/contentPolicy'
+import { logger } from '@/lib/logger'
+
+export interface SanitizedInputs {
+  [key: string]: string | boolean | number | undefined
+  org_sanitized?: boolean
+  sanitized_reason?: string
+}
+
+export type ScreeningAction = 'replace' | 'reject'
+
+export interface ScreeningFinding {
+  field: string
+  label: string
+  action: ScreeningAction
+  // Internal reason for logs
+  reason: string
+  // Customer-facing explanation
+  message: string
+  replacement?: string
+}
+
+export interface ScreeningResult {
+  inputs: SanitizedInputs
+  // Replacements and rejections - what the customer is told about
+  findings: ScreeningFinding[]
+  // Allowed but recorded for review - never shown to the customer
+  flags: PolicyMatch[]
+  rejected: boolean
+  policyVersion: string
+}
+
+/**
+ * Context for the audit log - when given, every policy match is logged as a blacklist hit
+ */
+export interface ScreeningAudit {
+  traceId: string
+  sessionId?: string
+}
+
+function describeMatch(match: PolicyMatch): string {
+  const fuzzy = match.matchedText !== normalize(match.term) ? ` (as "${match.matchedText}")` : ''
+  return `${match.field} matches "${match.term}"${fuzzy} under rule ${match.ruleId}`
+}
+
+/**
+ * Screen a submission - replacements are applied to the returned inputs, rejections are only reported
+ */
+export function screenInputs(slug: string, inputs: Record<string, any>, audit?: ScreeningAudit): ScreeningResult {
+  const fields = getService(slug)?.fields || []
+  const evaluation = evaluateContentPolicy(slug, fields, inputs)
+  const sanitized: SanitizedInputs = { ...evaluation.inputs }
+
+  if (audit) {
+    for (const match of evaluation.matches) {
+      logger.blacklistHit(
+        match.value,
+        `${match.action} - ${describeMatch(match)} (policy ${evaluation.policyVersion})`,
+        audit.traceId,
+        audit.sessionId,
+        slug
+      )
+    }
+  }
+
+  const findings: ScreeningFinding[] = evaluation.matches
+    .filter(match => match.action !== 'flag')
+    .map(match => ({
+      field: match.field,
+      label: match.label,
+      action: match.action as ScreeningAction,
+      reason: describeMatch(match),
+      message: match.message,
+      replacement: match.replacement
+    }))
+
+  const replacements = findings.filter(finding => finding.action === 'replace')
+  if (replacements.length > 0) {
+    sanitized.org_sanitized = true
+    sanitized.sanitized_reason = replacements[replacements.length - 1].reason
+  }
+
+  return {
+    inputs: sanitized,
+    findings,
+    flags: evaluation.matches.filter(match => match.action === 'flag'),
+    rejected: evaluation.rejected,
+    policyVersion: evaluation.policyVersion
+  }
+}
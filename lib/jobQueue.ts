@@ -0,0 +1,319 @@
+/**
+ * Generation Job Queue
+ * Decouples document generation from the Stripe webhook response with
+ * claimable jobs, attempt tracking, exponential backoff and dead-lettering
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead'
+
+export interface GenerationJob {
+  id: string
+  sessionId: string
+  traceId: string
+  serviceSlug: string
+  inputs: Record<string, any>
+  customerEmail?: string
+  version?: number
+  // 1 for the paid generation, +1 for each regeneration - picks the sampling settings
+  generationAttempt?: number
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  runAt: number
+  lockedUntil?: number
+  lastError?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface NewGenerationJob {
+  sessionId: string
+  traceId: string
+  serviceSlug: string
+  inputs: Record<string, any>
+  customerEmail?: string
+  version?: number
+  generationAttempt?: number
+  maxAttempts?: number
+}
+
+export interface JobQueue {
+  enqueue(job: NewGenerationJob): Promise<GenerationJob>
+  claim(now?: number): Promise<GenerationJob | null>
+  complete(jobId: string): Promise<void>
+  fail(jobId: string, error: string, now?: number): Promise<GenerationJob | null>
+  get(jobId: string): Promise<GenerationJob | null>
+  list(status?: JobStatus): Promise<GenerationJob[]>
+}
+
+// Queue tuning (overridable via env)
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10)
+const BACKOFF_BASE_MS = parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000', 10)
+const BACKOFF_MAX_MS = 5 * 60 * 1000
+const LOCK_DURATION_MS = 2 * 60 * 1000
+
+/**
+ * Generate job ID
+ */
+function generateJobId(): string {
+  return 'job_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 8)
+}
+
+/**
+ * Exponential backoff for the next attempt (5s, 10s, 20s... capped at 5 minutes)
+ */
+export function computeBackoff(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), BACKOFF_MAX_MS)
+}
+
+/**
+ * A queued job that is due, or a running job whose worker lock has expired
+ */
+function isClaimable(job: GenerationJob, now: number): boolean {
+  if (job.status === 'queued') return job.runAt <= now
+  if (job.status === 'running') return (job.lockedUntil || 0) <= now
+  return false
+}
+
+function buildJob(job: NewGenerationJob): GenerationJob {
+  const now = Date.now()
+  return {
+    id: generateJobId(),
+    sessionId: job.sessionId,
+    traceId: job.traceId,
+    serviceSlug: job.serviceSlug,
+    inputs: job.inputs,
+    customerEmail: job.customerEmail,
+    version: job.version,
+    generationAttempt: job.generationAttempt,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: job.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    runAt: now,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+function claimJob(job: GenerationJob, now: number): GenerationJob {
+  return {
+    ...job,
+    status: 'running',
+    attempts: job.attempts + 1,
+    lockedUntil: now + LOCK_DURATION_MS,
+    updatedAt: now
+  }
+}
+
+function failJob(job: GenerationJob, error: string, now: number): GenerationJob {
+  const exhausted = job.attempts >= job.maxAttempts
+  return {
+    ...job,
+    status: exhausted ? 'dead' : 'queued',
+    runAt: exhausted ? job.runAt : now + computeBackoff(job.attempts),
+    lockedUntil: undefined,
+    lastError: error,
+    updatedAt: now
+  }
+}
+
+/**
+ * File-backed queue - one JSON file per job, claims guarded by an exclusive lock file
+ */
+export function createFileJobQueue(baseDir: string): JobQueue {
+  const ensureDir = () => {
+    fs.mkdirSync(baseDir, { recursive: true })
+  }
+
+  const jobPath = (jobId: string) => path.join(baseDir, `${jobId}.json`)
+  const lockPath = (jobId: string) => path.join(baseDir, `${jobId}.lock`)
+
+  const read = (jobId: string): GenerationJob | null => {
+    try {
+      return JSON.parse(fs.readFileSync(jobPath(jobId), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  const write = (job: GenerationJob) => {
+    ensureDir()
+    const tmpPath = `${jobPath(job.id)}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(job, null, 2))
+    fs.renameSync(tmpPath, jobPath(job.id))
+  }
+
+  /**
+   * A lock file is only held for the length of a claim, so one older than
+   * LOCK_DURATION_MS was left by a crashed worker and can be cleared
+   */
+  const removeStaleLock = (jobId: string): boolean => {
+    try {
+      if (Date.now() - fs.statSync(lockPath(jobId)).mtimeMs < LOCK_DURATION_MS) return false
+      fs.unlinkSync(lockPath(jobId))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Exclusive create fails if another worker holds the lock - returns the lock's fd, or null
+   */
+  const acquireLock = (jobId: string): number | null => {
+    try {
+      return fs.openSync(lockPath(jobId), 'wx')
+    } catch {
+      if (!removeStaleLock(jobId)) return null
+    }
+
+    try {
+      return fs.openSync(lockPath(jobId), 'wx')
+    } catch {
+      return null
+    }
+  }
+
+  const readAll = (): GenerationJob[] => {
+    if (!fs.existsSync(baseDir)) return []
+    return fs.readdirSync(baseDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => read(file.replace(/\.json$/, '')))
+      .filter((job): job is GenerationJob => job !== null)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  return {
+    async enqueue(newJob) {
+      const job = buildJob(newJob)
+      write(job)
+      return job
+    },
+
+    async claim(now = Date.now()) {
+      for (const candidate of readAll()) {
+        if (!isClaimable(candidate, now)) continue
+
+        const fd = acquireLock(candidate.id)
+        if (fd === null) continue
+
+        try {
+          // Re-read under the lock - another worker may have claimed it first
+          const current = read(candidate.id)
+          if (!current || !isClaimable(current, now)) continue
+
+          const claimed = claimJob(current, now)
+          write(claimed)
+          return claimed
+        } finally {
+          fs.closeSync(fd)
+          fs.unlinkSync(lockPath(candidate.id))
+        }
+      }
+
+      return null
+    },
+
+    async complete(jobId) {
+      const job = read(jobId)
+      if (!job) return
+      write({ ...job, status: 'completed', lockedUntil: undefined, updatedAt: Date.now() })
+    },
+
+    async fail(jobId, error, now = Date.now()) {
+      const job = read(jobId)
+      if (!job) return null
+      const failed = failJob(job, error, now)
+      write(failed)
+      return failed
+    },
+
+    async get(jobId) {
+      return read(jobId)
+    },
+
+    async list(status) {
+      const jobs = readAll()
+      return status ? jobs.filter(job => job.status === status) : jobs
+    }
+  }
+}
+
+/**
+ * In-memory queue for tests and single-process development
+ */
+export function createInMemoryJobQueue(): JobQueue {
+  const jobs = new Map<string, GenerationJob>()
+
+  return {
+    async enqueue(newJob) {
+      const job = buildJob(newJob)
+      jobs.set(job.id, job)
+      return { ...job }
+    },
+
+    async claim(now = Date.now()) {
+      const candidate = Array.from(jobs.values())
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .find(job => isClaimable(job, now))
+      if (!candidate) return null
+
+      const claimed = claimJob(candidate, now)
+      jobs.set(claimed.id, claimed)
+      return { ...claimed }
+    },
+
+    async complete(jobId) {
+      const job = jobs.get(jobId)
+      if (!job) return
+      jobs.set(jobId, { ...job, status: 'completed', lockedUntil: undefined, updatedAt: Date.now() })
+    },
+
+    async fail(jobId, error, now = Date.now()) {
+      const job = jobs.get(jobId)
+      if (!job) return null
+      const failed = failJob(job, error, now)
+      jobs.set(jobId, failed)
+      return { ...failed }
+    },
+
+    async get(jobId) {
+      const job = jobs.get(jobId)
+      return job ? { ...job } : null
+    },
+
+    async list(status) {
+      const all = Array.from(jobs.values()).sort((a, b) => a.createdAt - b.createdAt)
+      return (status ? all.filter(job => job.status === status) : all).map(job => ({ ...job }))
+    }
+  }
+}
+
+let queue: JobQueue | null = null
+
+/**
+ * Get the configured job queue (JOB_QUEUE=memory|file)
+ */
+export function getJobQueue(): JobQueue {
+  if (!queue) {
+    if (process.env.JOB_QUEUE === 'memory') {
+      queue = createInMemoryJobQueue()
+    } else {
+      const baseDir = process.env.JOB_QUEUE_DIR || path.join(process.cwd(), '.data', 'jobs')
+      queue = createFileJobQueue(baseDir)
+    }
+  }
+
+  return queue
+}
+
+/**
+ * Override the job queue (tests, alternative backends)
+ */
+export function setJobQueue(jobQueue: JobQueue | null): void {
+  queue = jobQueue
+}
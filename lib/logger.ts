@@ -27,6 +27,7 @@ export enum GenerationStep {
   PROMPT_BUILT = 'PROMPT_BUILT',
   OPENAI_CALLED = 'OPENAI_CALLED',
   JSON_VALIDATED = 'JSON_VALIDATED',
+  OUTPUT_MODERATED = 'OUTPUT_MODERATED',
   PDF_RENDERED = 'PDF_RENDERED',
   PDF_STORED = 'PDF_STORED',
   GENERATION_COMPLETE = 'GENERATION_COMPLETE',
@@ -42,6 +43,10 @@ const logStore = new Map<string, LogEntry[]>()
 // Rolling log cleanup - keep last 1000 entries per session
 const MAX_LOG_ENTRIES_PER_SESSION = 1000
 
+// Listeners notified of every entry (e.g. the worker persisting generation steps)
+type LogListener = (entry: LogEntry) => void
+const logListeners = new Set<LogListener>()
+
 /**
  * Generate trace ID
  */
@@ -105,6 +110,15 @@ export function log(
   // Console output for development
   console.log(formatLogEntry(entry))
 
+  // Notify subscribers - a failing listener must never break logging
+  for (const listener of Array.from(logListeners)) {
+    try {
+      listener(entry)
+    } catch (error) {
+      console.error('Log listener failed:', error)
+    }
+  }
+
   // TODO: In production, send to CloudWatch, DataDog, or similar
 }
 
@@ -156,6 +170,16 @@ export const logger = {
     log(LogLevel.WARN, `Blocked item detected: ${reason}`, traceId, { detectedValue }, sessionId, serviceSlug, GenerationStep.BLACKLIST_HIT)
 }
 
+/**
+ * Subscribe to new log entries - returns an unsubscribe function
+ */
+export function subscribeToLogs(listener: LogListener): () => void {
+  logListeners.add(listener)
+  return () => {
+    logListeners.delete(listener)
+  }
+}
+
 /**
  * Get logs for a trace/session
  */
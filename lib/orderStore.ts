@@ -0,0 +1,158 @@
+/**
+ * Pending Orders - Checkout inputs kept server-side
+ * Stripe caps metadata values at 500 characters, so checkout stores the submission
+ * here and only the order ID travels through Stripe
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+export type OrderStatus = 'pending' | 'paid'
+
+export interface PendingOrder {
+  id: string
+  slug: string
+  inputs: Record<string, any>
+  accessKeyHash: string
+  status: OrderStatus
+  checkoutSessionId?: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface NewPendingOrder {
+  slug: string
+  inputs: Record<string, any>
+  accessKeyHash: string
+}
+
+export interface OrderStore {
+  create(order: NewPendingOrder): Promise<PendingOrder>
+  get(orderId: string): Promise<PendingOrder | null>
+  update(orderId: string, changes: Partial<Omit<PendingOrder, 'id'>>): Promise<PendingOrder | null>
+}
+
+const ORDER_ID = /^ord_[a-f0-9]{24}$/
+
+function generateOrderId(): string {
+  return 'ord_' + crypto.randomBytes(12).toString('hex')
+}
+
+/**
+ * Order IDs come back from Stripe metadata - never let a malformed one reach the filesystem
+ */
+export function isOrderId(value: unknown): value is string {
+  return typeof value === 'string' && ORDER_ID.test(value)
+}
+
+function buildOrder(order: NewPendingOrder): PendingOrder {
+  const now = Date.now()
+  return {
+    id: generateOrderId(),
+    slug: order.slug,
+    inputs: order.inputs,
+    accessKeyHash: order.accessKeyHash,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * File-backed store - one JSON file per order
+ */
+export function createFileOrderStore(baseDir: string): OrderStore {
+  const orderPath = (orderId: string) => path.join(baseDir, `${orderId}.json`)
+
+  const read = (orderId: string): PendingOrder | null => {
+    if (!isOrderId(orderId)) return null
+    try {
+      return JSON.parse(fs.readFileSync(orderPath(orderId), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  const write = (order: PendingOrder) => {
+    fs.mkdirSync(baseDir, { recursive: true })
+    const tmpPath = `${orderPath(order.id)}.${process.pid}.${Date.now()}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(order, null, 2))
+    fs.renameSync(tmpPath, orderPath(order.id))
+  }
+
+  return {
+    async create(newOrder) {
+      const order = buildOrder(newOrder)
+      write(order)
+      return order
+    },
+
+    async get(orderId) {
+      return read(orderId)
+    },
+
+    async update(orderId, changes) {
+      const existing = read(orderId)
+      if (!existing) return null
+
+      const updated: PendingOrder = { ...existing, ...changes, id: orderId, updatedAt: Date.now() }
+      write(updated)
+      return updated
+    }
+  }
+}
+
+/**
+ * In-memory store for tests and local experiments
+ */
+export function createInMemoryOrderStore(): OrderStore {
+  const orders = new Map<string, PendingOrder>()
+
+  return {
+    async create(newOrder) {
+      const order = buildOrder(newOrder)
+      orders.set(order.id, order)
+      return { ...order }
+    },
+
+    async get(orderId) {
+      const order = orders.get(orderId)
+      return order ? { ...order } : null
+    },
+
+    async update(orderId, changes) {
+      const existing = orders.get(orderId)
+      if (!existing) return null
+
+      const updated: PendingOrder = { ...existing, ...changes, id: orderId, updatedAt: Date.now() }
+      orders.set(orderId, updated)
+      return { ...updated }
+    }
+  }
+}
+
+let store: OrderStore | null = null
+
+/**
+ * Get the configured store (ORDER_STORE=memory|file)
+ */
+export function getOrderStore(): OrderStore {
+  if (!store) {
+    if (process.env.ORDER_STORE === 'memory') {
+      store = createInMemoryOrderStore()
+    } else {
+      store = createFileOrderStore(process.env.ORDER_STORE_DIR || path.join(process.cwd(), '.data', 'orders'))
+    }
+  }
+
+  return store
+}
+
+/**
+ * Override the store (tests, alternative backends)
+ */
+export function setOrderStore(orderStore: OrderStore | null): void {
+  store = orderStore
+}
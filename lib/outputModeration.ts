@@ -0,0 +1,78 @@
+/**
+ * Output Moderation - Applies the content policy to generated documents before rendering
+ * Real names are redacted in place; anything redaction can't fix (abuse, or a name
+ * spelled in a way the redaction missed) means the document has to be regenerated
+ */
+
+import { evaluateGeneratedText, PolicyMatch } from '@/lib/contentPolicy'
+import { documentToText, mapDocumentText, StructuredDocument } from '@/lib/documentModel'
+import { logger } from '@/lib/logger'
+
+// Fresh generations tried when moderation rejects the text (overridable via env)
+export const OUTPUT_MODERATION_REGENERATIONS = parseInt(process.env.OUTPUT_MODERATION_REGENERATIONS || '1', 10)
+
+export interface ModerationResult {
+  passed: boolean
+  // Generated document with redactions applied, and its plain-text rendering
+  document: StructuredDocument
+  text: string
+  redactions: PolicyMatch[]
+  violations: PolicyMatch[]
+  flags: PolicyMatch[]
+  policyVersion: string
+}
+
+function describeMatch(match: PolicyMatch): string {
+  return `generated text contains "${match.value}" (term "${match.term}") under rule ${match.ruleId}`
+}
+
+/**
+ * Moderate a generated document - every match is audited as a blacklist hit
+ */
+export function moderateOutput(slug: string, document: StructuredDocument, traceId: string, sessionId?: string): ModerationResult {
+  // Evaluate the document as a whole so each finding is audited once
+  const evaluation = evaluateGeneratedText(slug, documentToText(document))
+
+  for (const match of evaluation.matches) {
+    logger.blacklistHit(
+      match.value,
+      `${match.action} - ${describeMatch(match)} (policy ${evaluation.policyVersion})`,
+      traceId,
+      sessionId,
+      slug
+    )
+  }
+
+  // Redact text by text so the structure survives, then check the result again -
+  // anything still matching slipped past the redaction
+  const redacted = mapDocumentText(document, text => evaluateGeneratedText(slug, text).text)
+  const text = documentToText(redacted)
+  const unredacted = evaluateGeneratedText(slug, text).matches.filter(match => match.action === 'replace')
+  const unredactedTerms = unredacted.map(match => `${match.ruleId}:${match.term}`)
+
+  const violations = evaluation.matches
+    .filter(match => match.action === 'reject')
+    .concat(unredacted)
+
+  return {
+    passed: violations.length === 0,
+    document: redacted,
+    text,
+    redactions: evaluation.matches.filter(match => match.action === 'replace' && unredactedTerms.indexOf(`${match.ruleId}:${match.term}`) === -1),
+    violations,
+    flags: evaluation.matches.filter(match => match.action === 'flag'),
+    policyVersion: evaluation.policyVersion
+  }
+}
+
+/**
+ * One-line outcome for the generation log
+ */
+export function summarizeModeration(result: ModerationResult, regenerations: number): string {
+  const parts = [result.passed ? 'Output passed moderation' : 'Output failed moderation']
+  if (result.redactions.length > 0) parts.push(`${result.redactions.length} redacted`)
+  if (result.flags.length > 0) parts.push(`${result.flags.length} flagged`)
+  if (result.violations.length > 0) parts.push(`${result.violations.length} unresolved`)
+  if (regenerations > 0) parts.push(`after ${regenerations} regeneration${regenerations === 1 ? '' : 's'}`)
+  return `${parts.join(', ')} (policy ${result.policyVersion})`
+}
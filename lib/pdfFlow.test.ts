@@ -0,0 +1,133 @@
+import jsPDF from 'jspdf'
+import { describe, expect, it } from 'vitest'
+import { DocumentBlock, StructuredDocument } from '@/lib/documentModel'
+import { renderContent } from '@/lib/pdfFlow'
+import { layout, typography } from '@/lib/pdfLayout'
+
+// A4 body ends here - the footer sits below
+const A4_BOTTOM = 297 - layout.marginBottom - layout.footerPadding
+
+interface DrawnText {
+  page: number
+  text: string
+  y: number
+}
+
+/**
+ * jsPDF document that records every string drawn, with the page it landed on
+ */
+function recordingDoc(): { doc: jsPDF; drawn: DrawnText[] } {
+  const doc = new jsPDF()
+  const drawn: DrawnText[] = []
+  const target = doc as unknown as Record<string, (...args: unknown[]) => unknown>
+  const text = target.text.bind(doc)
+
+  target.text = (...args: unknown[]) => {
+    drawn.push({ page: doc.getCurrentPageInfo().pageNumber, text: String(args[0]), y: args[2] as number })
+    return text(...args)
+  }
+  return { doc, drawn }
+}
+
+/**
+ * Paragraph that wraps to exactly the given number of body lines
+ */
+function paragraphOfLines(doc: jsPDF, count: number): string {
+  doc.setFont('Helvetica', 'normal')
+  doc.setFontSize(typography.body.size)
+  const width = doc.internal.pageSize.width - layout.marginSides * 2
+  let text = 'Line'
+  let word = 0
+  while ((doc.splitTextToSize(text, width) as string[]).length <= count) {
+    text += ` word${word++}`
+  }
+  return text.slice(0, text.lastIndexOf(' '))
+}
+
+function render(blocks: (doc: jsPDF) => DocumentBlock[], startY: number): { drawn: DrawnText[]; pages: number } {
+  const { doc, drawn } = recordingDoc()
+  const content: StructuredDocument = {
+    title: 'Flow',
+    metadata: [],
+    sections: [{ heading: 'Heading Alone', blocks: blocks(doc) }]
+  }
+  renderContent(doc, content, startY, doc.internal.pageSize.width, doc.internal.pageSize.height)
+  return { drawn, pages: doc.getNumberOfPages() }
+}
+
+function pageOf(drawn: DrawnText[], text: string): number {
+  const found = drawn.find(entry => entry.text === text)
+  expect(found).toBeDefined()
+  return found!.page
+}
+
+function pagesOf(drawn: DrawnText[], prefix: string): number[] {
+  return drawn.filter(entry => entry.text.indexOf(prefix) === 0).map(entry => entry.page)
+}
+
+describe('renderContent headings', () => {
+  it('moves a heading with a paragraph too short to split', () => {
+    // Room for the heading and two lines - the third can't follow alone
+    const { drawn, pages } = render(doc => [{ type: 'paragraph', text: paragraphOfLines(doc, 3) }], 228)
+
+    expect(pages).toBe(2)
+    expect(pageOf(drawn, 'HEADING ALONE')).toBe(2)
+    expect(pagesOf(drawn, 'Line')).toEqual([2])
+    expect(drawn.filter(entry => entry.page === 2 && entry.text.indexOf('word') >= 0)).toHaveLength(3)
+  })
+
+  it('keeps a heading on the page when the paragraph can leave enough lines under it', () => {
+    const { drawn } = render(doc => [{ type: 'paragraph', text: paragraphOfLines(doc, 6) }], 228)
+    const linesOnFirstPage = drawn.filter(entry => entry.page === 1 && entry.text.indexOf('word') >= 0)
+
+    expect(pageOf(drawn, 'HEADING ALONE')).toBe(1)
+    expect(linesOnFirstPage.length).toBeGreaterThanOrEqual(2)
+    expect(6 - linesOnFirstPage.length).toBeGreaterThanOrEqual(2)
+  })
+
+  it('starts at the top of a fresh page without breaking', () => {
+    const { pages } = render(doc => [{ type: 'paragraph', text: paragraphOfLines(doc, 3) }], layout.marginTop)
+    expect(pages).toBe(1)
+  })
+})
+
+describe('renderContent paragraphs', () => {
+  it('carries at least two lines onto the next page', () => {
+    // Eight lines, with room for seven under the heading
+    const heading = typography.sectionHeader.spacingBefore + typography.sectionHeader.spacingAfter
+    const startY = A4_BOTTOM - heading - 7 * typography.body.lineHeight * 4 - 1
+    const { drawn } = render(doc => [{ type: 'paragraph', text: paragraphOfLines(doc, 8) }], startY)
+    const lines = drawn.filter(entry => entry.text.indexOf('word') >= 0)
+
+    expect(lines.filter(entry => entry.page === 2).length).toBeGreaterThanOrEqual(2)
+    lines.forEach(entry => expect(entry.y).toBeLessThanOrEqual(A4_BOTTOM))
+  })
+})
+
+describe('renderContent tables', () => {
+  const rows = (count: number) => Array.from({ length: count }, (_, index) => [`Row ${index}`, 'Value'])
+
+  it('moves a table that fits on a page to the next page whole', () => {
+    const { drawn } = render(() => [{ type: 'table', columns: ['Item', 'Detail'], rows: rows(6) }], 200)
+
+    expect(pageOf(drawn, 'HEADING ALONE')).toBe(2)
+    expect(pagesOf(drawn, 'Row ')).toEqual([2, 2, 2, 2, 2, 2])
+  })
+
+  it('repeats the header row on every page of a long table', () => {
+    const { drawn, pages } = render(() => [{ type: 'table', columns: ['Item', 'Detail'], rows: rows(80) }], layout.marginTop)
+
+    expect(pages).toBeGreaterThan(1)
+    expect(pagesOf(drawn, 'Item')).toEqual(Array.from({ length: pages }, (_, index) => index + 1))
+    expect(pagesOf(drawn, 'Row ')).toHaveLength(80)
+  })
+})
+
+describe('renderContent key/value groups', () => {
+  it('keeps a group together on the next page', () => {
+    const entries = Array.from({ length: 5 }, (_, index) => ({ label: `Label ${index}`, value: 'Value' }))
+    const { drawn } = render(() => [{ type: 'keyValue', entries }], 230)
+
+    expect(pagesOf(drawn, 'Label ')).toEqual([2, 2, 2, 2, 2])
+  })
+})
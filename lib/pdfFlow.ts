@@ -0,0 +1,450 @@
+/**
+ * PDF Flow - Measures document blocks, then paginates them
+ * Every block is split into rows and measured before anything is drawn, so page breaks
+ * are chosen with the whole block in view: headings stay with what follows, paragraphs
+ * keep at least two lines either side of a break, and key/value groups, tables and
+ * signatures move to the next page whole unless they are taller than a page
+ */
+
+import jsPDF from 'jspdf'
+import {
+  BulletListBlock,
+  DocumentBlock,
+  DocumentEntry,
+  SignatureBlock,
+  StructuredDocument,
+  TableBlock
+} from '@/lib/documentModel'
+import { INK, layout, typography } from '@/lib/pdfLayout'
+
+// Fewest paragraph lines left at the foot of a page (orphans) and carried onto the next (widows)
+const ORPHAN_LINES = 2
+const WIDOW_LINES = 2
+
+// Baseline-to-baseline distance of body text in mm - layout units are mm throughout
+const LINE_HEIGHT = typography.body.lineHeight * 4
+
+/**
+ * Part of a block that is never split - drawn from y, advancing by height
+ */
+interface FlowRow {
+  height: number
+  draw(y: number): void
+}
+
+/**
+ * A measured block and the rules for breaking it across pages
+ */
+interface FlowBlock {
+  rows: FlowRow[]
+  // Drawn again at the top of each page the block continues onto (table headers)
+  header?: FlowRow
+  // Moved to the next page whole unless it is taller than a page
+  keepTogether: boolean
+  // Fewest rows either side of a page break
+  minFirst: number
+  minLast: number
+  // Never the last thing on a page (section headings)
+  keepWithNext: boolean
+  spacingAfter: number
+}
+
+/**
+ * How a template styles the body - headings always take the heading colour
+ */
+export interface FlowStyle {
+  heading: string
+  // Rule under each section heading
+  headingRule?: boolean
+  // Table header rows filled with the heading colour, body rows striped
+  accentTables?: boolean
+}
+
+/**
+ * Render every section - measure all blocks, then lay them out page by page
+ */
+export function renderContent(
+  doc: jsPDF,
+  content: StructuredDocument,
+  startY: number,
+  pageWidth: number,
+  pageHeight: number,
+  style: FlowStyle = { heading: INK }
+): number {
+  const blocks: FlowBlock[] = []
+
+  for (const section of content.sections) {
+    blocks.push(measureSectionHeader(doc, section.heading, style, pageWidth))
+    section.blocks.forEach(block => blocks.push(measureBlock(doc, block, pageWidth, style)))
+  }
+
+  return flowBlocks(doc, blocks, startY, pageHeight)
+}
+
+/**
+ * Draw label/value pairs as one block - kept on a single page where possible
+ */
+export function drawKeyValues(doc: jsPDF, entries: DocumentEntry[], yPos: number, pageWidth: number, pageHeight: number): number {
+  const block = measureKeyValues(doc, entries, pageWidth)
+  block.spacingAfter = 0
+  return flowBlocks(doc, [block], yPos, pageHeight)
+}
+
+/**
+ * Draw label/value pairs in a shaded, bordered box under a heading - kept on one page
+ */
+export function drawPanel(
+  doc: jsPDF,
+  heading: string,
+  entries: DocumentEntry[],
+  yPos: number,
+  pageWidth: number,
+  pageHeight: number,
+  color: string
+): number {
+  const padding = 5
+  const inner = measureKeyValues(doc, entries, pageWidth - padding * 2, layout.marginSides + padding)
+  const height = padding * 2 + 6 + sumHeights(inner.rows)
+
+  return drawFixedBlock(doc, height, y => {
+    doc.setFillColor(248, 249, 250)
+    doc.setDrawColor(color)
+    doc.rect(layout.marginSides - padding, y, pageWidth - layout.marginSides * 2 + padding * 2, height, 'FD')
+
+    doc.setFont('Helvetica', 'bold')
+    doc.setFontSize(typography.sectionHeader.size)
+    doc.setTextColor(color)
+    doc.text(heading.toUpperCase(), layout.marginSides, y + padding + 3)
+    doc.setTextColor(INK)
+
+    let rowY = y + padding + 6 + LINE_HEIGHT
+    inner.rows.forEach(row => {
+      row.draw(rowY)
+      rowY += row.height
+    })
+  }, yPos, pageHeight)
+}
+
+/**
+ * Draw something of a fixed height that must not be split, on the next page if it doesn't fit
+ */
+export function drawFixedBlock(doc: jsPDF, height: number, draw: (y: number) => void, yPos: number, pageHeight: number): number {
+  return flowBlocks(doc, [{
+    rows: [{ height, draw }],
+    keepTogether: true,
+    minFirst: 1,
+    minLast: 1,
+    keepWithNext: false,
+    spacingAfter: 0
+  }], yPos, pageHeight)
+}
+
+/**
+ * Paginate measured blocks from startY, returning where the last one ends
+ */
+function flowBlocks(doc: jsPDF, blocks: FlowBlock[], startY: number, pageHeight: number): number {
+  const top = layout.marginTop
+  const bottom = pageHeight - layout.marginBottom - layout.footerPadding
+  const pageBody = bottom - top
+  let yPos = startY
+  // Height of keep-with-next blocks just placed on this page - what follows must not leave them alone
+  let pinned = 0
+
+  const newPage = () => {
+    doc.addPage()
+    yPos = top
+    pinned = 0
+  }
+
+  // What has to fit under a heading: the next block whole if it can be kept together, else the
+  // fewest first rows the split below would accept - a block too short to leave minFirst rows
+  // here and minLast on the next page can't be split at all, so it needs every row
+  const leadHeight = (index: number, available: number): number => {
+    const block = blocks[index]
+    if (!block) return 0
+    const total = blockHeight(block)
+    if (block.keepWithNext) return total + leadHeight(index + 1, available - total)
+    if (block.keepTogether && total <= available) return total
+    if (block.rows.length < block.minFirst + block.minLast) return total
+    return (block.header ? block.header.height : 0) + sumHeights(block.rows.slice(0, block.minFirst))
+  }
+
+  blocks.forEach((block, index) => {
+    if (block.rows.length === 0) return
+    const total = blockHeight(block)
+
+    if (block.keepWithNext) {
+      if (yPos > top && yPos + total + leadHeight(index + 1, pageBody - total) > bottom) {
+        newPage()
+      }
+    } else if (block.keepTogether && pinned === 0 && yPos > top && yPos + total > bottom && total <= pageBody) {
+      newPage()
+    }
+
+    let start = 0
+    while (start < block.rows.length) {
+      const remaining = block.rows.length - start
+      let used = block.header ? block.header.height : 0
+      let fit = 0
+      while (fit < remaining && yPos + used + block.rows[start + fit].height <= bottom) {
+        used += block.rows[start + fit].height
+        fit++
+      }
+
+      if (fit < remaining) {
+        fit = Math.min(fit, remaining - block.minLast)
+        if (fit < Math.min(block.minFirst, remaining) && yPos > top) {
+          newPage()
+          continue
+        }
+        // A row taller than a whole page still has to go somewhere
+        fit = Math.max(fit, 1)
+      }
+
+      if (block.header) {
+        block.header.draw(yPos)
+        yPos += block.header.height
+      }
+      block.rows.slice(start, start + fit).forEach(row => {
+        row.draw(yPos)
+        yPos += row.height
+      })
+      start += fit
+
+      if (start < block.rows.length) newPage()
+    }
+
+    pinned = block.keepWithNext ? pinned + total : 0
+    yPos += block.spacingAfter
+  })
+
+  return yPos
+}
+
+function sumHeights(rows: FlowRow[]): number {
+  return rows.reduce((sum, row) => sum + row.height, 0)
+}
+
+function blockHeight(block: FlowBlock): number {
+  return (block.header ? block.header.height : 0) + sumHeights(block.rows)
+}
+
+/**
+ * Measure a single block by type
+ */
+function measureBlock(doc: jsPDF, block: DocumentBlock, pageWidth: number, style: FlowStyle): FlowBlock {
+  switch (block.type) {
+    case 'paragraph':
+      return measureParagraph(doc, block.text, pageWidth)
+    case 'bullets':
+      return measureBulletList(doc, block, pageWidth)
+    case 'table':
+      return measureTable(doc, block, pageWidth, style)
+    case 'keyValue':
+      return measureKeyValues(doc, block.entries, pageWidth)
+    case 'signature':
+      return measureSignature(doc, block)
+  }
+}
+
+/**
+ * Section header - 11pt bold uppercase in the document's heading colour, optionally ruled off
+ */
+function measureSectionHeader(doc: jsPDF, title: string, style: FlowStyle, pageWidth: number): FlowBlock {
+  return {
+    rows: [{
+      height: typography.sectionHeader.spacingBefore + typography.sectionHeader.spacingAfter,
+      draw: y => {
+        const baseline = y + typography.sectionHeader.spacingBefore
+        doc.setFont('Helvetica', 'bold')
+        doc.setFontSize(typography.sectionHeader.size)
+        doc.setTextColor(style.heading)
+        doc.text(title.toUpperCase(), layout.marginSides, baseline)
+        doc.setTextColor(INK)
+        if (style.headingRule) {
+          doc.setDrawColor(style.heading)
+          doc.line(layout.marginSides, baseline + 2, pageWidth - layout.marginSides, baseline + 2)
+        }
+      }
+    }],
+    keepTogether: true,
+    minFirst: 1,
+    minLast: 1,
+    keepWithNext: true,
+    spacingAfter: 0
+  }
+}
+
+/**
+ * Paragraph - one row per line, justified except the last
+ */
+function measureParagraph(doc: jsPDF, text: string, pageWidth: number): FlowBlock {
+  const maxW = pageWidth - layout.marginSides * 2
+  doc.setFont('Helvetica', 'normal')
+  doc.setFontSize(typography.body.size)
+  const lines: string[] = text ? doc.splitTextToSize(text, maxW) : []
+
+  return {
+    rows: lines.map((line, index) => ({
+      height: LINE_HEIGHT,
+      draw: (y: number) => {
+        doc.setFont('Helvetica', 'normal')
+        doc.setFontSize(typography.body.size)
+        // jsPDF stretches the last line of a justified paragraph too, so leave it ragged
+        doc.text(line, layout.marginSides, y, index < lines.length - 1 ? { align: 'justify', maxWidth: maxW } : undefined)
+      }
+    })),
+    keepTogether: false,
+    minFirst: ORPHAN_LINES,
+    minLast: WIDOW_LINES,
+    keepWithNext: false,
+    spacingAfter: layout.blockSpacing
+  }
+}
+
+/**
+ * Bullet list - one row per item, with a hanging indent
+ */
+function measureBulletList(doc: jsPDF, block: BulletListBlock, pageWidth: number): FlowBlock {
+  const maxW = pageWidth - layout.marginSides * 2 - layout.bulletIndent
+  doc.setFont('Helvetica', 'normal')
+  doc.setFontSize(typography.body.size)
+
+  return {
+    rows: block.items.filter(Boolean).map(item => {
+      const lines: string[] = doc.splitTextToSize(item, maxW)
+      return {
+        height: lines.length * LINE_HEIGHT + 1,
+        draw: (y: number) => {
+          doc.setFont('Helvetica', 'normal')
+          doc.setFontSize(typography.body.size)
+          doc.text('•', layout.marginSides + 1, y)
+          lines.forEach((line, index) => doc.text(line, layout.marginSides + layout.bulletIndent, y + index * LINE_HEIGHT))
+        }
+      }
+    }),
+    keepTogether: false,
+    minFirst: 1,
+    minLast: 1,
+    keepWithNext: false,
+    spacingAfter: layout.blockSpacing
+  }
+}
+
+/**
+ * Table - equal-width columns, wrapped cells, bold header row repeated on each page.
+ * Accent tables fill the header with the heading colour and stripe the body rows
+ */
+function measureTable(doc: jsPDF, block: TableBlock, pageWidth: number, style: FlowStyle): FlowBlock {
+  const tableWidth = pageWidth - layout.marginSides * 2
+  const columnWidth = tableWidth / block.columns.length
+  const padding = typography.table.cellPadding
+
+  const measureRow = (cells: string[], bold: boolean, striped: boolean = false): FlowRow => {
+    doc.setFont('Helvetica', bold ? 'bold' : 'normal')
+    doc.setFontSize(typography.table.size)
+    const wrapped = block.columns.map((_, column) => doc.splitTextToSize(cells[column] || '', columnWidth - padding * 2) as string[])
+    const lineCount = Math.max(1, ...wrapped.map(lines => lines.length))
+    const height = lineCount * typography.table.lineHeight + padding * 2
+
+    return {
+      height,
+      draw: y => {
+        doc.setFont('Helvetica', bold ? 'bold' : 'normal')
+        doc.setFontSize(typography.table.size)
+        if (bold) {
+          doc.setFillColor(style.accentTables ? style.heading : '#ebebeb')
+          doc.rect(layout.marginSides, y, tableWidth, height, 'F')
+        } else if (striped) {
+          doc.setFillColor(248, 249, 250)
+          doc.rect(layout.marginSides, y, tableWidth, height, 'F')
+        }
+        doc.setDrawColor(style.accentTables ? 209 : 180)
+        doc.setTextColor(bold && style.accentTables ? '#ffffff' : INK)
+        wrapped.forEach((lines, column) => {
+          const x = layout.marginSides + column * columnWidth
+          doc.rect(x, y, columnWidth, height)
+          lines.forEach((line, index) => {
+            doc.text(line, x + padding, y + padding + typography.table.lineHeight * (index + 0.75))
+          })
+        })
+        doc.setTextColor(INK)
+      }
+    }
+  }
+
+  return {
+    header: measureRow(block.columns, true),
+    rows: block.rows.map((cells, index) => measureRow(cells, false, style.accentTables && index % 2 === 1)),
+    keepTogether: true,
+    minFirst: 1,
+    minLast: 1,
+    keepWithNext: false,
+    spacingAfter: 2 + layout.blockSpacing
+  }
+}
+
+/**
+ * Label/value pairs - bold labels in a left column, wrapped values beside them
+ */
+function measureKeyValues(doc: jsPDF, entries: DocumentEntry[], pageWidth: number, x: number = layout.marginSides): FlowBlock {
+  const textWidth = pageWidth - layout.marginSides * 2
+  const labelWidth = textWidth * layout.labelWidth
+  doc.setFontSize(typography.body.size)
+
+  return {
+    rows: entries.filter(entry => entry.label || entry.value).map(entry => {
+      doc.setFont('Helvetica', 'bold')
+      const labelLines: string[] = doc.splitTextToSize(entry.label, labelWidth - 3)
+      doc.setFont('Helvetica', 'normal')
+      const valueLines: string[] = doc.splitTextToSize(entry.value || '-', textWidth - labelWidth)
+
+      return {
+        height: Math.max(labelLines.length, valueLines.length) * LINE_HEIGHT,
+        draw: (y: number) => {
+          doc.setFontSize(typography.body.size)
+          doc.setFont('Helvetica', 'bold')
+          labelLines.forEach((line, index) => doc.text(line, x, y + index * LINE_HEIGHT))
+          doc.setFont('Helvetica', 'normal')
+          valueLines.forEach((line, index) => doc.text(line, x + labelWidth, y + index * LINE_HEIGHT))
+        }
+      }
+    }),
+    keepTogether: true,
+    minFirst: 1,
+    minLast: 1,
+    keepWithNext: false,
+    spacingAfter: layout.blockSpacing
+  }
+}
+
+/**
+ * Signature - a line to sign on, then name, role and date
+ */
+function measureSignature(doc: jsPDF, block: SignatureBlock): FlowBlock {
+  const lines = [block.role, block.date].filter(Boolean) as string[]
+
+  return {
+    rows: [{
+      height: 22 + lines.length * 5,
+      draw: y => {
+        y += 12
+        doc.setDrawColor(120)
+        doc.line(layout.marginSides, y, layout.marginSides + layout.signatureWidth, y)
+        y += 5
+
+        doc.setFont('Helvetica', 'bold')
+        doc.setFontSize(typography.body.size)
+        doc.text(block.name, layout.marginSides, y)
+
+        doc.setFont('Helvetica', 'normal')
+        lines.forEach((line, index) => doc.text(line, layout.marginSides, y + (index + 1) * 5))
+      }
+    }],
+    keepTogether: true,
+    minFirst: 1,
+    minLast: 1,
+    keepWithNext: false,
+    spacingAfter: layout.blockSpacing
+  }
+}
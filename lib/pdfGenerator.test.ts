@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { documentToText, validateDocument } from '@/lib/documentModel'
+import { DocumentProvenance, PROVENANCE_NAMESPACE, VERIFY_URL } from '@/lib/documentProvenance'
+import { getFixtureResponse, listFixtureServices } from '@/lib/fixtures'
+import { renderServiceToPdf } from '@/lib/pdfGenerator'
+import { extractBasicFields } from '@/lib/promptBuilder'
+import { extractProvenanceCode } from '@/lib/provenanceStore'
+import { getService } from '@/lib/services'
+
+// Pages each service's fixture lays out to - a change here is a layout change
+const EXPECTED_PAGES: Record<string, number> = {
+  'college-degree': 2,
+  'credit-score': 2,
+  'criminal-record': 2,
+  'fbi-file': 2,
+  'job-rejection': 1,
+  'nsa-surveillance': 2,
+  'payslip': 2,
+  'rent-reference': 2,
+  'school-behaviour': 2,
+  'universal-credit': 2
+}
+
+const PROVENANCE_CODE = 'ISV-7K2M-QX9D'
+
+function fixtureDocument(slug: string) {
+  const validation = validateDocument(JSON.parse(getFixtureResponse(slug)!))
+  expect(validation.valid).toBe(true)
+  return validation.document!
+}
+
+function provenanceFor(slug: string): DocumentProvenance {
+  return {
+    reference: 'IS-0123456789AB',
+    code: PROVENANCE_CODE,
+    serviceSlug: slug,
+    version: 2,
+    generatedAt: Date.UTC(2024, 0, 15, 9, 30)
+  }
+}
+
+function countPages(pdf: string): number {
+  return (pdf.match(/\/Type \/Page\b(?!s)/g) || []).length
+}
+
+function countOccurrences(pdf: string, text: string): number {
+  return pdf.split(text).length - 1
+}
+
+function xmpProvenance(pdf: string): Record<string, unknown> {
+  const match = pdf.match(/<jspdf:metadata>([\s\S]*?)<\/jspdf:metadata>/)
+  expect(match).not.toBeNull()
+  return JSON.parse(match![1])
+}
+
+describe('renderServiceToPdf fixtures', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  it('has a fixture for every expected service', () => {
+    expect(listFixtureServices()).toEqual(Object.keys(EXPECTED_PAGES).sort())
+  })
+
+  it.each(listFixtureServices())('renders the %s fixture', async slug => {
+    const content = fixtureDocument(slug)
+    const buffer = await renderServiceToPdf(
+      slug,
+      { content, metadata: extractBasicFields(documentToText(content)) },
+      undefined,
+      undefined,
+      [],
+      provenanceFor(slug)
+    )
+    const pdf = buffer.toString('latin1')
+
+    expect(pdf.startsWith('%PDF-')).toBe(true)
+
+    // Page count, with a numbered footer on every page
+    const pages = countPages(pdf)
+    expect(pages).toBe(EXPECTED_PAGES[slug])
+    for (let page = 1; page <= pages; page++) {
+      expect(pdf).toContain(`(Page ${page} of ${pages})`)
+    }
+
+    // Verify-code line in the footer of every page
+    expect(countOccurrences(pdf, `(Verify this novelty document at ${VERIFY_URL} with code ${PROVENANCE_CODE})`)).toBe(pages)
+    expect(extractProvenanceCode(buffer)).toBe(PROVENANCE_CODE)
+
+    // Info dictionary
+    expect(pdf).toContain(`/Title (${getService(slug)!.name} \\(Novelty Document\\))`)
+    expect(pdf).toContain('/Subject (Novelty document - not a real document. Reference IS-0123456789AB)')
+    expect(pdf).toContain(`/Keywords (novelty, not a real document, https://internetstreets.uk, IS-0123456789AB, ${PROVENANCE_CODE})`)
+    expect(pdf).toContain("/CreationDate (D:20240115093000-00'00')")
+
+    // XMP provenance record
+    expect(pdf).toContain(`xmlns:jspdf="${PROVENANCE_NAMESPACE}"`)
+    expect(xmpProvenance(pdf)).toMatchObject({
+      novelty: true,
+      reference: 'IS-0123456789AB',
+      provenanceCode: PROVENANCE_CODE,
+      version: 2,
+      service: slug,
+      generatedAt: '2024-01-15T09:30:00.000Z'
+    })
+  })
+})
@@ -3,58 +3,43 @@
  * Refined typography and layout for realism and polish
  */
 
-import jsPDF from 'jspdf'
+import jsPDF, { GState } from 'jspdf'
 import { GeneratedBrand } from '@/lib/brand'
-import { SanitizedInputs } from '@/lib/promptBuilder'
-import { cleanAndStructureFBI, cleanGeneric, generateCaseRef, loadImageBase64, sanitizeSingleLine, FBIInputs } from '@/lib/textClean'
+import { LogoAsset, resolveServiceLogo } from '@/lib/assetResolver'
+import {
+  buildDocumentProperties,
+  buildProvenanceRecord,
+  DocumentProvenance,
+  FOOTER_DISCLAIMER,
+  PROVENANCE_NAMESPACE,
+  unreferencedProvenance,
+  VERIFY_URL,
+  WATERMARK_TEXT
+} from '@/lib/documentProvenance'
+import { SanitizedInputs } from '@/lib/inputScreening'
+import { UploadedImage } from '@/lib/uploadStore'
+import { cleanDocument } from '@/lib/textClean'
+import { StructuredDocument } from '@/lib/documentModel'
+import {
+  createTemplateEnvironment,
+  documentColors,
+  DocumentMetadata,
+  templateFlowStyle,
+  templateMicrotext,
+  templateReference
+} from '@/lib/documentTemplates'
+import { getTemplate } from '@/lib/templateRegistry'
+import { layout, typography } from '@/lib/pdfLayout'
+import { drawKeyValues, renderContent } from '@/lib/pdfFlow'
+import { drawSvg } from '@/lib/svgDrawing'
 
-export interface PlainTextDocument {
-  text: string
-  metadata?: {
-    name?: string
-    dob?: string
-    city?: string
-    companyName?: string
-    [key: string]: string | undefined
-  }
-}
-
-/**
- * Logo mapping for all services - Absolute URLs
- */
-const logoMap: Record<string, string> = {
-  'fbi-file': 'https://internetstreets.uk/assets/logos/fbi-file.png',
-  'nsa-surveillance': 'https://internetstreets.uk/assets/logos/nsa-surveillance.png',
-  'criminal-record': 'https://internetstreets.uk/assets/logos/criminal-record.png',
-  'universal-credit': 'https://internetstreets.uk/assets/logos/universal-credit.png',
-  'payslip': 'https://internetstreets.uk/assets/logos/payslip.png',
-  'credit-score': 'https://internetstreets.uk/assets/logos/credit-score.png',
-  'job-rejection': 'https://internetstreets.uk/assets/logos/job-rejection.png',
-  'rent-reference': 'https://internetstreets.uk/assets/logos/rent-reference.png',
-  'school-behaviour': 'https://internetstreets.uk/assets/logos/school-behaviour.png',
-  'college-degree': 'https://internetstreets.uk/assets/logos/college-degree.png'
-}
-
-/**
- * Typographic System
- */
-const typography = {
-  title: { size: 14, weight: 'bold' as const, align: 'center' as const },
-  sectionHeader: { size: 11, weight: 'bold' as const, spacingBefore: 10, spacingAfter: 4 },
-  body: { size: 10, weight: 'normal' as const, lineHeight: 1.3, align: 'justify' as const },
-  monospace: { size: 9, weight: 'normal' as const, font: 'Courier' as const },
-  footer: { size: 9, weight: 'normal' as const }
-}
+// Logos are fitted into this box, top-right of the first page (mm)
+const LOGO_BOX = { width: 40, height: 30 }
 
-/**
- * Page Layout
- */
-const layout = {
-  marginTop: 25,    // 25mm top
-  marginSides: 20,  // 20mm sides
-  marginBottom: 25, // 25mm bottom
-  sectionSpacing: 10, // 10px before new section
-  footerPadding: 15   // 15px from bottom
+export interface GeneratedDocument {
+  content: StructuredDocument
+  // Fields extracted from the document's text (the FBI subject block)
+  metadata?: DocumentMetadata
 }
 
 /**
@@ -62,12 +47,14 @@ const layout = {
  */
 export async function renderServiceToPdf(
   slug: string, 
-  document: PlainTextDocument, 
+  document: GeneratedDocument, 
   brand?: GeneratedBrand,
-  sanitizedInputs?: SanitizedInputs
+  sanitizedInputs?: SanitizedInputs,
+  images: UploadedImage[] = [],
+  provenance?: DocumentProvenance
 ): Promise<Buffer> {
   console.log(`📄 Starting PDF generation for service: ${slug}`)
-  console.log(`📊 Document text length: ${document.text.length} characters`)
+  console.log(`📊 Document sections: ${document.content.sections.length}`)
   
   const doc = new jsPDF()
   
@@ -76,62 +63,67 @@ export async function renderServiceToPdf(
   
   console.log(`📐 Page dimensions: ${pageWidth}x${pageHeight}`)
   
-  // Clean and structure text based on service type
-  let cleanedText: string
-  let inputs: FBIInputs | null = null
+  // The service's template owns the header and accent colour
+  const template = getTemplate(slug)
+  console.log(`🧩 Using ${template.slug} template for ${slug}`)
+
+  // Tidy every string in the document - the structure itself is already validated
+  const content = template.prepare(cleanDocument(document.content, slug), document.metadata)
+  console.log(`🧹 Cleaned document: ${content.sections.length} sections`)
   
-  if (slug === 'fbi-file' && document.metadata) {
-    console.log(`🔍 Processing FBI file with metadata:`, document.metadata)
-    // FBI-specific cleaning with inputs
-    inputs = {
-      fullName: sanitizeSingleLine(document.metadata.name),
-      dateOfBirth: sanitizeSingleLine(document.metadata.dob),
-      city: sanitizeSingleLine(document.metadata.city),
-      occupation: sanitizeSingleLine(document.metadata.companyName)
-    }
-    const result = cleanAndStructureFBI(document.text, inputs)
-    cleanedText = result.body
-    console.log(`🧹 Cleaned FBI text length: ${cleanedText.length} characters`)
-  } else {
-    console.log(`🔍 Processing generic service: ${slug}`)
-    // Generic cleaning for other services
-    cleanedText = cleanGeneric(document.text)
-    console.log(`🧹 Cleaned generic text length: ${cleanedText.length} characters`)
+  // Brand colours for headings and rules, falling back to the template's accent
+  const colors = documentColors(template, brand)
+
+  // Dates and made-up references come from the provenance, so a version always renders the same
+  const documentProvenance = provenance || unreferencedProvenance(slug)
+  const environment = createTemplateEnvironment(documentProvenance.reference, documentProvenance.generatedAt)
+  const reference = templateReference(template, environment)
+  const context = { doc, slug, content, metadata: document.metadata, brand, environment, reference, pageWidth, pageHeight }
+
+  // Service logo (first page only) - positioned first
+  const logo = resolveServiceLogo(slug, brand)
+  if (logo) {
+    console.log(`🖼️ Adding ${logo.type === 'image' ? logo.image.path : `${logo.brand.text} brand`} for service: ${slug}`)
+    addLogoFirstPage(doc, logo, pageWidth)
+  }
+
+  // Customer photo (first page only) - opposite the logo
+  if (images.length > 0) {
+    console.log(`🖼️ Adding ${images[0].label} to first page`)
+    addPhotoFirstPage(doc, images[0])
   }
-  
-  // Normalize line breaks before rendering
-  cleanedText = cleanedText.replace(/\n{3,}/g, '\n\n')
-  console.log(`📝 Final text length after normalization: ${cleanedText.length} characters`)
-  
-  // Add service logo (first page only) - positioned first
-  console.log(`🖼️ Adding logo for service: ${slug}`)
-  await addLogoFirstPage(doc, slug, pageWidth)
   
   // Start content below logo - adjust Y position to be below logo
   let yPos = layout.marginTop + 60 // Increased from 15 to 60 to clear logo
   
-  // Add document header based on service type
-  if (slug === 'fbi-file' && inputs) {
-    console.log(`📋 Adding FBI header with subject block`)
-    yPos = addFBIHeader(doc, inputs, pageWidth, yPos)
-  } else {
-    console.log(`📋 Adding generic header for ${slug}`)
-    yPos = addGenericHeader(doc, slug, pageWidth, yPos)
-  }
+  // Add document header from the template
+  console.log(`📋 Adding ${template.slug} header`)
+  yPos = template.renderHeader(context, yPos)
   
   // Add visual separation line under title
-  doc.setDrawColor(210)
+  doc.setDrawColor(colors.rule)
   doc.line(layout.marginSides, yPos - 5, pageWidth - layout.marginSides, yPos - 5)
   yPos += 10
+
+  // Reference numbers and dates from the document, under the title
+  if (content.metadata.length > 0) {
+    yPos = drawKeyValues(doc, content.metadata, yPos, pageWidth, pageHeight) + layout.blockSpacing
+  }
   
-  // Render main content with proper paragraph handling
+  // Render sections block by block
   console.log(`📝 Rendering content starting at Y position: ${yPos}`)
-  yPos = renderContent(doc, cleanedText, yPos, pageWidth, pageHeight)
+  yPos = renderContent(doc, content, yPos, pageWidth, pageHeight, templateFlowStyle(template, brand))
+  yPos = template.renderClosing(context, yPos + layout.blockSpacing)
   console.log(`📝 Content rendering completed at Y position: ${yPos}`)
   
   // Add professional footer to all pages (AFTER content is laid out)
   console.log(`📄 Adding footer to all pages`)
-  renderFooter(doc, pageWidth, pageHeight)
+  renderFooter(doc, pageWidth, pageHeight, environment.now, provenance?.code, templateMicrotext(template, reference, environment))
+
+  // Novelty watermark over every page, then the provenance record
+  console.log(`🏷️ Adding novelty watermark and provenance metadata`)
+  renderWatermark(doc, pageWidth, pageHeight)
+  applyDocumentMetadata(doc, documentProvenance)
   
   // Return PDF buffer (compression handled by jsPDF internally)
   const pdfBuffer = Buffer.from(doc.output('arraybuffer'))
@@ -141,279 +133,70 @@ export async function renderServiceToPdf(
 }
 
 /**
- * Add FBI-specific header with trusted subject block
- */
-function addFBIHeader(doc: jsPDF, inputs: FBIInputs, pageWidth: number, yPos: number): number {
-  // Title - 14pt bold uppercase, centered
-  doc.setFont('Helvetica', 'bold')
-  doc.setFontSize(typography.title.size)
-  doc.text('FEDERAL BUREAU OF INVESTIGATION — INTELLIGENCE DOSSIER', pageWidth / 2, yPos, { align: 'center' })
-  yPos += 15
-  
-  // Case ref and date - 10pt normal
-  doc.setFont('Helvetica', 'normal')
-  doc.setFontSize(typography.body.size)
-  const today = new Date().toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
-  doc.text(`CASE REF: ${generateCaseRef('FBI')}    DATE: ${today}`, layout.marginSides, yPos)
-  yPos += 15
-  
-  // Subject info (trusted inputs only, no AI parsing)
-  const subj = {
-    name: sanitizeSingleLine(inputs.fullName),
-    dob: sanitizeSingleLine(inputs.dateOfBirth),
-    city: sanitizeSingleLine(inputs.city),
-    occupation: sanitizeSingleLine(inputs.occupation)
-  }
-  
-  const subjLines = [
-    `Name: ${subj.name}`,
-    `Date of Birth: ${subj.dob}`,
-    `City: ${subj.city}`,
-    `Occupation: ${subj.occupation}`
-  ]
-  
-  subjLines.forEach(line => {
-    doc.text(line, layout.marginSides, yPos)
-    yPos += 6
-  })
-  
-  yPos += layout.sectionSpacing
-  return yPos
-}
-
-/**
- * Add generic header for other services
+ * Add the service logo top-right on the first page - the bundled image fitted to the
+ * box, or the generated brand drawn as vectors
  */
-function addGenericHeader(doc: jsPDF, slug: string, pageWidth: number, yPos: number): number {
-  const serviceNames: Record<string, string> = {
-    'nsa-surveillance': 'NATIONAL SECURITY AGENCY — SURVEILLANCE REPORT',
-    'criminal-record': 'GOVERNMENT CRIMINAL RECORD EXTRACT',
-    'universal-credit': 'UNIVERSAL CREDIT ASSESSMENT SUMMARY',
-    'payslip': 'STATEMENT OF EARNINGS',
-    'credit-score': 'CREDIT SCORE REPORT',
-    'job-rejection': 'APPLICATION OUTCOME NOTIFICATION',
-    'rent-reference': 'TENANCY REFERENCE LETTER',
-    'school-behaviour': 'SCHOOL BEHAVIOUR REPORT',
-    'college-degree': 'DEGREE CERTIFICATE'
+function addLogoFirstPage(doc: jsPDF, logo: LogoAsset, pageWidth: number): void {
+  const box = {
+    x: pageWidth - layout.marginSides - LOGO_BOX.width,
+    y: layout.marginTop + 5,
+    width: LOGO_BOX.width,
+    height: LOGO_BOX.height
   }
-  
-  const title = serviceNames[slug] || 'DOCUMENT'
-  
-  // Title - 14pt bold uppercase, centered
-  doc.setFont('Helvetica', 'bold')
-  doc.setFontSize(typography.title.size)
-  doc.text(title, pageWidth / 2, yPos, { align: 'center' })
-  yPos += 20
-  
-  return yPos
-}
 
-/**
- * Add logo first page only - 38px width, positioned top-right (Optimized)
- */
-async function addLogoFirstPage(doc: jsPDF, slug: string, pageWidth: number): Promise<void> {
-  const logoUrl = logoMap[slug]
-  
-  if (!logoUrl) {
-    console.log(`No logo found for service: ${slug}`)
+  if (logo.type === 'brand') {
+    if (!drawSvg(doc, logo.brand.svg, box)) {
+      console.warn(`⚠️ Brand for ${logo.brand.text} has no drawable SVG`)
+    }
     return
   }
-  
-  try {
-    // Load logo from absolute URL (Node.js compatible) with timeout
-    const logoDataUrl = await Promise.race([
-      loadImageBase64(logoUrl, 'image/png'),
-      new Promise<string>((_, reject) => 
-        setTimeout(() => reject(new Error('Logo load timeout')), 2000)
-      )
-    ]) as string
-    
-    // Logo positioning: top-right corner, smaller size to avoid overlap
-    const logoWidth = 30
-    const logoHeight = 30  // Smaller to avoid title overlap
-    const logoX = pageWidth - layout.marginSides - logoWidth  // Right margin
-    const logoY = layout.marginTop + 5  // Top margin
-    
-    // Add logo image (PNG format)
-    doc.addImage(logoDataUrl, 'PNG', logoX, logoY, logoWidth, logoHeight)
-    
-    console.log(`✅ Logo successfully added for service: ${slug} (first page only)`)
-  } catch (error) {
-    console.warn(`⚠️ Failed to load logo for service ${slug}: ${error}`)
-    // Skip logo entirely for faster generation
-    console.log(`📝 Skipping logo for faster generation: ${slug}`)
-  }
-}
 
-/**
- * Render content with proper paragraph handling
- */
-function renderContent(
-  doc: jsPDF, 
-  content: string, 
-  startY: number, 
-  pageWidth: number, 
-  pageHeight: number
-): number {
-  const lines = content.split('\n')
-  let yPos = startY
-  
-  for (const line of lines) {
-    // Skip empty lines but add minimal spacing
-    if (line.trim() === '') {
-      yPos += 4
-      continue
-    }
-    
-    // Check for section headers
-    if (isSectionHeader(line)) {
-      yPos = drawSectionHeader(doc, line, yPos, pageWidth, pageHeight)
-      continue
-    }
-    
-    // Check for table/monospace content
-    if (isTableOrMonospace(line)) {
-      yPos = drawMonospaceLine(doc, line, yPos, pageWidth, pageHeight)
-      continue
-    }
-    
-    // Handle regular text as paragraphs
-    yPos = drawParagraph(doc, line, yPos, pageWidth, pageHeight)
-  }
-  
-  return yPos
-}
+  // Right-aligned so wide and square logos share the same right edge
+  const { image } = logo
+  const scale = Math.min(box.width / image.width, box.height / image.height)
+  const width = image.width * scale
+  const height = image.height * scale
 
-/**
- * Draw section header - 11pt bold uppercase
- */
-function drawSectionHeader(
-  doc: jsPDF, 
-  title: string, 
-  yPos: number, 
-  pageWidth: number, 
-  pageHeight: number
-): number {
-  // Check for new page
-  if (yPos > pageHeight - layout.marginBottom - 30) {
-    doc.addPage()
-    yPos = layout.marginTop
+  // Compress the decoded pixels - stored raw, a large logo adds megabytes to every PDF
+  try {
+    doc.addImage(image.dataUrl, image.format, box.x + box.width - width, box.y + (box.height - height) / 2, width, height, image.path, 'FAST')
+  } catch (error) {
+    console.warn(`⚠️ Failed to add logo ${image.path}: ${error}`)
   }
-  
-  yPos += typography.sectionHeader.spacingBefore
-  doc.setFont('Helvetica', 'bold')
-  doc.setFontSize(typography.sectionHeader.size)
-  doc.text(title.toUpperCase(), layout.marginSides, yPos)
-  yPos += typography.sectionHeader.spacingAfter
-  doc.setFont('Helvetica', 'normal')
-  doc.setFontSize(typography.body.size)
-  
-  return yPos
 }
 
 /**
- * Draw paragraph with justified alignment - 10pt normal
+ * Add an uploaded photo to the first page - fitted into a passport-style box, top-left
  */
-function drawParagraph(
-  doc: jsPDF, 
-  text: string, 
-  yPos: number, 
-  pageWidth: number, 
-  pageHeight: number
-): number {
-  const maxW = pageWidth - layout.marginSides * 2
-  const lines = doc.splitTextToSize(text, maxW)
-  
-  for (const line of lines) {
-    // Check for new page
-    if (yPos > pageHeight - layout.marginBottom - layout.footerPadding) {
-      doc.addPage()
-      yPos = layout.marginTop
-    }
-    
-    doc.text(line, layout.marginSides, yPos, { align: 'justify' })
-    yPos += typography.body.lineHeight * 4 // Convert line height to points
-  }
-  
-  return yPos
-}
+function addPhotoFirstPage(doc: jsPDF, image: UploadedImage): void {
+  const boxWidth = 30
+  const boxHeight = 38
+  const scale = Math.min(boxWidth / image.width, boxHeight / image.height)
+  const width = image.width * scale
+  const height = image.height * scale
+  const x = layout.marginSides + (boxWidth - width) / 2
+  const y = layout.marginTop + 5 + (boxHeight - height) / 2
 
-/**
- * Draw monospace line for tables/logs - 9pt Courier
- */
-function drawMonospaceLine(
-  doc: jsPDF, 
-  text: string, 
-  yPos: number, 
-  pageWidth: number, 
-  pageHeight: number
-): number {
-  // Check for new page
-  if (yPos > pageHeight - layout.marginBottom - layout.footerPadding) {
-    doc.addPage()
-    yPos = layout.marginTop
-  }
-  
-  doc.setFont('Courier', 'normal')
-  doc.setFontSize(typography.monospace.size)
-  
-  const maxW = pageWidth - layout.marginSides * 2
-  const lines = doc.splitTextToSize(text, maxW)
-  
-  for (const line of lines) {
-    // Check for new page
-    if (yPos > pageHeight - layout.marginBottom - layout.footerPadding) {
-      doc.addPage()
-      yPos = layout.marginTop
-    }
-    
-    doc.text(line, layout.marginSides, yPos)
-    yPos += 4
+  try {
+    doc.addImage(image.dataUrl, image.format, x, y, width, height)
+    doc.setDrawColor(120)
+    doc.rect(layout.marginSides, layout.marginTop + 5, boxWidth, boxHeight)
+  } catch (error) {
+    console.warn(`⚠️ Failed to add ${image.field} image: ${error}`)
   }
-  
-  // Reset to body font
-  doc.setFont('Helvetica', 'normal')
-  doc.setFontSize(typography.body.size)
-  
-  return yPos
-}
-
-/**
- * Check if line is a section header
- */
-function isSectionHeader(line: string): boolean {
-  const patterns = [
-    /^EXECUTIVE SUMMARY$/i,
-    /^KEY FINDINGS$/i,
-    /^SURVEILLANCE ACTIVITY LOG$/i,
-    /^ANALYST NOTES$/i,
-    /^THREAT ASSESSMENT.*$/i,
-    /^SUMMARY$/i,
-    /^ANALYSIS$/i,
-    /^FINDINGS$/i,
-    /^RECOMMENDATIONS$/i,
-    /^ASSESSMENT$/i,
-    /^DETAILS$/i,
-    /^INFORMATION$/i
-  ]
-  
-  return patterns.some(pattern => pattern.test(line.trim()))
-}
-
-/**
- * Check if line is table or monospace content
- */
-function isTableOrMonospace(line: string): boolean {
-  return line.startsWith('|') || 
-         /^\d+\.\s/.test(line) || 
-         /^\s*[-•]\s/.test(line) ||
-         /^\s*\d{4}-\d{2}-\d{2}/.test(line) // Date patterns
 }
 
 /**
- * Render footer after content is laid out
+ * Render footer after content is laid out - microtext, when the template has it, goes under the verification line
  */
-function renderFooter(doc: jsPDF, pageWidth: number, pageHeight: number): void {
+function renderFooter(
+  doc: jsPDF,
+  pageWidth: number,
+  pageHeight: number,
+  generatedAt: Date,
+  provenanceCode?: string,
+  microtext?: [string, string] | null
+): void {
   const pages = doc.getNumberOfPages()
   
   for (let i = 1; i <= pages; i++) {
@@ -428,54 +211,100 @@ function renderFooter(doc: jsPDF, pageWidth: number, pageHeight: number): void {
     }
     
     // Timestamp (left), disclaimer (center), page number (right)
-    const ts = new Date().toLocaleString('en-GB', { hour12: false })
+    const ts = generatedAt.toLocaleString('en-GB', { hour12: false })
     doc.setFont('Helvetica', 'normal')
     doc.setFontSize(typography.footer.size)
     doc.setTextColor(85)
     
     doc.text(`Generated ${ts}`, layout.marginSides, h - layout.footerPadding)
-    doc.text('Internet Streets Entertainment – Not a Real Document.', w / 2, h - layout.footerPadding, { align: 'center' })
+    doc.text(FOOTER_DISCLAIMER, w / 2, h - layout.footerPadding, { align: 'center' })
     doc.text(`Page ${i} of ${pages}`, w - layout.marginSides, h - layout.footerPadding, { align: 'right' })
+
+    // Verification line - anyone holding the document can look the code up
+    if (provenanceCode) {
+      doc.setFontSize(typography.verification.size)
+      doc.text(`Verify this novelty document at ${VERIFY_URL} with code ${provenanceCode}`, w / 2, h - layout.footerPadding + 5, { align: 'center' })
+    }
+
+    if (microtext) {
+      doc.setFontSize(6)
+      doc.setTextColor(153)
+      doc.text(microtext[0], layout.marginSides, h - layout.footerPadding + 9)
+      doc.text(microtext[1], w - layout.marginSides, h - layout.footerPadding + 9, { align: 'right' })
+    }
+  }
+}
+
+/**
+ * Diagonal novelty watermark on every page - sized to span most of the page diagonal
+ */
+function renderWatermark(doc: jsPDF, pageWidth: number, pageHeight: number): void {
+  const pages = doc.getNumberOfPages()
+  const radians = Math.atan2(pageHeight, pageWidth)
+  const diagonal = Math.sqrt(pageWidth * pageWidth + pageHeight * pageHeight)
+
+  doc.setFont('Helvetica', typography.watermark.weight)
+  doc.setFontSize(typography.watermark.size)
+  const fontSize = Math.min(typography.watermark.size, typography.watermark.size * (diagonal * 0.8) / doc.getTextWidth(WATERMARK_TEXT))
+  doc.setFontSize(fontSize)
+
+  // jsPDF rotates around the text origin, so start half the text's length back along the diagonal
+  const textWidth = doc.getTextWidth(WATERMARK_TEXT)
+  const x = pageWidth / 2 - (textWidth / 2) * Math.cos(radians)
+  const y = pageHeight / 2 + (textWidth / 2) * Math.sin(radians)
+
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i)
+    doc.saveGraphicsState()
+    doc.setGState(new GState({ opacity: typography.watermark.opacity }))
+    doc.setTextColor(150)
+    doc.text(WATERMARK_TEXT, x, y, { angle: radians * 180 / Math.PI })
+    doc.restoreGraphicsState()
   }
 }
 
+/**
+ * Document properties and XMP metadata - generator, document reference and novelty status
+ */
+function applyDocumentMetadata(doc: jsPDF, provenance: DocumentProvenance): void {
+  doc.setDocumentProperties(buildDocumentProperties(provenance))
+  doc.setCreationDate(new Date(provenance.generatedAt))
+
+  // XMP is what survives most re-saves and is read by document management tools
+  doc.addMetadata(buildProvenanceRecord(provenance), PROVENANCE_NAMESPACE)
+}
+
 /**
  * Legacy function for backward compatibility
  */
 export function generatePDFfromJSON(json: any, serviceSlug: string): Buffer {
-  const text = convertJSONToText(json, serviceSlug)
-  return renderServiceToPdf(serviceSlug, { text }, undefined, undefined) as any
+  return renderServiceToPdf(serviceSlug, { content: convertJSONToDocument(json) }, undefined, undefined) as any
 }
 
 /**
- * Convert JSON to plain text (for backward compatibility)
+ * Convert the legacy JSON shape to a structured document (for backward compatibility)
  */
-function convertJSONToText(json: any, serviceSlug: string): string {
-  let text = ''
-  
-  if (json.document_title) {
-    text += `${json.document_title}\n\n`
-  }
-  
+function convertJSONToDocument(json: any): StructuredDocument {
+  const sections: StructuredDocument['sections'] = []
+
   if (json.subject) {
-    text += `Subject Information:\n`
-    if (json.subject.name) text += `Name: ${json.subject.name}\n`
-    if (json.subject.dob) text += `DOB: ${json.subject.dob}\n`
-    if (json.subject.city) text += `City: ${json.subject.city}\n`
-    text += '\n'
+    const entries = [
+      { label: 'Name', value: json.subject.name },
+      { label: 'DOB', value: json.subject.dob },
+      { label: 'City', value: json.subject.city }
+    ].filter(entry => entry.value)
+    if (entries.length > 0) {
+      sections.push({ heading: 'Subject Information', blocks: [{ type: 'keyValue', entries }] })
+    }
   }
-  
+
   if (json.summary) {
-    text += `Summary:\n${json.summary}\n\n`
+    sections.push({ heading: 'Summary', blocks: [{ type: 'paragraph', text: json.summary }] })
   }
-  
+
   if (json.key_findings) {
-    text += `Key Findings:\n`
-    json.key_findings.forEach((finding: string) => {
-      text += `• ${finding}\n`
-    })
-    text += '\n'
+    sections.push({ heading: 'Key Findings', blocks: [{ type: 'bullets', items: json.key_findings }] })
   }
-  
-  return text
-}
\ No newline at end of file
+
+  return { title: json.document_title || '', metadata: [], sections }
+}
@@ -0,0 +1,207 @@
+/**
+ * PDF Layout - Typography, page layout and first-page header drawing shared by the renderer and templates
+ * Body content is measured and paginated by lib/pdfFlow
+ */
+
+import jsPDF from 'jspdf'
+
+/**
+ * Typographic System
+ */
+export const typography = {
+  title: { size: 14, weight: 'bold' as const, align: 'center' as const },
+  sectionHeader: { size: 11, weight: 'bold' as const, spacingBefore: 10, spacingAfter: 6 },
+  body: { size: 10, weight: 'normal' as const, lineHeight: 1.3, align: 'justify' as const },
+  table: { size: 9, lineHeight: 4, cellPadding: 2 },
+  footer: { size: 9, weight: 'normal' as const },
+  verification: { size: 7, weight: 'normal' as const },
+  watermark: { size: 54, weight: 'bold' as const, opacity: 0.12 }
+}
+
+/**
+ * Page Layout
+ */
+export const layout = {
+  marginTop: 25,    // 25mm top
+  marginSides: 20,  // 20mm sides
+  marginBottom: 25, // 25mm bottom
+  sectionSpacing: 10, // 10px before new section
+  footerPadding: 15,  // 15px from bottom
+  blockSpacing: 3,    // 3mm after each block
+  bulletIndent: 6,    // 6mm hanging indent for list items
+  labelWidth: 0.35,   // key/value labels take 35% of the text width
+  signatureWidth: 60, // 60mm signature line
+  bandHeight: 14      // 14mm header band on the first page
+}
+
+// Body text colour - templates colour headings and rules, never body text
+export const INK = '#000000'
+
+/**
+ * Document title - 14pt bold uppercase, centred on the page or set left within maxWidth
+ */
+export function drawTitle(
+  doc: jsPDF,
+  title: string,
+  pageWidth: number,
+  yPos: number,
+  color: string = INK,
+  align: 'center' | 'left' = 'center',
+  maxWidth: number = pageWidth - layout.marginSides * 2
+): number {
+  doc.setFont('Helvetica', 'bold')
+  doc.setFontSize(typography.title.size)
+  doc.setTextColor(color)
+  const lines: string[] = doc.splitTextToSize(title.toUpperCase(), maxWidth)
+  const x = align === 'center' ? pageWidth / 2 : layout.marginSides
+  lines.forEach((line, index) => doc.text(line, x, yPos + index * 6, { align }))
+  doc.setTextColor(INK)
+  doc.setFont('Helvetica', 'normal')
+  doc.setFontSize(typography.body.size)
+  return yPos + (lines.length - 1) * 6
+}
+
+export interface Seal {
+  // Circle for agencies and universities, badge (rounded square) for companies and schools
+  shape: 'circle' | 'badge'
+  // Bold lines across the middle
+  lines: string[]
+  // Small grey line underneath, e.g. OFFICIAL
+  caption?: string
+  fill?: string
+}
+
+export interface BandOptions {
+  // Band height (mm) - defaults to layout.bandHeight
+  height?: number
+  // Smaller line under the left label
+  subtitle?: string
+  // Seal at the left end of the band, before the labels
+  emblem?: Seal
+  // Colour of the double rules along the band's edges (certificate borders)
+  ornament?: string
+}
+
+/**
+ * Coloured band across the top of the page with a label at each end
+ */
+export function drawBand(doc: jsPDF, pageWidth: number, color: string, left: string, right?: string, options: BandOptions = {}): void {
+  const height = options.height || layout.bandHeight
+  doc.setFillColor(color)
+  doc.rect(0, 0, pageWidth, height, 'F')
+
+  if (options.ornament) {
+    doc.setDrawColor(options.ornament)
+    doc.setLineWidth(0.8)
+    doc.line(layout.marginSides - 5, 2, pageWidth - layout.marginSides + 5, 2)
+    doc.line(layout.marginSides - 5, 4, pageWidth - layout.marginSides + 5, 4)
+    doc.line(layout.marginSides - 5, height - 2, pageWidth - layout.marginSides + 5, height - 2)
+    doc.setLineWidth(0.2)
+  }
+
+  let x = layout.marginSides
+  if (options.emblem) {
+    const size = Math.min(height - 10, 22)
+    drawSeal(doc, options.emblem, x + size / 2, height / 2, size, color)
+    x += size + 5
+  }
+
+  // Labels sit on the band's centre line, or straddle it when there is a subtitle
+  const baseline = options.subtitle ? height / 2 : height / 2 + 1.5
+  doc.setFont('Helvetica', 'bold')
+  doc.setFontSize(options.subtitle ? typography.sectionHeader.size : typography.footer.size)
+  doc.setTextColor('#ffffff')
+  doc.text(left.toUpperCase(), x, baseline)
+  if (options.subtitle) {
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(typography.verification.size)
+    doc.text(options.subtitle.toUpperCase(), x, baseline + 4)
+  }
+  if (right) {
+    doc.setFont('Helvetica', 'bold')
+    doc.setFontSize(typography.footer.size)
+    doc.text(right.toUpperCase(), pageWidth - layout.marginSides, height / 2 + 1.5, { align: 'right' })
+  }
+  doc.setTextColor(INK)
+  doc.setFont('Helvetica', 'normal')
+}
+
+/**
+ * Faux seal centred on (x, y) - lines in the given colour over a light fill
+ */
+export function drawSeal(doc: jsPDF, seal: Seal, x: number, y: number, size: number, color: string): void {
+  const radius = size / 2
+  doc.setFillColor(seal.fill || '#f8f9fa')
+  doc.setDrawColor(color)
+  doc.setLineWidth(0.8)
+  if (seal.shape === 'circle') {
+    doc.circle(x, y, radius, 'FD')
+    doc.setLineWidth(0.3)
+    doc.circle(x, y, radius - 1.5, 'S')
+  } else {
+    doc.roundedRect(x - radius, y - radius, size, size, 2, 2, 'FD')
+  }
+  doc.setLineWidth(0.2)
+
+  const fontSize = seal.lines.length > 1 || size < 20 ? 6 : 8
+  const lineGap = fontSize * 0.5
+  const top = y - (seal.lines.length - 1) * lineGap / 2 + (seal.caption ? 0 : 1)
+  doc.setFont('Helvetica', 'bold')
+  doc.setFontSize(fontSize)
+  doc.setTextColor(color)
+  seal.lines.forEach((line, index) => doc.text(line, x, top + index * lineGap, { align: 'center' }))
+
+  if (seal.caption) {
+    doc.setFont('Helvetica', 'normal')
+    doc.setFontSize(5)
+    doc.setTextColor(102)
+    doc.text(seal.caption, x, top + seal.lines.length * lineGap + 1, { align: 'center' })
+  }
+  doc.setTextColor(INK)
+  doc.setFont('Helvetica', 'normal')
+}
+
+/**
+ * Boxed verification stamp - short centred lines, e.g. OFFICIAL / RECORD / 2024 / VERIFIED
+ */
+export function drawVerificationStamp(doc: jsPDF, lines: string[], x: number, y: number, color: string): void {
+  const width = 35
+  const height = Math.max(18, lines.length * 4 + 9)
+  doc.setFillColor(240, 240, 240)
+  doc.setDrawColor(color)
+  doc.rect(x, y, width, height, 'FD')
+  doc.setFont('Helvetica', 'bold')
+  doc.setFontSize(typography.verification.size)
+  doc.setTextColor(color)
+  const top = y + (height - (lines.length - 1) * 4) / 2 + 1
+  lines.forEach((line, index) => doc.text(line, x + width / 2, top + index * 4, { align: 'center' }))
+  doc.setTextColor(INK)
+  doc.setFont('Helvetica', 'normal')
+}
+
+/**
+ * Slightly rotated stamp such as a classification marking, in a border turned with the text
+ */
+export function drawStamp(doc: jsPDF, text: string, x: number, y: number, color: string): void {
+  const angle = 8 * Math.PI / 180
+  doc.setFont('Helvetica', 'bold')
+  doc.setFontSize(typography.sectionHeader.size)
+  doc.setTextColor(color)
+  doc.text(text, x, y, { angle: 8 })
+
+  // Corners relative to the text origin, turned the same way as the text
+  const width = doc.getTextWidth(text)
+  const corners = [[-2.5, 2], [width + 2.5, 2], [width + 2.5, -5.5], [-2.5, -5.5]].map(([dx, dy]) => [
+    x + dx * Math.cos(angle) + dy * Math.sin(angle),
+    y - dx * Math.sin(angle) + dy * Math.cos(angle)
+  ])
+  doc.setDrawColor(color)
+  doc.setLineWidth(0.6)
+  corners.forEach((corner, index) => {
+    const next = corners[(index + 1) % corners.length]
+    doc.line(corner[0], corner[1], next[0], next[1])
+  })
+  doc.setLineWidth(0.2)
+  doc.setTextColor(INK)
+  doc.setFont('Helvetica', 'normal')
+}
@@ -1,107 +1,24 @@
 /**
- * Plain Text Prompt Builder with Input Sanitization & Safety
- * Handles field mapping, organization blacklisting, and input validation
+ * Prompt Builder with Input Sanitization & Safety
+ * Handles field mapping and the structured document format; screening lives in
+ * inputScreening so checkout can preview it
  */
 
 import fs from 'fs'
 import path from 'path'
-
-// Organization blacklist for safety
-const BLOCKED_ORGANIZATIONS = [
-  'FBI', 'CIA', 'NSA', 'MI5', 'MI6', 'GCHQ', 'ASIS', 'CSIS',
-  'HMRC', 'IRS', 'NASA', 'NHS', 'FBI', 'CIA', 'NSA', 'DOD',
-  'Government', 'HM Government', 'HM Revenue', 'Internal Revenue',
-  'Central Intelligence', 'Federal Bureau', 'National Security',
-  'Department of Defense', 'Ministry of Defence', 'Treasury',
-  'HM Treasury', 'Revenue and Customs', 'Tax Office'
-]
-
-// Public figures blacklist (partial list)
-const BLOCKED_PUBLIC_FIGURES = [
-  'Elon Musk', 'Jeff Bezos', 'Bill Gates', 'Barack Obama', 'Donald Trump',
-  'Joe Biden', 'Boris Johnson', 'Rishi Sunak', 'Boris Johnson'
-]
-
-export interface ServiceConfig {
-  slug: string
-  name: string
-  fields: Array<{
-    name: string
-    label: string
-    type: string
-    required: boolean
-    placeholder?: string
-  }>
-  prompt_file: string
-  type: string
-}
-
-export interface SanitizedInputs {
-  [key: string]: string | boolean | number | undefined
-  org_sanitized?: boolean
-  sanitized_reason?: string
-}
-
-/**
- * Load service configuration from services.json
- */
-function loadServiceConfig(slug: string): ServiceConfig | null {
-  try {
-    const servicesPath = path.join(process.cwd(), 'data', 'services.json')
-    const servicesData = fs.readFileSync(servicesPath, 'utf8')
-    const services = JSON.parse(servicesData)
-    return services[slug] || null
-  } catch (error) {
-    console.error('Error loading service config:', error)
-    return null
-  }
-}
-
-/**
- * Sanitize organization names for safety
- */
-function sanitizeOrganizationName(name: string): { sanitized: string; wasSanitized: boolean; reason?: string } {
-  const upperName = name.toUpperCase()
-  
-  for (const blocked of BLOCKED_ORGANIZATIONS) {
-    if (upperName.includes(blocked.toUpperCase())) {
-      return {
-        sanitized: 'Department X',
-        wasSanitized: true,
-        reason: `Organization name "${name}" contains blocked term "${blocked}"`
-      }
-    }
-  }
-  
-  return { sanitized: name, wasSanitized: false }
-}
+import { getService } from '@/lib/services'
+import { formatFieldValue } from '@/lib/fieldValidation'
+import { screenInputs, SanitizedInputs } from '@/lib/inputScreening'
+import { DOCUMENT_FORMAT_INSTRUCTIONS } from '@/lib/documentModel'
 
 /**
- * Sanitize public figure names
- */
-function sanitizePublicFigureName(name: string): { sanitized: string; wasSanitized: boolean; reason?: string } {
-  const upperName = name.toUpperCase()
-  
-  for (const blocked of BLOCKED_PUBLIC_FIGURES) {
-    if (upperName.includes(blocked.toUpperCase())) {
-      return {
-        sanitized: 'John Smith',
-        wasSanitized: true,
-        reason: `Name "${name}" matches blocked public figure "${blocked}"`
-      }
-    }
-  }
-  
-  return { sanitized: name, wasSanitized: false }
-}
-
-/**
- * Build plain text prompt for a service
+ * Build the prompt for a service - the service's template plus the document format
  */
 export async function buildPrompt(
   slug: string, 
   inputs: Record<string, any>, 
-  traceId: string
+  traceId: string,
+  sessionId?: string
 ): Promise<{
   success: boolean
   prompt?: string
@@ -112,7 +29,7 @@ export async function buildPrompt(
   try {
     console.log(`[${traceId}] Building plain text prompt for service: ${slug}`)
     
-    const config = loadServiceConfig(slug)
+    const config = getService(slug)
     if (!config) {
       return { success: false, error: `Service configuration not found for ${slug}` }
     }
@@ -125,44 +42,35 @@ export async function buildPrompt(
 
     let promptTemplate = fs.readFileSync(promptPath, 'utf8')
     
-    // Sanitize inputs
-    const sanitizedInputs: SanitizedInputs = { ...inputs }
-    let anySanitized = false
-    let sanitizationReason = ''
-
-    // Sanitize organization names
-    if (inputs.companyName) {
-      const orgResult = sanitizeOrganizationName(inputs.companyName)
-      if (orgResult.wasSanitized) {
-        sanitizedInputs.companyName = orgResult.sanitized
-        sanitizedInputs.org_sanitized = true
-        sanitizedInputs.sanitized_reason = orgResult.reason
-        anySanitized = true
-        sanitizationReason = orgResult.reason || ''
-      }
+    // Screen inputs - the same checks customers saw before checkout, audited against this trace
+    const screening = screenInputs(slug, inputs, { traceId, sessionId })
+    if (screening.rejected) {
+      const reasons = screening.findings.filter(finding => finding.action === 'reject').map(finding => finding.reason)
+      return { success: false, error: `Inputs rejected by screening: ${reasons.join('; ')}` }
     }
 
-    // Sanitize public figures
-    if (inputs.fullName) {
-      const nameResult = sanitizePublicFigureName(inputs.fullName)
-      if (nameResult.wasSanitized) {
-        sanitizedInputs.fullName = nameResult.sanitized
-        sanitizedInputs.org_sanitized = true
-        sanitizedInputs.sanitized_reason = nameResult.reason
-        anySanitized = true
-        sanitizationReason = nameResult.reason || ''
-      }
-    }
+    const sanitizedInputs = screening.inputs
+    const anySanitized = Boolean(sanitizedInputs.org_sanitized)
+    const sanitizationReason = sanitizedInputs.sanitized_reason || ''
 
-    // Replace placeholders in the prompt template
+    // Replace placeholders in the prompt template (currency, months and uploads in readable form)
     let finalPrompt = promptTemplate
     for (const [key, value] of Object.entries(sanitizedInputs)) {
       if (value !== undefined && value !== null) {
         const placeholder = `{{${key}}}`
-        finalPrompt = finalPrompt.replace(new RegExp(placeholder, 'g'), String(value))
+        const field = config.fields.find(serviceField => serviceField.name === key)
+        finalPrompt = finalPrompt.replace(new RegExp(placeholder, 'g'), field ? formatFieldValue(field, value) : String(value))
       }
     }
 
+    // Optional fields the customer left blank
+    for (const field of config.fields) {
+      finalPrompt = finalPrompt.replace(new RegExp(`{{${field.name}}}`, 'g'), 'Not provided')
+    }
+
+    // Every service answers as a structured document the renderer lays out by block type
+    finalPrompt = `${finalPrompt.trim()}\n\n${DOCUMENT_FORMAT_INSTRUCTIONS}`
+
     console.log(`[${traceId}] Plain text prompt built successfully for ${config.name}`)
     if (anySanitized) {
       console.log(`[${traceId}] Inputs sanitized: ${sanitizationReason}`)
@@ -184,28 +92,6 @@ export async function buildPrompt(
   }
 }
 
-/**
- * Validate required fields for a service
- */
-export function validateRequiredFields(
-  slug: string, 
-  inputs: Record<string, any>
-): { valid: boolean; missing: string[] } {
-  const config = loadServiceConfig(slug)
-  if (!config) {
-    return { valid: false, missing: ['Service configuration'] }
-  }
-
-  const missing: string[] = []
-  config.fields.forEach(field => {
-    if (field.required && (inputs[field.name] === undefined || inputs[field.name] === '')) {
-      missing.push(field.label || field.name)
-    }
-  })
-
-  return { valid: missing.length === 0, missing }
-}
-
 /**
  * Extract basic metadata from plain text document
  */
@@ -0,0 +1,156 @@
+/**
+ * Provenance Store - Public verification codes for generated documents
+ * Each document version gets a short code printed in its footer and XMP metadata;
+ * anyone holding the document can look it up without seeing the customer's inputs
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+export interface ProvenanceRecord {
+  code: string
+  // Document reference (derived from the session, never the session ID)
+  reference: string
+  serviceSlug: string
+  serviceName: string
+  version: number
+  generatedAt: number
+}
+
+/**
+ * What the public verify endpoint reveals - no reference, no inputs
+ */
+export interface PublicProvenance {
+  code: string
+  serviceName: string
+  version: number
+  generatedAt: string
+}
+
+export interface ProvenanceStore {
+  save(record: ProvenanceRecord): Promise<void>
+  get(code: string): Promise<ProvenanceRecord | null>
+}
+
+// Crockford base32 - no I, L, O or U, so codes survive being read aloud or retyped
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const PROVENANCE_CODE = /^ISV-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/
+const CODE_IN_TEXT = /ISV-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}/
+
+/**
+ * Generate a fresh code, e.g. ISV-7K2M-QX9D
+ */
+export function generateProvenanceCode(): string {
+  const bytes = crypto.randomBytes(8)
+  const chars = Array.from(bytes).map(byte => CODE_ALPHABET.charAt(byte % CODE_ALPHABET.length))
+  return `ISV-${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`
+}
+
+/**
+ * Tidy a typed code - case, spacing, missing dashes and look-alike letters
+ */
+export function normalizeProvenanceCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+
+  const compact = value
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/^ISV/, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+
+  const code = `ISV-${compact.slice(0, 4)}-${compact.slice(4)}`
+  return PROVENANCE_CODE.test(code) ? code : null
+}
+
+/**
+ * Codes come from the public - never let a malformed one reach the filesystem
+ */
+export function isProvenanceCode(value: unknown): value is string {
+  return typeof value === 'string' && PROVENANCE_CODE.test(value)
+}
+
+/**
+ * Find the code in an uploaded PDF - it's in the footer text and the XMP packet,
+ * neither of which is compressed
+ */
+export function extractProvenanceCode(pdf: Buffer): string | null {
+  const match = pdf.toString('latin1').match(CODE_IN_TEXT)
+  return match ? match[0] : null
+}
+
+export function toPublicProvenance(record: ProvenanceRecord): PublicProvenance {
+  return {
+    code: record.code,
+    serviceName: record.serviceName,
+    version: record.version,
+    generatedAt: new Date(record.generatedAt).toISOString()
+  }
+}
+
+/**
+ * File-backed store - one JSON file per code
+ */
+export function createFileProvenanceStore(baseDir: string): ProvenanceStore {
+  const recordPath = (code: string) => path.join(baseDir, `${code}.json`)
+
+  return {
+    async save(record) {
+      fs.mkdirSync(baseDir, { recursive: true })
+      fs.writeFileSync(recordPath(record.code), JSON.stringify(record, null, 2))
+    },
+
+    async get(code) {
+      if (!isProvenanceCode(code)) return null
+      try {
+        return JSON.parse(fs.readFileSync(recordPath(code), 'utf8'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * In-memory store for tests and local experiments
+ */
+export function createInMemoryProvenanceStore(): ProvenanceStore {
+  const records = new Map<string, ProvenanceRecord>()
+
+  return {
+    async save(record) {
+      records.set(record.code, { ...record })
+    },
+
+    async get(code) {
+      const record = records.get(code)
+      return record ? { ...record } : null
+    }
+  }
+}
+
+let store: ProvenanceStore | null = null
+
+/**
+ * Get the configured store (PROVENANCE_STORE=memory|file)
+ */
+export function getProvenanceStore(): ProvenanceStore {
+  if (!store) {
+    if (process.env.PROVENANCE_STORE === 'memory') {
+      store = createInMemoryProvenanceStore()
+    } else {
+      store = createFileProvenanceStore(process.env.PROVENANCE_STORE_DIR || path.join(process.cwd(), '.data', 'provenance'))
+    }
+  }
+
+  return store
+}
+
+/**
+ * Override the store (tests, alternative backends)
+ */
+export function setProvenanceStore(provenanceStore: ProvenanceStore | null): void {
+  store = provenanceStore
+}
@@ -0,0 +1,64 @@
+/**
+ * Rate Limiting - Fixed-window request counters for anonymous endpoints
+ * Counters live in process memory, so each instance limits on its own - enough to
+ * stop one client filling storage, not a global quota
+ */
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateLimitResult
+  reset(): void
+}
+
+// Past this many tracked clients, expired windows are dropped before adding another
+const MAX_TRACKED_KEYS = 10000
+
+/**
+ * Allow `limit` requests per key in each window of `windowMs`
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  const prune = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key)
+    })
+  }
+
+  return {
+    check(key, now = Date.now()) {
+      let window = windows.get(key)
+      if (!window || window.resetAt <= now) {
+        if (windows.size >= MAX_TRACKED_KEYS) prune(now)
+        window = { count: 0, resetAt: now + windowMs }
+        windows.set(key, window)
+      }
+
+      window.count++
+      return {
+        allowed: window.count <= limit,
+        remaining: Math.max(limit - window.count, 0),
+        retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000)
+      }
+    },
+
+    reset() {
+      windows.clear()
+    }
+  }
+}
+
+/**
+ * Best-effort client address from the proxy headers Netlify and most hosts set
+ */
+export function getClientKey(headers: Headers): string {
+  const address = headers.get('x-nf-client-connection-ip')
+    || headers.get('x-forwarded-for')?.split(',')[0]
+    || headers.get('x-real-ip')
+  return address?.trim() || 'unknown'
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildGenerationFailedEmail, EmailMessage, setEmailTransport } from '@/lib/email'
+import { createInMemoryGenerationRepository, GenerationRecord, GenerationRepository } from '@/lib/generationStore'
+import { runNextJob } from '@/lib/generationWorker'
+import { createInMemoryJobQueue } from '@/lib/jobQueue'
+import { createMockRefundClient, getRefundState, refundFailedGeneration, setRefundClient } from '@/lib/refunds'
+
+const SESSION_ID = 'cs_test_refund'
+
+function paidRecord(changes: Partial<GenerationRecord> = {}): GenerationRecord {
+  return {
+    sessionId: SESSION_ID,
+    traceId: 'trace_refund',
+    serviceSlug: 'fbi-file',
+    status: 'processing',
+    customerEmail: 'customer@example.com',
+    amountTotal: 250,
+    currency: 'gbp',
+    paymentIntentId: 'pi_test_refund',
+    createdAt: 1,
+    updatedAt: 1,
+    ...changes
+  }
+}
+
+async function repositoryWith(record: GenerationRecord): Promise<GenerationRepository> {
+  const repository = createInMemoryGenerationRepository()
+  await repository.save(record)
+  return repository
+}
+
+describe('refundFailedGeneration', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('refunds the amount charged and records it', async () => {
+    const repository = await repositoryWith(paidRecord({ status: 'error', error: 'Generation failed: timeout' }))
+    const refundClient = createMockRefundClient()
+
+    const record = await refundFailedGeneration((await repository.get(SESSION_ID))!, repository, refundClient)
+
+    expect(refundClient.refunds).toEqual([
+      { paymentIntentId: 'pi_test_refund', sessionId: SESSION_ID, reason: 'Generation failed: timeout', amount: 250 }
+    ])
+    expect(record.refund).toMatchObject({ id: 're_mock_1', status: 'succeeded', amount: 250 })
+    expect((await repository.get(SESSION_ID))!.refund!.amount).toBe(250)
+  })
+
+  it('leaves generations that have not failed alone', async () => {
+    const repository = await repositoryWith(paidRecord({ status: 'ready' }))
+    const refundClient = createMockRefundClient()
+
+    const record = await refundFailedGeneration((await repository.get(SESSION_ID))!, repository, refundClient)
+
+    expect(refundClient.refunds).toHaveLength(0)
+    expect(record.refund).toBeUndefined()
+  })
+
+  it('never refunds twice', async () => {
+    const repository = await repositoryWith(paidRecord({ status: 'error' }))
+    const refundClient = createMockRefundClient()
+
+    const refunded = await refundFailedGeneration((await repository.get(SESSION_ID))!, repository, refundClient)
+    await refundFailedGeneration(refunded, repository, refundClient)
+
+    expect(refundClient.refunds).toHaveLength(1)
+  })
+
+  it('records a missing payment intent for manual handling', async () => {
+    const repository = await repositoryWith(paidRecord({ status: 'error', paymentIntentId: undefined }))
+    const refundClient = createMockRefundClient()
+
+    const record = await refundFailedGeneration((await repository.get(SESSION_ID))!, repository, refundClient)
+
+    expect(refundClient.refunds).toHaveLength(0)
+    expect(record.refundError).toBe('No payment intent on session')
+  })
+})
+
+describe('refund state', () => {
+  it.each([
+    ['refunded', { refund: { id: 're_1', status: 'succeeded', amount: 250, createdAt: 1 } }, 'A full refund of £2.50 has been issued'],
+    ['failed', { refundError: 'Stripe unavailable' }, 'our team will arrange your refund manually'],
+    ['pending', {}, 'your refund is being processed']
+  ] as const)('tells the customer when the refund is %s', (state, changes, message) => {
+    const record = paidRecord({ status: 'error', ...changes })
+
+    expect(getRefundState(record)).toBe(state)
+    expect(buildGenerationFailedEmail(record, 'customer@example.com').text).toContain(message)
+  })
+})
+
+describe('worker dead-letter refunds', () => {
+  const sent: EmailMessage[] = []
+  const refundClient = createMockRefundClient()
+
+  beforeEach(() => {
+    sent.length = 0
+    refundClient.refunds.length = 0
+    setRefundClient(refundClient)
+    setEmailTransport({ name: 'test', send: async message => { sent.push(message) } })
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    setRefundClient(null)
+    setEmailTransport(null)
+    vi.restoreAllMocks()
+  })
+
+  it('refunds and emails the customer when the last attempt fails', async () => {
+    const repository = await repositoryWith(paidRecord({ serviceSlug: 'no-such-service' }))
+    const queue = createInMemoryJobQueue()
+    await queue.enqueue({
+      sessionId: SESSION_ID,
+      traceId: 'trace_refund',
+      serviceSlug: 'no-such-service',
+      inputs: {},
+      maxAttempts: 1
+    })
+
+    const job = await runNextJob(queue, repository)
+
+    expect(job!.status).toBe('dead')
+    const record = (await repository.get(SESSION_ID))!
+    expect(record.status).toBe('error')
+    expect(record.refund).toMatchObject({ status: 'succeeded', amount: 250 })
+    expect(refundClient.refunds).toHaveLength(1)
+    expect(sent).toHaveLength(1)
+    expect(sent[0].to).toBe('customer@example.com')
+    expect(sent[0].text).toContain('A full refund of £2.50 has been issued')
+  })
+
+  it('retries without refunding while attempts remain', async () => {
+    const repository = await repositoryWith(paidRecord({ serviceSlug: 'no-such-service' }))
+    const queue = createInMemoryJobQueue()
+    await queue.enqueue({
+      sessionId: SESSION_ID,
+      traceId: 'trace_refund',
+      serviceSlug: 'no-such-service',
+      inputs: {},
+      maxAttempts: 2
+    })
+
+    const job = await runNextJob(queue, repository)
+
+    expect(job!.status).toBe('queued')
+    expect((await repository.get(SESSION_ID))!.status).toBe('processing')
+    expect(refundClient.refunds).toHaveLength(0)
+    expect(sent).toHaveLength(0)
+  })
+})
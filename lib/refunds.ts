@@ -0,0 +1,125 @@
+/**
+ * Automatic Refunds - Give customers their money back for failed generations
+ * Stripe-backed client in production, a recording mock for tests and local runs
+ */
+
+import Stripe from 'stripe'
+import { GenerationRecord, GenerationRepository, RefundRecord } from '@/lib/generationStore'
+
+export interface RefundRequest {
+  paymentIntentId: string
+  sessionId: string
+  reason: string
+  // Amount charged in minor units - Stripe refunds the whole payment intent
+  amount?: number
+}
+
+// Where a failed generation's refund stands - what the result page and email tell the customer
+export type RefundState = 'refunded' | 'failed' | 'pending'
+
+export interface RefundClient {
+  name: string
+  createRefund(request: RefundRequest): Promise<Omit<RefundRecord, 'createdAt'>>
+}
+
+/**
+ * Stripe refunds - keyed by session so a retried call can never refund twice
+ */
+export function createStripeRefundClient(
+  stripe: Stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: '2023-10-16' })
+): RefundClient {
+  return {
+    name: 'stripe',
+    async createRefund(request) {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: request.paymentIntentId,
+          reason: 'requested_by_customer',
+          metadata: { sessionId: request.sessionId, reason: request.reason.substring(0, 500) }
+        },
+        { idempotencyKey: `refund_${request.sessionId}` }
+      )
+
+      return { id: refund.id, status: refund.status || 'pending', amount: refund.amount }
+    }
+  }
+}
+
+/**
+ * Mock client - records requests instead of calling Stripe, refunding the full charge
+ */
+export function createMockRefundClient(): RefundClient & { refunds: RefundRequest[] } {
+  const refunds: RefundRequest[] = []
+
+  return {
+    name: 'mock',
+    refunds,
+    async createRefund(request) {
+      refunds.push(request)
+      return { id: `re_mock_${refunds.length}`, status: 'succeeded', amount: request.amount || 0 }
+    }
+  }
+}
+
+let client: RefundClient | null = null
+
+/**
+ * Refund state of a record - failed once the automatic refund has given up and needs manual handling
+ */
+export function getRefundState(record: GenerationRecord): RefundState {
+  if (record.refund) return 'refunded'
+  return record.refundError ? 'failed' : 'pending'
+}
+
+/**
+ * Get the configured refund client (REFUND_CLIENT=stripe|mock)
+ */
+export function getRefundClient(): RefundClient {
+  if (!client) {
+    client = process.env.REFUND_CLIENT === 'mock' ? createMockRefundClient() : createStripeRefundClient()
+  }
+
+  return client
+}
+
+/**
+ * Override the refund client (tests)
+ */
+export function setRefundClient(refundClient: RefundClient | null): void {
+  client = refundClient
+}
+
+/**
+ * Refund a failed generation and record the outcome - never throws
+ */
+export async function refundFailedGeneration(
+  record: GenerationRecord,
+  repository: GenerationRepository,
+  refundClient: RefundClient = getRefundClient()
+): Promise<GenerationRecord> {
+  if (record.status !== 'error' || record.refund) return record
+
+  if (!record.paymentIntentId) {
+    console.warn(`[${record.traceId}] No payment intent for ${record.sessionId} - refund needs manual handling`)
+    return (await repository.update(record.sessionId, { refundError: 'No payment intent on session' })) || record
+  }
+
+  try {
+    const refund = await refundClient.createRefund({
+      paymentIntentId: record.paymentIntentId,
+      sessionId: record.sessionId,
+      reason: record.error || 'Generation failed',
+      amount: record.amountTotal
+    })
+
+    console.log(`[${record.traceId}] 💸 Refund ${refund.id} (${refund.status}) issued via ${refundClient.name}`)
+    return (await repository.update(record.sessionId, {
+      refund: { ...refund, createdAt: Date.now() },
+      refundError: undefined
+    })) || record
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[${record.traceId}] Refund failed for ${record.sessionId}: ${errorMessage}`)
+    return (await repository.update(record.sessionId, { refundError: errorMessage })) || record
+  }
+}
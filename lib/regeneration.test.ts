@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createInMemoryGenerationRepository, GenerationRecord } from '@/lib/generationStore'
+import { createInMemoryJobQueue } from '@/lib/jobQueue'
+import { getVersionSettings, requestRegeneration } from '@/lib/regeneration'
+
+function failedRecord(changes: Partial<GenerationRecord> = {}): GenerationRecord {
+  return {
+    sessionId: 'cs_test_regenerate',
+    traceId: 'trace_regenerate',
+    serviceSlug: 'fbi-file',
+    status: 'error',
+    error: 'Output moderation failed: abuse-in-output',
+    inputs: { fullName: 'Sam Example' },
+    regenerationsAllowed: 2,
+    regenerationsUsed: 0,
+    createdAt: 1,
+    updatedAt: 1,
+    ...changes
+  }
+}
+
+describe('getVersionSettings', () => {
+  it('uses the service temperature for the paid generation', () => {
+    expect(getVersionSettings(0.7, 1)).toEqual({ temperature: 0.7 })
+  })
+
+  it('samples hotter with a fresh seed for each later attempt', () => {
+    const second = getVersionSettings(0.7, 2)
+    const third = getVersionSettings(0.7, 3)
+
+    expect(second.temperature).toBe(0.8)
+    expect(third.temperature).toBe(0.9)
+    expect(second.seed).toEqual(expect.any(Number))
+    expect(getVersionSettings(0.7, 9).temperature).toBe(1)
+  })
+})
+
+describe('requestRegeneration', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  it('retries a failed generation as version 1 with second-attempt settings', async () => {
+    const repository = createInMemoryGenerationRepository()
+    const queue = createInMemoryJobQueue()
+    await repository.save(failedRecord())
+
+    const job = await requestRegeneration(failedRecord(), repository, queue)
+
+    expect(job.version).toBe(1)
+    expect(job.generationAttempt).toBe(2)
+    expect((await repository.get('cs_test_regenerate'))!.regenerationsUsed).toBe(1)
+  })
+
+  it('counts every earlier regeneration, not just stored versions', async () => {
+    const repository = createInMemoryGenerationRepository()
+    const queue = createInMemoryJobQueue()
+    const record = failedRecord({
+      status: 'ready',
+      error: undefined,
+      regenerationsUsed: 1,
+      versions: [{ version: 1, traceId: 'trace_regenerate', temperature: 0.8, seed: 42, createdAt: 2 }]
+    })
+    await repository.save(record)
+
+    const job = await requestRegeneration(record, repository, queue)
+
+    expect(job.version).toBe(2)
+    expect(job.generationAttempt).toBe(3)
+  })
+})
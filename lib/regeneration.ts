@@ -0,0 +1,125 @@
+/**
+ * Regeneration - Rerun a paid session without repaying
+ * Each session carries an allowance; every regeneration is a new document version
+ * and earlier versions stay downloadable
+ */
+
+import crypto from 'crypto'
+import { DocumentVersion, GenerationRecord, GenerationRepository } from '@/lib/generationStore'
+import { GenerationJob, JobQueue } from '@/lib/jobQueue'
+import { transitionGeneration } from '@/lib/generationState'
+
+// Free regenerations per paid session (snapshotted onto the record at checkout)
+export const REGENERATION_ALLOWANCE = parseInt(process.env.REGENERATION_ALLOWANCE || '2', 10)
+
+// Each regeneration nudges the temperature up so the rerun reads differently
+const TEMPERATURE_STEP = 0.1
+const MAX_TEMPERATURE = 1.0
+
+export interface RegenerationEligibility {
+  allowed: boolean
+  error?: string
+  status?: number
+}
+
+/**
+ * Stored document versions - records finished before versioning count as version 1
+ */
+export function getDocumentVersions(record: GenerationRecord): DocumentVersion[] {
+  if (record.versions && record.versions.length > 0) return record.versions
+  if (record.status !== 'ready') return []
+
+  return [{ version: 1, traceId: record.traceId, temperature: 0, createdAt: record.updatedAt }]
+}
+
+export function getRegenerationsRemaining(record: GenerationRecord): number {
+  const allowed = record.regenerationsAllowed ?? REGENERATION_ALLOWANCE
+  return Math.max(allowed - (record.regenerationsUsed || 0), 0)
+}
+
+/**
+ * Check whether a customer may regenerate a session right now
+ */
+export function checkRegenerationEligibility(record: GenerationRecord): RegenerationEligibility {
+  if (record.status === 'processing') {
+    return { allowed: false, error: 'Your document is still being generated', status: 409 }
+  }
+
+  if (!record.inputs) {
+    return { allowed: false, error: 'This order cannot be regenerated. Please contact support.', status: 409 }
+  }
+
+  // A refunded order has been paid back - regenerating it would be free of charge
+  if (record.refund) {
+    return { allowed: false, error: 'This order has been refunded', status: 409 }
+  }
+
+  if (getRegenerationsRemaining(record) === 0) {
+    return { allowed: false, error: 'No regenerations left for this order', status: 429 }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Sampling settings for a generation attempt - the paid generation uses the service's own
+ * temperature, every regeneration (including one after a failed generation) samples differently
+ */
+export function getVersionSettings(baseTemperature: number, attempt: number): { temperature: number; seed?: number } {
+  if (attempt <= 1) {
+    return { temperature: baseTemperature }
+  }
+
+  return {
+    temperature: Math.min(Math.round((baseTemperature + TEMPERATURE_STEP * (attempt - 1)) * 100) / 100, MAX_TEMPERATURE),
+    seed: crypto.randomInt(0, 2 ** 31)
+  }
+}
+
+/**
+ * Put a session back into processing and queue the next document version
+ */
+export async function requestRegeneration(
+  record: GenerationRecord,
+  repository: GenerationRepository,
+  queue: JobQueue
+): Promise<GenerationJob> {
+  const versions = getDocumentVersions(record)
+  const version = versions.reduce((latest, entry) => Math.max(latest, entry.version), 0) + 1
+  const regenerationsUsed = (record.regenerationsUsed || 0) + 1
+
+  // Reset the progress steps so the result page streams this run from the start
+  await transitionGeneration(repository, record.sessionId, 'processing', {
+    versions,
+    regenerationsUsed,
+    error: undefined,
+    regenerationError: undefined,
+    steps: []
+  })
+
+  let job: GenerationJob
+  try {
+    job = await queue.enqueue({
+      sessionId: record.sessionId,
+      traceId: record.traceId,
+      serviceSlug: record.serviceSlug,
+      inputs: record.inputs!,
+      customerEmail: record.customerEmail,
+      version,
+      // A retry after a failure has no stored versions but must not repeat the failed settings
+      generationAttempt: regenerationsUsed + 1
+    })
+  } catch (error) {
+    // Nothing was queued - restore the previous state and give the attempt back
+    await repository.update(record.sessionId, {
+      status: record.status,
+      error: record.error,
+      regenerationsUsed: record.regenerationsUsed
+    })
+    throw error
+  }
+  await repository.update(record.sessionId, { jobId: job.id })
+
+  console.log(`[${record.traceId}] 🔁 Regeneration ${version} queued as job ${job.id}`)
+  return job
+}
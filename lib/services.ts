@@ -1,21 +1,59 @@
 import servicesConfig from '../data/services.json'
+import { validateFields, FieldValidationResult } from '@/lib/fieldValidation'
 
 export interface ServiceField {
   name: string
   label: string
-  type: 'text' | 'date' | 'email' | 'number'
+  type: 'text' | 'textarea' | 'date' | 'month' | 'email' | 'number' | 'currency' | 'select' | 'radio' | 'image'
   required: boolean
   placeholder?: string
+  minLength?: number
+  maxLength?: number
+  // Regular expression source, matched against the whole value
+  pattern?: string
+  patternMessage?: string
+  // Choices for select and radio fields
+  options?: string[]
+  // Number and currency bounds
+  min?: number
+  max?: number
+  // ISO 4217 code for currency fields (defaults to GBP)
+  currency?: string
+  // Date and month bounds - ISO dates (YYYY-MM-DD), months (YYYY-MM) or "today"
+  minDate?: string
+  maxDate?: string
 }
 
+export interface CrossFieldRule {
+  field: string
+  compare: 'after' | 'before' | 'notEqual'
+  otherField: string
+  message: string
+}
+
+export interface ServiceGenerationConfig {
+  provider: 'openai' | 'local' | 'fixture'
+  models?: string[]
+  baseUrl?: string
+  maxTokens?: number
+}
+
+// jspdf draws the document directly; html prints a React template through headless Chrome
+export type RendererEngine = 'jspdf' | 'html'
+
 export interface Service {
   name: string
   description: string
   slug: string
   prompt_file: string
+  // Logo under public/, e.g. assets/logos/<slug>.png - the generated brand is used without one
+  logo?: string
   type: 'pdf' | 'image'
   price: number
   fields: ServiceField[]
+  rules?: CrossFieldRule[]
+  generation?: ServiceGenerationConfig
+  renderer?: RendererEngine
 }
 
 export interface ServicesConfig {
@@ -30,17 +68,16 @@ export function getAllServices(): Service[] {
   return Object.values(servicesConfig as ServicesConfig)
 }
 
-export function validateServiceInputs(slug: string, inputs: Record<string, string>): boolean {
+/**
+ * Validate inputs against a service's field schema - per-field error messages
+ */
+export function validateServiceInputs(slug: string, inputs: Record<string, any>): FieldValidationResult {
   const service = getService(slug)
-  if (!service) return false
-
-  for (const field of service.fields) {
-    if (field.required && (!inputs[field.name] || inputs[field.name].trim() === '')) {
-      return false
-    }
+  if (!service) {
+    return { valid: false, errors: { service: 'Service not found' } }
   }
 
-  return true
+  return validateFields(service.fields, inputs || {}, service.rules)
 }
 
 export function loadServicesConfig(): ServicesConfig {
@@ -0,0 +1,422 @@
+/**
+ * SVG Drawing - Draws generated brand SVGs with jsPDF vector primitives
+ * Covers the subset lib/brand.ts emits (circle, rect, path, polygon, text and text on
+ * an arc, group fills and opacity); gradients and filters are skipped. Nothing is
+ * fetched or rasterised, so brands render the same offline
+ */
+
+import jsPDF, { GState } from 'jspdf'
+
+export interface SvgBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+type Attributes = Record<string, string>
+
+interface Transform {
+  scale: number
+  x: (value: number) => number
+  y: (value: number) => number
+}
+
+interface TextRun {
+  attrs: Attributes
+  content: string
+  pathId?: string
+  startOffset?: string
+}
+
+// Presentation attributes a child takes from its group
+const INHERITED = ['fill', 'stroke', 'stroke-width', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'letter-spacing']
+
+// jsPDF font sizes are points, the page is in millimetres
+const MM_PER_POINT = 25.4 / 72
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z]+)([^>]*?)(\/?)>|([^<]+)/g
+
+/**
+ * Draw an SVG fitted and centred in a box - returns false if the SVG has no usable size
+ */
+export function drawSvg(doc: jsPDF, svg: string, box: SvgBox): boolean {
+  const root = svg.match(/<svg\b([^>]*)>/)
+  if (!root) return false
+
+  const rootAttrs = parseAttributes(root[1])
+  const viewBox = (rootAttrs.viewBox || `0 0 ${rootAttrs.width || 0} ${rootAttrs.height || 0}`)
+    .split(/[\s,]+/)
+    .map(parseFloat)
+  const [minX, minY, viewWidth, viewHeight] = viewBox
+  if (!(viewWidth > 0 && viewHeight > 0)) return false
+
+  const scale = Math.min(box.width / viewWidth, box.height / viewHeight)
+  const offsetX = box.x + (box.width - viewWidth * scale) / 2
+  const offsetY = box.y + (box.height - viewHeight * scale) / 2
+  const transform: Transform = {
+    scale,
+    x: value => offsetX + (value - minX) * scale,
+    y: value => offsetY + (value - minY) * scale
+  }
+
+  const definitions = collectPathDefinitions(svg)
+  const stack: Attributes[] = [{ fill: '#000000', stroke: 'none', opacity: '1' }]
+  let defsDepth = 0
+  let text: TextRun | null = null
+
+  doc.saveGraphicsState()
+
+  let token: RegExpExecArray | null
+  TOKEN_PATTERN.lastIndex = 0
+  while ((token = TOKEN_PATTERN.exec(svg)) !== null) {
+    const [whole, closing, rawTag, rawAttrs, selfClosing, content] = token
+    if (whole.startsWith('<!--')) continue
+
+    if (content !== undefined) {
+      if (text && defsDepth === 0) text.content += content
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+
+    if (closing) {
+      if (tag === 'defs') defsDepth--
+      if (tag === 'text' && text) {
+        drawText(doc, text, definitions, transform)
+        text = null
+      }
+      if (tag === 'g' || tag === 'text') stack.pop()
+      continue
+    }
+
+    if (tag === 'defs') {
+      if (!selfClosing) defsDepth++
+      continue
+    }
+    if (defsDepth > 0) continue
+
+    const attrs = inherit(stack[stack.length - 1], parseAttributes(rawAttrs))
+
+    switch (tag) {
+      case 'g':
+        if (!selfClosing) stack.push(attrs)
+        break
+      case 'circle':
+        drawShape(doc, attrs, transform, style => {
+          doc.circle(transform.x(number(attrs.cx)), transform.y(number(attrs.cy)), number(attrs.r) * transform.scale, style)
+        })
+        break
+      case 'rect':
+        drawShape(doc, attrs, transform, style => {
+          const x = transform.x(number(attrs.x))
+          const y = transform.y(number(attrs.y))
+          const width = number(attrs.width) * transform.scale
+          const height = number(attrs.height) * transform.scale
+          const radius = number(attrs.rx || attrs.ry) * transform.scale
+          if (radius > 0) {
+            doc.roundedRect(x, y, width, height, radius, radius, style)
+          } else {
+            doc.rect(x, y, width, height, style)
+          }
+        })
+        break
+      case 'path':
+        drawShape(doc, attrs, transform, style => drawPolylines(doc, parsePath(attrs.d || ''), transform, style))
+        break
+      case 'polygon':
+      case 'polyline':
+        drawShape(doc, attrs, transform, style => {
+          drawPolylines(doc, [{ points: parsePoints(attrs.points || ''), closed: tag === 'polygon' }], transform, style)
+        })
+        break
+      case 'text':
+        if (!selfClosing) {
+          stack.push(attrs)
+          text = { attrs, content: '' }
+        }
+        break
+      case 'textpath':
+        if (text) {
+          const href = attrs.href || attrs['xlink:href'] || ''
+          text.pathId = href.replace(/^#/, '')
+          text.startOffset = attrs.startOffset
+        }
+        break
+    }
+  }
+
+  doc.restoreGraphicsState()
+  return true
+}
+
+/**
+ * Parse name="value" pairs from a tag
+ */
+function parseAttributes(source: string): Attributes {
+  const attrs: Attributes = {}
+  const pattern = /([a-zA-Z_:][\w:.-]*)\s*=\s*"([^"]*)"/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source)) !== null) {
+    attrs[match[1]] = decodeEntities(match[2])
+  }
+  return attrs
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Child attributes over the inherited ones - opacity multiplies down the tree
+ */
+function inherit(parent: Attributes, own: Attributes): Attributes {
+  const attrs: Attributes = { ...own }
+  INHERITED.forEach(name => {
+    if (attrs[name] === undefined && parent[name] !== undefined) attrs[name] = parent[name]
+  })
+  attrs.opacity = String(number(parent.opacity, 1) * number(own.opacity, 1))
+  return attrs
+}
+
+function number(value: string | undefined, fallback: number = 0): number {
+  const parsed = parseFloat(value || '')
+  return isNaN(parsed) ? fallback : parsed
+}
+
+/**
+ * Plain hex colours only - gradients (url(...)), rgba and none are not drawn
+ */
+function paint(value: string | undefined): string | null {
+  if (!value) return null
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!hex) return null
+  return hex[1].length === 3
+    ? '#' + hex[1].split('').map(c => c + c).join('')
+    : value.trim()
+}
+
+/**
+ * Run drawing code with the element's opacity applied
+ */
+function withOpacity(doc: jsPDF, opacity: number, draw: () => void): void {
+  if (opacity >= 1) {
+    draw()
+    return
+  }
+  doc.saveGraphicsState()
+  doc.setGState(new GState({ opacity, 'stroke-opacity': opacity }))
+  draw()
+  doc.restoreGraphicsState()
+}
+
+/**
+ * Set fill and stroke for a shape, then draw it with the matching jsPDF style
+ */
+function drawShape(doc: jsPDF, attrs: Attributes, transform: Transform, draw: (style: string) => void): void {
+  const fill = paint(attrs.fill)
+  const stroke = paint(attrs.stroke)
+  if (!fill && !stroke) return
+
+  withOpacity(doc, number(attrs.opacity, 1), () => {
+    if (fill) doc.setFillColor(fill)
+    if (stroke) {
+      doc.setDrawColor(stroke)
+      doc.setLineWidth(number(attrs['stroke-width'], 1) * transform.scale)
+    }
+    draw(fill && stroke ? 'FD' : fill ? 'F' : 'S')
+  })
+}
+
+interface Polyline {
+  points: Array<[number, number]>
+  closed: boolean
+}
+
+/**
+ * Absolute M/L/H/V/Z path data as polylines - curves are never generated for brands
+ */
+function parsePath(d: string): Polyline[] {
+  const tokens = d.match(/[MLHVZmlhvz]|-?\d*\.?\d+(?:e-?\d+)?/g) || []
+  const lines: Polyline[] = []
+  let current: Polyline | null = null
+  let command = 'M'
+  let x = 0
+  let y = 0
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (/^[a-zA-Z]$/.test(token)) {
+      command = token
+      if (command.toUpperCase() === 'Z' && current) {
+        current.closed = true
+        x = current.points[0][0]
+        y = current.points[0][1]
+        current = null
+      }
+      continue
+    }
+
+    const value = parseFloat(token)
+    const relative = command === command.toLowerCase()
+    switch (command.toUpperCase()) {
+      case 'M':
+        x = relative ? x + value : value
+        y = relative ? y + parseFloat(tokens[++i]) : parseFloat(tokens[++i])
+        current = { points: [[x, y]], closed: false }
+        lines.push(current)
+        // Further pairs after a moveto are linetos
+        command = relative ? 'l' : 'L'
+        break
+      case 'L':
+        x = relative ? x + value : value
+        y = relative ? y + parseFloat(tokens[++i]) : parseFloat(tokens[++i])
+        current?.points.push([x, y])
+        break
+      case 'H':
+        x = relative ? x + value : value
+        current?.points.push([x, y])
+        break
+      case 'V':
+        y = relative ? y + value : value
+        current?.points.push([x, y])
+        break
+    }
+  }
+
+  return lines
+}
+
+function parsePoints(source: string): Array<[number, number]> {
+  const values = source.trim().split(/[\s,]+/).map(parseFloat)
+  const points: Array<[number, number]> = []
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    points.push([values[i], values[i + 1]])
+  }
+  return points
+}
+
+function drawPolylines(doc: jsPDF, lines: Polyline[], transform: Transform, style: string): void {
+  for (const line of lines) {
+    if (line.points.length < 2) continue
+    const points = line.points.map(([px, py]) => [transform.x(px), transform.y(py)])
+    const segments = points.slice(1).map((point, index) => [point[0] - points[index][0], point[1] - points[index][1]])
+    // An open path is only ever stroked
+    doc.lines(segments, points[0][0], points[0][1], [1, 1], line.closed ? style : 'S', line.closed)
+  }
+}
+
+/**
+ * Paths inside <defs> by id - the arcs text is laid along
+ */
+function collectPathDefinitions(svg: string): Record<string, string> {
+  const definitions: Record<string, string> = {}
+  const pattern = /<path\b([^>]*)>/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(svg)) !== null) {
+    const attrs = parseAttributes(match[1])
+    if (attrs.id && attrs.d) definitions[attrs.id] = attrs.d
+  }
+  return definitions
+}
+
+/**
+ * Set the text font and colour - returns the letter spacing in page units
+ */
+function applyTextStyle(doc: jsPDF, attrs: Attributes, transform: Transform): number {
+  const family = /georgia|times|serif/i.test(attrs['font-family'] || '') && !/sans-serif/i.test(attrs['font-family'] || '')
+    ? 'times'
+    : 'helvetica'
+  doc.setFont(family, attrs['font-weight'] === 'bold' ? 'bold' : 'normal')
+  doc.setFontSize(number(attrs['font-size'], 16) * transform.scale / MM_PER_POINT)
+  doc.setTextColor(paint(attrs.fill) || '#000000')
+  return number(attrs['letter-spacing']) * transform.scale
+}
+
+function drawText(doc: jsPDF, run: TextRun, definitions: Record<string, string>, transform: Transform): void {
+  const content = decodeEntities(run.content).replace(/\s+/g, ' ').trim()
+  if (!content || !paint(run.attrs.fill)) return
+
+  withOpacity(doc, number(run.attrs.opacity, 1), () => {
+    const charSpace = applyTextStyle(doc, run.attrs, transform)
+    const arc = run.pathId ? parseArc(definitions[run.pathId] || '') : null
+
+    if (arc) {
+      drawTextOnArc(doc, content, arc, run, charSpace, transform)
+      return
+    }
+
+    const width = doc.getTextWidth(content) + charSpace * (content.length - 1)
+    const anchor = run.attrs['text-anchor']
+    const shift = anchor === 'middle' ? width / 2 : anchor === 'end' ? width : 0
+    doc.text(content, transform.x(number(run.attrs.x)) - shift, transform.y(number(run.attrs.y)), { charSpace })
+  })
+}
+
+interface Arc {
+  cx: number
+  cy: number
+  r: number
+  start: number
+  sweep: number
+}
+
+/**
+ * Circular arc from "M x0 y0 A r r 0 large sweep x1 y1" - SVG endpoint to centre form
+ */
+function parseArc(d: string): Arc | null {
+  const match = d.match(/^\s*M\s*(-?[\d.]+)[\s,]+(-?[\d.]+)\s*A\s*(-?[\d.]+)[\s,]+(-?[\d.]+)[\s,]+(-?[\d.]+)[\s,]+([01])[\s,]*([01])[\s,]+(-?[\d.]+)[\s,]+(-?[\d.]+)\s*$/)
+  if (!match) return null
+
+  const [x0, y0, radius, , , largeArc, sweepFlag, x1, y1] = match.slice(1).map(parseFloat)
+  const hx = (x0 - x1) / 2
+  const hy = (y0 - y1) / 2
+  const r = Math.max(radius, Math.sqrt(hx * hx + hy * hy))
+  const sign = largeArc === sweepFlag ? -1 : 1
+  const coefficient = sign * Math.sqrt(Math.max(0, (r * r - hx * hx - hy * hy) / (hx * hx + hy * hy || 1)))
+  const cx = coefficient * hy + (x0 + x1) / 2
+  const cy = -coefficient * hx + (y0 + y1) / 2
+
+  const start = Math.atan2(y0 - cy, x0 - cx)
+  let sweep = Math.atan2(y1 - cy, x1 - cx) - start
+  if (sweepFlag === 1 && sweep <= 0) sweep += Math.PI * 2
+  if (sweepFlag === 0 && sweep >= 0) sweep -= Math.PI * 2
+
+  return { cx, cy, r, start, sweep }
+}
+
+/**
+ * Lay text along an arc one character at a time, each rotated to the tangent
+ */
+function drawTextOnArc(doc: jsPDF, content: string, arc: Arc, run: TextRun, charSpace: number, transform: Transform): void {
+  // Measure in SVG units so positions along the arc stay in one space
+  const widths = content.split('').map(char => (doc.getTextWidth(char) + charSpace) / transform.scale)
+  const total = widths.reduce((sum, width) => sum + width, 0)
+  const length = arc.r * Math.abs(arc.sweep)
+
+  const offset = run.startOffset || '0'
+  let position = /%$/.test(offset) ? length * number(offset) / 100 : number(offset)
+  const anchor = run.attrs['text-anchor']
+  position -= anchor === 'middle' ? total / 2 : anchor === 'end' ? total : 0
+
+  const direction = arc.sweep >= 0 ? 1 : -1
+  content.split('').forEach((char, index) => {
+    const middle = position + widths[index] / 2
+    position += widths[index]
+    if (char === ' ') return
+
+    const angle = arc.start + direction * middle / arc.r
+    const tangentX = -Math.sin(angle) * direction
+    const tangentY = Math.cos(angle) * direction
+    const half = (widths[index] - charSpace / transform.scale) / 2
+    const x = arc.cx + arc.r * Math.cos(angle) - tangentX * half
+    const y = arc.cy + arc.r * Math.sin(angle) - tangentY * half
+
+    doc.text(char, transform.x(x), transform.y(y), { angle: Math.atan2(-tangentY, tangentX) * 180 / Math.PI })
+  })
+}
@@ -0,0 +1,54 @@
+/**
+ * Template Registry - Document templates keyed by service slug
+ * Services without a registered template render with the generic one
+ */
+
+import { DocumentTemplate } from '@/lib/documentTemplates'
+import genericTemplate from '@/templates/generic'
+import collegeDegree from '@/templates/college-degree'
+import creditScore from '@/templates/credit-score'
+import criminalRecord from '@/templates/criminal-record'
+import fbiFile from '@/templates/fbi-file'
+import jobRejection from '@/templates/job-rejection'
+import nsaSurveillance from '@/templates/nsa-surveillance'
+import payslip from '@/templates/payslip'
+import rentReference from '@/templates/rent-reference'
+import schoolBehaviour from '@/templates/school-behaviour'
+import universalCredit from '@/templates/universal-credit'
+
+const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  collegeDegree,
+  creditScore,
+  criminalRecord,
+  fbiFile,
+  jobRejection,
+  nsaSurveillance,
+  payslip,
+  rentReference,
+  schoolBehaviour,
+  universalCredit
+]
+
+const templates = new Map<string, DocumentTemplate>()
+BUILT_IN_TEMPLATES.forEach(template => templates.set(template.slug, template))
+
+/**
+ * Register a template - replaces any template already registered for the slug
+ */
+export function registerTemplate(template: DocumentTemplate): void {
+  templates.set(template.slug, template)
+}
+
+/**
+ * Get the template for a service, falling back to the generic template
+ */
+export function getTemplate(slug: string): DocumentTemplate {
+  return templates.get(slug) || genericTemplate
+}
+
+/**
+ * Slugs with a registered template
+ */
+export function listTemplates(): string[] {
+  return Array.from(templates.keys()).sort()
+}
@@ -0,0 +1,209 @@
+/**
+ * Text Generation Providers
+ * OpenAI, local OpenAI-compatible endpoints (llama.cpp, Ollama) and a
+ * deterministic fixture provider behind one interface
+ */
+
+import OpenAI from 'openai'
+import { getService, ServiceGenerationConfig } from '@/lib/services'
+import { getFixtureResponse } from '@/lib/fixtures'
+
+export type GenerationConfig = ServiceGenerationConfig
+export type ProviderName = GenerationConfig['provider']
+
+export interface TextGenerationRequest {
+  prompt: string
+  model: string
+  temperature: number
+  maxTokens: number
+  serviceSlug: string
+  traceId: string
+  inputHash?: string
+  seed?: number
+  // Structured output - the response must be JSON matching this schema
+  responseSchema?: ResponseSchema
+  // Cancels the request when the generation job times out
+  signal?: AbortSignal
+}
+
+export interface ResponseSchema {
+  name: string
+  schema: Record<string, unknown>
+}
+
+export interface TextGenerationProvider {
+  name: ProviderName
+  generate(request: TextGenerationRequest): Promise<string>
+}
+
+/**
+ * Default models per provider (attempt N uses models[N - 1], then the last entry)
+ * OpenAI models must support structured outputs
+ */
+const DEFAULT_MODELS: Record<ProviderName, string[]> = {
+  openai: ['gpt-4o-mini', 'gpt-4o'],
+  local: [process.env.LOCAL_LLM_MODEL || 'llama3.1'],
+  fixture: ['fixture']
+}
+
+const DEFAULT_MAX_TOKENS = 1200
+
+/**
+ * OpenAI-style response_format for a request (strict JSON schema when one is given)
+ */
+function responseFormat(request: TextGenerationRequest) {
+  return request.responseSchema
+    ? {
+        type: 'json_schema' as const,
+        json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: true }
+      }
+    : undefined
+}
+
+/**
+ * OpenAI chat completions
+ */
+export function createOpenAIProvider(): TextGenerationProvider {
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    timeout: 20000, // Increased to 20 seconds
+    maxRetries: 0   // No retries at SDK level - we handle retries manually
+  })
+
+  return {
+    name: 'openai',
+    async generate(request) {
+      const response = await openai.chat.completions.create({
+        model: request.model,
+        messages: [
+          {
+            role: 'system',
+            content: request.prompt
+          }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        seed: request.seed,
+        response_format: responseFormat(request),
+        stream: false
+      }, { signal: request.signal })
+
+      return response.choices[0]?.message?.content?.trim() || ''
+    }
+  }
+}
+
+/**
+ * Local OpenAI-compatible HTTP endpoint (llama.cpp server, Ollama, vLLM...)
+ */
+export function createLocalProvider(baseUrl: string): TextGenerationProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  return {
+    name: 'local',
+    async generate(request) {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.LOCAL_LLM_API_KEY ? { Authorization: `Bearer ${process.env.LOCAL_LLM_API_KEY}` } : {})
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [{ role: 'system', content: request.prompt }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          seed: request.seed,
+          // llama.cpp and Ollama accept the same json_schema format
+          response_format: responseFormat(request),
+          stream: false
+        }),
+        signal: request.signal
+      })
+
+      if (!res.ok) {
+        throw new Error(`Local LLM request failed: ${res.status} ${res.statusText}`)
+      }
+
+      const data = await res.json()
+      return data.choices?.[0]?.message?.content?.trim() || ''
+    }
+  }
+}
+
+/**
+ * Deterministic offline provider - recorded output per service (and optionally per input hash)
+ */
+export function createFixtureProvider(): TextGenerationProvider {
+  return {
+    name: 'fixture',
+    async generate(request) {
+      const fixture = getFixtureResponse(request.serviceSlug, request.inputHash)
+      if (!fixture) {
+        throw new Error(`No fixture recorded for service: ${request.serviceSlug}`)
+      }
+      return fixture
+    }
+  }
+}
+
+/**
+ * Resolve the generation config for a service.
+ * LLM_PROVIDER overrides every service (e.g. "fixture" to run the pipeline offline),
+ * TEST_MODE=true is kept as an alias for the fixture provider.
+ */
+export function getGenerationConfig(serviceSlug: string): GenerationConfig {
+  const serviceConfig = getService(serviceSlug)?.generation
+  const override = process.env.TEST_MODE === 'true'
+    ? 'fixture'
+    : process.env.LLM_PROVIDER as ProviderName | undefined
+
+  if (override && override !== serviceConfig?.provider) {
+    return { provider: override }
+  }
+
+  return serviceConfig || { provider: 'openai' }
+}
+
+/**
+ * Pick the model for an attempt
+ */
+export function getModelForAttempt(config: GenerationConfig, attemptNumber: number): string {
+  const models = config.models && config.models.length > 0 ? config.models : DEFAULT_MODELS[config.provider]
+  return models[Math.min(attemptNumber, models.length) - 1]
+}
+
+export function getMaxTokens(config: GenerationConfig): number {
+  return config.maxTokens || DEFAULT_MAX_TOKENS
+}
+
+// Providers are created lazily and reused across requests
+const providerCache = new Map<string, TextGenerationProvider>()
+
+/**
+ * Get (or create) the provider instance for a config
+ */
+export function getProvider(config: GenerationConfig): TextGenerationProvider {
+  const baseUrl = config.baseUrl || process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1'
+  const cacheKey = config.provider === 'local' ? `local:${baseUrl}` : config.provider
+
+  let provider = providerCache.get(cacheKey)
+  if (!provider) {
+    switch (config.provider) {
+      case 'local':
+        provider = createLocalProvider(baseUrl)
+        break
+      case 'fixture':
+        provider = createFixtureProvider()
+        break
+      case 'openai':
+        provider = createOpenAIProvider()
+        break
+      default:
+        throw new Error(`Unknown text generation provider: ${config.provider}`)
+    }
+    providerCache.set(cacheKey, provider)
+  }
+
+  return provider
+}
@@ -0,0 +1,82 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  createFileUploadStore,
+  createInMemoryUploadStore,
+  InvalidUploadError,
+  inspectImage,
+  UPLOAD_TTL_SECONDS,
+  UploadStore
+} from '@/lib/uploadStore'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Smallest buffer inspectImage accepts as a PNG - signature plus an IHDR chunk
+ */
+function pngBytes(width = 1, height = 1): Buffer {
+  const data = Buffer.alloc(33)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data, 0)
+  data.writeUInt32BE(13, 8)
+  data.write('IHDR', 12, 'ascii')
+  data.writeUInt32BE(width, 16)
+  data.writeUInt32BE(height, 20)
+  return data
+}
+
+describe('inspectImage', () => {
+  it('identifies PNGs by their bytes', () => {
+    expect(inspectImage(pngBytes(30, 40))).toEqual({ mimeType: 'image/png', width: 30, height: 40 })
+  })
+
+  it('rejects anything that is not a PNG or JPEG', () => {
+    expect(() => inspectImage(Buffer.from('GIF89a-not-allowed'))).toThrow(InvalidUploadError)
+  })
+})
+
+const tempDirs: string[] = []
+
+const stores: [string, () => UploadStore][] = [
+  ['in-memory', () => createInMemoryUploadStore()],
+  ['file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'))
+    tempDirs.push(dir)
+    return createFileUploadStore(dir)
+  }]
+]
+
+describe.each(stores)('%s upload store', (_, createStore) => {
+  afterEach(() => {
+    tempDirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }))
+  })
+
+  it('records the upload session that made an upload', async () => {
+    const store = createStore()
+    const record = await store.save(pngBytes(), 'session-a')
+
+    expect((await store.get(record.id))!.record.uploadSessionId).toBe('session-a')
+  })
+
+  it('sweeps unclaimed uploads once their token has expired', async () => {
+    const store = createStore()
+    const record = await store.save(pngBytes(), 'session-a')
+
+    expect(await store.sweep(record.createdAt + UPLOAD_TTL_SECONDS * 1000 - 1)).toBe(0)
+    expect(await store.sweep(record.createdAt + UPLOAD_TTL_SECONDS * 1000 + 1)).toBe(1)
+    expect(await store.get(record.id)).toBeNull()
+  })
+
+  it('keeps uploads attached to an order until the retention period ends', async () => {
+    const store = createStore()
+    const record = await store.save(pngBytes(), 'session-a')
+    await store.attach(record.id, 'ord_attached')
+
+    expect(await store.sweep(record.createdAt + 2 * DAY_MS)).toBe(0)
+    expect((await store.get(record.id))!.record.orderId).toBe('ord_attached')
+    expect(await store.sweep(record.createdAt + 31 * DAY_MS)).toBe(1)
+    expect(await store.get(record.id)).toBeNull()
+  })
+})
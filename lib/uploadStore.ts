@@ -0,0 +1,326 @@
+/**
+ * Upload Store - Customer images for image fields
+ * Only PNG and JPEG are accepted, identified by their magic bytes rather than the
+ * client's content type or file name, and stored under random, unguessable IDs.
+ * Uploads belong to the upload session that made them and expire unless checkout
+ * attaches them to an order
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import type { ServiceField } from '@/lib/services'
+import { isUploadId } from '@/lib/fieldValidation'
+
+export type UploadMimeType = 'image/png' | 'image/jpeg'
+
+export interface UploadRecord {
+  id: string
+  mimeType: UploadMimeType
+  size: number
+  width: number
+  height: number
+  // Upload token session that made the upload - absent on uploads from before tokens
+  uploadSessionId?: string
+  // Set at checkout - attached uploads are kept for generation and regenerations
+  orderId?: string
+  createdAt: number
+}
+
+export interface UploadStore {
+  save(data: Buffer, uploadSessionId: string): Promise<UploadRecord>
+  get(id: string): Promise<{ record: UploadRecord; data: Buffer } | null>
+  attach(id: string, orderId: string): Promise<void>
+  // Delete expired uploads - returns how many were removed
+  sweep(now?: number): Promise<number>
+}
+
+/**
+ * An uploaded image resolved for the PDF renderer
+ */
+export interface UploadedImage {
+  field: string
+  label: string
+  format: 'PNG' | 'JPEG'
+  dataUrl: string
+  width: number
+  height: number
+}
+
+export class InvalidUploadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidUploadError'
+  }
+}
+
+// Upload limits (overridable via env)
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES || String(2 * 1024 * 1024), 10)
+const MAX_IMAGE_DIMENSION = 4000
+
+// Lifetime of an upload token, and of uploads no order has claimed
+export const UPLOAD_TTL_SECONDS = parseInt(process.env.UPLOAD_TTL_SECONDS || '3600', 10)
+// Attached uploads outlive the regeneration window, then go too
+const UPLOAD_RETENTION_MS = parseInt(process.env.UPLOAD_RETENTION_DAYS || '30', 10) * 24 * 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+function generateUploadId(): string {
+  return 'upl_' + crypto.randomBytes(16).toString('hex')
+}
+
+/**
+ * Read PNG dimensions from the IHDR chunk
+ */
+function readPngSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') return null
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+}
+
+/**
+ * Walk JPEG segments to the first start-of-frame marker
+ */
+function readJpegSize(data: Buffer): { width: number; height: number } | null {
+  let offset = 2
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null
+    const marker = data[offset + 1]
+    const length = data.readUInt16BE(offset + 2)
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) }
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+/**
+ * Identify and measure an image from its bytes - throws InvalidUploadError for anything else
+ */
+export function inspectImage(data: Buffer): { mimeType: UploadMimeType; width: number; height: number } {
+  if (data.length === 0) {
+    throw new InvalidUploadError('The uploaded file is empty')
+  }
+
+  if (data.length > MAX_UPLOAD_BYTES) {
+    throw new InvalidUploadError(`Images must be ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB or smaller`)
+  }
+
+  let mimeType: UploadMimeType
+  let size: { width: number; height: number } | null
+
+  if (data.length > 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    mimeType = 'image/png'
+    size = readPngSize(data)
+  } else if (data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    mimeType = 'image/jpeg'
+    size = readJpegSize(data)
+  } else {
+    throw new InvalidUploadError('Only PNG and JPEG images are supported')
+  }
+
+  if (!size || size.width === 0 || size.height === 0) {
+    throw new InvalidUploadError('The image appears to be corrupted')
+  }
+
+  if (size.width > MAX_IMAGE_DIMENSION || size.height > MAX_IMAGE_DIMENSION) {
+    throw new InvalidUploadError(`Images must be at most ${MAX_IMAGE_DIMENSION}px wide and tall`)
+  }
+
+  return { mimeType, ...size }
+}
+
+function buildRecord(data: Buffer, uploadSessionId: string): UploadRecord {
+  return { id: generateUploadId(), ...inspectImage(data), size: data.length, uploadSessionId, createdAt: Date.now() }
+}
+
+/**
+ * Unclaimed uploads expire with their token; attached (and pre-token) uploads after the retention period
+ */
+function isExpired(record: UploadRecord, now: number): boolean {
+  const unclaimed = !record.orderId && record.uploadSessionId
+  return now - record.createdAt > (unclaimed ? UPLOAD_TTL_SECONDS * 1000 : UPLOAD_RETENTION_MS)
+}
+
+/**
+ * File-backed store - the image bytes and a JSON record per upload
+ */
+export function createFileUploadStore(baseDir: string): UploadStore {
+  const recordPath = (id: string) => path.join(baseDir, `${id}.json`)
+  const dataPath = (id: string) => path.join(baseDir, `${id}.bin`)
+
+  const readRecord = (id: string): UploadRecord | null => {
+    try {
+      return JSON.parse(fs.readFileSync(recordPath(id), 'utf8')) as UploadRecord
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  const remove = (id: string) => {
+    // The record goes last so a half-removed upload is still found by the next sweep
+    fs.rmSync(dataPath(id), { force: true })
+    fs.rmSync(recordPath(id), { force: true })
+  }
+
+  return {
+    async save(data, uploadSessionId) {
+      const record = buildRecord(data, uploadSessionId)
+      fs.mkdirSync(baseDir, { recursive: true })
+      fs.writeFileSync(dataPath(record.id), data)
+      fs.writeFileSync(recordPath(record.id), JSON.stringify(record, null, 2))
+      return record
+    },
+
+    async get(id) {
+      if (!isUploadId(id)) return null
+      try {
+        const record = readRecord(id)
+        return record ? { record, data: fs.readFileSync(dataPath(id)) } : null
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async attach(id, orderId) {
+      if (!isUploadId(id)) return
+      const record = readRecord(id)
+      if (!record) return
+      fs.writeFileSync(recordPath(id), JSON.stringify({ ...record, orderId }, null, 2))
+    },
+
+    async sweep(now = Date.now()) {
+      if (!fs.existsSync(baseDir)) return 0
+
+      let removed = 0
+      for (const file of fs.readdirSync(baseDir)) {
+        if (!file.endsWith('.json')) continue
+        const id = file.replace(/\.json$/, '')
+        try {
+          const record = readRecord(id)
+          if (record && isExpired(record, now)) {
+            remove(id)
+            removed++
+          }
+        } catch (error) {
+          console.error(`Failed to sweep upload ${id}:`, error)
+        }
+      }
+      return removed
+    }
+  }
+}
+
+/**
+ * In-memory store for tests and local experiments
+ */
+export function createInMemoryUploadStore(): UploadStore {
+  const uploads = new Map<string, { record: UploadRecord; data: Buffer }>()
+
+  return {
+    async save(data, uploadSessionId) {
+      const record = buildRecord(data, uploadSessionId)
+      uploads.set(record.id, { record, data: Buffer.from(data) })
+      return { ...record }
+    },
+
+    async get(id) {
+      const upload = uploads.get(id)
+      return upload ? { record: { ...upload.record }, data: upload.data } : null
+    },
+
+    async attach(id, orderId) {
+      const upload = uploads.get(id)
+      if (upload) {
+        uploads.set(id, { ...upload, record: { ...upload.record, orderId } })
+      }
+    },
+
+    async sweep(now = Date.now()) {
+      let removed = 0
+      Array.from(uploads.values()).forEach(upload => {
+        if (isExpired(upload.record, now)) {
+          uploads.delete(upload.record.id)
+          removed++
+        }
+      })
+      return removed
+    }
+  }
+}
+
+let store: UploadStore | null = null
+let lastSweepAt = 0
+
+/**
+ * Get the configured store (UPLOAD_STORE=memory|file)
+ */
+export function getUploadStore(): UploadStore {
+  if (!store) {
+    if (process.env.UPLOAD_STORE === 'memory') {
+      store = createInMemoryUploadStore()
+    } else {
+      store = createFileUploadStore(process.env.UPLOAD_STORE_DIR || path.join(process.cwd(), '.data', 'uploads'))
+    }
+  }
+
+  return store
+}
+
+/**
+ * Override the store (tests, alternative backends)
+ */
+export function setUploadStore(uploadStore: UploadStore | null): void {
+  store = uploadStore
+  lastSweepAt = 0
+}
+
+/**
+ * Sweep expired uploads at most once per interval - called from the upload endpoint
+ * so storage is reclaimed without a separate scheduler
+ */
+export async function sweepExpiredUploads(now: number = Date.now()): Promise<number> {
+  if (now - lastSweepAt < SWEEP_INTERVAL_MS) return 0
+  lastSweepAt = now
+
+  const removed = await getUploadStore().sweep(now)
+  if (removed > 0) {
+    console.log(`🧹 Removed ${removed} expired upload${removed === 1 ? '' : 's'}`)
+  }
+  return removed
+}
+
+/**
+ * Resolve the image fields of a submission for the renderer - missing uploads are skipped
+ */
+export async function loadFieldImages(
+  fields: ServiceField[],
+  inputs: Record<string, any>,
+  uploadStore: UploadStore = getUploadStore()
+): Promise<UploadedImage[]> {
+  const images: UploadedImage[] = []
+
+  for (const field of fields) {
+    if (field.type !== 'image' || !isUploadId(inputs[field.name])) continue
+
+    const upload = await uploadStore.get(inputs[field.name])
+    if (!upload) {
+      console.warn(`Upload ${inputs[field.name]} for field ${field.name} not found - skipping`)
+      continue
+    }
+
+    images.push({
+      field: field.name,
+      label: field.label,
+      format: upload.record.mimeType === 'image/png' ? 'PNG' : 'JPEG',
+      dataUrl: `data:${upload.record.mimeType};base64,${upload.data.toString('base64')}`,
+      width: upload.record.width,
+      height: upload.record.height
+    })
+  }
+
+  return images
+}
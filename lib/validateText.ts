@@ -1,19 +1,23 @@
 /**
- * Plain Text Validation and Retry Logic - Optimized for Speed
- * Handles OpenAI response validation for natural text documents
+ * Structured Document Validation and Retry Logic - Optimized for Speed
+ * Asks the provider for a structured document and validates it before rendering
  */
 
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  timeout: 20000, // Increased to 20 seconds
-  maxRetries: 0   // No retries at SDK level - we handle retries manually
-})
+import {
+  getGenerationConfig,
+  getMaxTokens,
+  getModelForAttempt,
+  getProvider,
+  GenerationConfig
+} from '@/lib/textProviders'
+import { hashInputs } from '@/lib/fixtures'
+import { DOCUMENT_JSON_SCHEMA, DOCUMENT_SCHEMA_NAME, documentToText, parseDocument, StructuredDocument } from '@/lib/documentModel'
 
 export interface ValidationResult {
   success: boolean
+  // Plain-text rendering of the document - for moderation, metadata and logs
   data?: string
+  document?: StructuredDocument
   error?: string
   retries?: number
   rawResponse?: string
@@ -24,47 +28,26 @@ export interface GenerationAttempt {
   temperature: number
   maxTokens: number
   attemptNumber: number
+  seed?: number
 }
 
 /**
- * Validate plain text response quality
+ * Generate single attempt with the configured provider - Enhanced timeout debugging
  */
-function validateTextQuality(text: string): { valid: boolean; issues: string[] } {
-  const issues: string[] = []
-  
-  // Check minimum length (increased to 300 as requested)
-  if (text.length < 300) {
-    issues.push('Response too short (less than 300 characters)')
-  }
-  
-  // Check for empty or whitespace-only response
-  if (text.trim().length === 0) {
-    issues.push('Empty response')
-  }
-  
-  // Check for obvious AI artifacts (code blocks) - but clean them instead of rejecting
-  if (text.includes('```') || text.includes('```json') || text.includes('```markdown')) {
-    // Don't reject, just note that we'll clean it
-    console.log('Response contains code blocks - will clean automatically')
-  }
-  
-  // Check for JSON-like structure (basic check)
-  if (text.trim().startsWith('{') && text.trim().endsWith('}')) {
-    issues.push('Response appears to be JSON instead of plain text')
-  }
-  
-  return { valid: issues.length === 0, issues }
-}
+async function generateSingleAttempt(
+  attempt: GenerationAttempt,
+  config: GenerationConfig,
+  serviceSlug: string,
+  traceId: string,
+  inputHash?: string,
+  signal?: AbortSignal
+): Promise<ValidationResult> {
+  const provider = getProvider(config)
 
-/**
- * Generate single attempt with OpenAI - Enhanced timeout debugging
- */
-async function generateSingleAttempt(attempt: GenerationAttempt, traceId: string): Promise<ValidationResult> {
   try {
-    console.log(`[${traceId}] 🔄 OpenAI attempt ${attempt.attemptNumber}: Making API call to OpenAI`)
+    console.log(`[${traceId}] 🔄 Attempt ${attempt.attemptNumber}: Making API call to ${provider.name}`)
     console.log(`[${traceId}] 📝 Prompt length: ${attempt.prompt.length} characters`)
-    console.log(`[${traceId}] ⚙️ Settings: temp=${attempt.temperature}, max_tokens=${attempt.maxTokens}`)
-    console.log(`[${traceId}] 🔑 API Key present: ${process.env.OPENAI_API_KEY ? 'YES' : 'NO'}`)
+    console.log(`[${traceId}] ⚙️ Settings: temp=${attempt.temperature}, max_tokens=${attempt.maxTokens}${attempt.seed !== undefined ? `, seed=${attempt.seed}` : ''}`)
     
     const startTime = Date.now()
     
@@ -76,76 +59,69 @@ async function generateSingleAttempt(attempt: GenerationAttempt, traceId: string
     })
     
     // Try different models based on attempt number
-    const model = attempt.attemptNumber === 1 ? 'gpt-4o-mini' : 'gpt-3.5-turbo'
-    console.log(`[${traceId}] 🤖 Using model: ${model}`)
+    const model = getModelForAttempt(config, attempt.attemptNumber)
+    console.log(`[${traceId}] 🤖 Using model: ${provider.name}/${model}`)
     
-    const apiCallPromise = openai.chat.completions.create({
-      model: model,
-      messages: [
-        {
-          role: 'system',
-          content: attempt.prompt
-        }
-      ],
+    const apiCallPromise = provider.generate({
+      prompt: attempt.prompt,
+      model,
       temperature: attempt.temperature,
-      max_tokens: 1200,
-      stream: false
+      maxTokens: attempt.maxTokens,
+      serviceSlug,
+      traceId,
+      inputHash,
+      seed: attempt.seed,
+      responseSchema: { name: DOCUMENT_SCHEMA_NAME, schema: DOCUMENT_JSON_SCHEMA },
+      signal
     })
     
     console.log(`[${traceId}] ⏱️ Starting API call with 15-second manual timeout...`)
     
-    const response = await Promise.race([apiCallPromise, timeoutPromise])
+    const rawResponse = await Promise.race([apiCallPromise, timeoutPromise])
 
     const duration = Date.now() - startTime
-    let rawResponse = response.choices[0]?.message?.content?.trim() || ''
-    
-    // Clean code blocks automatically
-    if (rawResponse.includes('```')) {
-      console.log(`[${traceId}] 🧹 Cleaning code blocks from response`)
-      rawResponse = rawResponse
-        .replace(/```[a-zA-Z]*\n?/g, '') // Remove opening code blocks
-        .replace(/```\n?/g, '') // Remove closing code blocks
-        .trim()
-    }
     
-    console.log(`[${traceId}] ✅ OpenAI API call completed in ${duration}ms`)
+    console.log(`[${traceId}] ✅ ${provider.name} API call completed in ${duration}ms`)
     console.log(`[${traceId}] 📊 Response length: ${rawResponse.length} characters`)
     console.log(`[${traceId}] 📄 Response preview: ${rawResponse.substring(0, 200)}...`)
     
     if (!rawResponse) {
-      console.log(`[${traceId}] ❌ Empty response from OpenAI`)
+      console.log(`[${traceId}] ❌ Empty response from ${provider.name}`)
       return {
         success: false,
-        error: 'Empty response from OpenAI',
+        error: `Empty response from ${provider.name}`,
         retries: attempt.attemptNumber,
         rawResponse: ''
       }
     }
 
-    console.log(`[${traceId}] 🔍 Validating text quality...`)
-    // Validate text quality
-    const qualityCheck = validateTextQuality(rawResponse)
-    if (!qualityCheck.valid) {
-      console.log(`[${traceId}] ❌ Text quality validation failed: ${qualityCheck.issues.join(', ')}`)
+    console.log(`[${traceId}] 🔍 Validating document structure...`)
+    const validation = parseDocument(rawResponse)
+    if (!validation.valid) {
+      // The first few problems are enough to see what the model got wrong
+      const issues = validation.errors.slice(0, 5).join(', ')
+      console.log(`[${traceId}] ❌ Document validation failed: ${issues}`)
       return {
         success: false,
-        error: `Text quality issues: ${qualityCheck.issues.join(', ')}`,
+        error: `Document structure issues: ${issues}`,
         retries: attempt.attemptNumber,
         rawResponse
       }
     }
 
-    console.log(`[${traceId}] ✅ Text quality validation passed`)
+    const document = validation.document!
+    console.log(`[${traceId}] ✅ Document validation passed (${document.sections.length} sections)`)
     return {
       success: true,
-      data: rawResponse,
+      data: documentToText(document),
+      document,
       retries: attempt.attemptNumber,
       rawResponse
     }
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.log(`[${traceId}] ❌ OpenAI API call failed: ${errorMessage}`)
+    console.log(`[${traceId}] ❌ ${provider.name} API call failed: ${errorMessage}`)
     console.log(`[${traceId}] 🔍 Error type: ${error instanceof Error ? error.constructor.name : typeof error}`)
     
     // Check if it's a timeout error
@@ -155,7 +131,7 @@ async function generateSingleAttempt(attempt: GenerationAttempt, traceId: string
     
     return {
       success: false,
-      error: `OpenAI generation failed: ${errorMessage}`,
+      error: `${provider.name} generation failed: ${errorMessage}`,
       retries: attempt.attemptNumber,
       rawResponse: ''
     }
@@ -163,67 +139,25 @@ async function generateSingleAttempt(attempt: GenerationAttempt, traceId: string
 }
 
 /**
- * Validate and generate plain text with detailed logging
+ * Generate and validate a structured document with detailed logging
  */
 export async function validateAndGenerateText(
   prompt: string,
   temperature: number = 0.7,
   serviceSlug: string,
   traceId: string,
-  maxRetries: number = 2 // Back to 2 retries with different models
+  maxRetries: number = 2, // Back to 2 retries with different models
+  inputs?: Record<string, any>,
+  seed?: number,
+  signal?: AbortSignal
 ): Promise<ValidationResult> {
   const startTime = Date.now()
-  console.log(`[${traceId}] 🚀 Starting OpenAI generation for ${serviceSlug}`)
+  console.log(`[${traceId}] 🚀 Starting text generation for ${serviceSlug}`)
   console.log(`[${traceId}] 📋 Max retries: ${maxRetries}`)
   
-  // TEST MODE: Bypass OpenAI for debugging
-  if (process.env.TEST_MODE === 'true') {
-    console.log(`[${traceId}] 🧪 TEST MODE: Bypassing OpenAI API call`)
-    const mockResponse = `FEDERAL BUREAU OF INVESTIGATION — INTELLIGENCE DOSSIER
-
-CASE REF: FBI-2024-001234 DATE: ${new Date().toLocaleDateString('en-GB')}
-
-Subject Information:
-Name: Test Subject
-Date of Birth: 1990-01-01
-City: Test City
-Occupation: Test Occupation
-
-EXECUTIVE SUMMARY
-This is a test document generated in test mode. The subject has been under investigation for potential activities that require further monitoring and analysis.
-
-KEY FINDINGS
-• Subject exhibits patterns consistent with routine behavior
-• No immediate threats identified at this time
-• Continued surveillance recommended
-• Additional intelligence gathering required
-• Subject maintains low profile in community
-
-SURVEILLANCE ACTIVITY LOG
-1. 2024-01-15 09:30 - Subject observed leaving residence
-2. 2024-01-15 14:20 - Subject visited local business district
-3. 2024-01-16 08:45 - Subject engaged in routine activities
-4. 2024-01-16 16:30 - Subject returned to residence
-5. 2024-01-17 10:15 - Subject met with unidentified individual
-6. 2024-01-17 15:45 - Subject conducted routine errands
-7. 2024-01-18 09:00 - Subject maintained normal schedule
-8. 2024-01-18 17:20 - Subject concluded daily activities
-
-ANALYST NOTES
-Based on current intelligence gathering, the subject appears to be maintaining a normal routine. No suspicious activities have been observed that would warrant immediate intervention. Continued monitoring is recommended to establish patterns and identify any potential threats.
-
-THREAT ASSESSMENT & RECOMMENDATION
-Current threat level: LOW
-Recommendation: Continue surveillance operations and maintain current monitoring protocols.`
-    
-    console.log(`[${traceId}] ✅ Test mode response generated (${mockResponse.length} chars)`)
-    return {
-      success: true,
-      data: mockResponse,
-      retries: 0,
-      rawResponse: mockResponse
-    }
-  }
+  const config = getGenerationConfig(serviceSlug)
+  console.log(`[${traceId}] 🔌 Provider: ${config.provider}`)
+  const inputHash = inputs ? hashInputs(inputs) : undefined
   
   // Create attempts with optimized settings
   const attempts: GenerationAttempt[] = []
@@ -231,27 +165,28 @@ Recommendation: Continue surveillance operations and maintain current monitoring
     attempts.push({
       prompt,
       temperature: i === 1 ? temperature : Math.min(temperature + 0.1, 0.8), // Smaller temp increase
-      maxTokens: 1200, // Reduced for faster generation
-      attemptNumber: i
+      maxTokens: getMaxTokens(config),
+      attemptNumber: i,
+      seed: seed !== undefined ? seed + i - 1 : undefined
     })
   }
 
   for (const attempt of attempts) {
     console.log(`[${traceId}] 🔄 Starting attempt ${attempt.attemptNumber}/${maxRetries}`)
     
-    const result = await generateSingleAttempt(attempt, traceId)
+    const result = await generateSingleAttempt(attempt, config, serviceSlug, traceId, inputHash, signal)
     
     if (result.success) {
       const totalTime = Date.now() - startTime
-      console.log(`[${traceId}] ✅ OpenAI generation SUCCESS in ${totalTime}ms`)
+      console.log(`[${traceId}] ✅ Text generation SUCCESS in ${totalTime}ms`)
       console.log(`[${traceId}] 📊 Final response length: ${result.data?.length || 0} characters`)
       return result
     }
     
     console.log(`[${traceId}] ❌ Attempt ${attempt.attemptNumber} failed: ${result.error}`)
     
-    // If this was the last attempt, return the failure
-    if (attempt.attemptNumber === maxRetries) {
+    // If this was the last attempt (or the job was cancelled), return the failure
+    if (attempt.attemptNumber === maxRetries || signal?.aborted) {
       const totalTime = Date.now() - startTime
       console.log(`[${traceId}] 💥 ALL ATTEMPTS FAILED after ${totalTime}ms`)
       return {
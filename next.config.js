@@ -5,6 +5,10 @@ const nextConfig = {
   },
   experimental: {
     serverComponentsExternalPackages: ['puppeteer'],
+    // Logos are read from disk by the renderers, so they ship with the server output
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./public/assets/**/*'],
+    },
   },
   output: 'standalone',
 }
@@ -0,0 +1,51 @@
+/**
+ * Asset Check - Reports service logos missing from public/ at build time
+ * Renders fall back to the generated brand, so a missing logo only fails the
+ * build with --strict (or ASSETS_STRICT=true)
+ */
+
+const fs = require('fs')
+const path = require('path')
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public')
+const services = require('../data/services.json')
+const strict = process.argv.includes('--strict') || process.env.ASSETS_STRICT === 'true'
+
+/**
+ * Why an asset can't be used, or null if it's fine
+ */
+function checkAsset(assetPath) {
+  const filePath = path.resolve(PUBLIC_DIR, assetPath.replace(/^\/+/, ''))
+  if (!filePath.startsWith(PUBLIC_DIR + path.sep)) return 'outside public/'
+  if (!fs.existsSync(filePath)) return 'missing'
+
+  const header = fs.readFileSync(filePath).subarray(0, 8)
+  const isPng = header.length === 8 && header.readUInt32BE(0) === 0x89504e47 && header.readUInt32BE(4) === 0x0d0a1a0a
+  const isJpeg = header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff
+  return isPng || isJpeg ? null : 'not a PNG or JPEG'
+}
+
+const problems = []
+const unbranded = []
+
+Object.keys(services).forEach(slug => {
+  const logo = services[slug].logo
+  if (!logo) {
+    unbranded.push(slug)
+    return
+  }
+  const problem = checkAsset(logo)
+  if (problem) problems.push(`${slug}: ${logo} (${problem})`)
+})
+
+if (unbranded.length > 0) {
+  console.log(`ℹ️ No logo configured, using the generated brand: ${unbranded.join(', ')}`)
+}
+
+if (problems.length === 0) {
+  console.log(`✅ All service logos present in public/`)
+} else {
+  console.warn(`⚠️ ${problems.length} service logo(s) unavailable - these services will use their generated brand:`)
+  problems.forEach(problem => console.warn(`   - ${problem}`))
+  if (strict) process.exit(1)
+}
@@ -0,0 +1,31 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Degree certificate - registrar band between gold rules, a gold university seal,
+ * and an official seal and verification stamp under the signatures
+ */
+export default createTemplate({
+  slug: 'college-degree',
+  accent: '#654321',
+  title: 'DEGREE CERTIFICATE',
+  band: {
+    label: 'Office of the Registrar',
+    subtitle: 'College of Higher Education',
+    height: 30,
+    emblem: { shape: 'circle', lines: ['ACADEMIA'], fill: '#daa520' },
+    ornament: '#daa520'
+  },
+  reference: { label: 'Degree Ref', prefix: 'DEG' },
+  body: { headingRule: true, accentTables: true },
+  closing: {
+    seal: ['OFFICIAL SEAL', '{year}'],
+    verification: ['VERIFIED', '{year}']
+  },
+  microtext: 'Academic Verification System',
+  // Certificate serif and centred copy when printed through the HTML renderer
+  styles: `
+body { font-family: Georgia, 'Times New Roman', serif; }
+h1 { font-size: 22pt; letter-spacing: 0.06em; }
+p { text-align: center; }
+`
+})
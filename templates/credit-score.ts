@@ -0,0 +1,14 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Credit score report - credit agency band, agency badge beside the title and an analyst's signature line
+ */
+export default createTemplate({
+  slug: 'credit-score',
+  accent: '#123f2c',
+  title: 'CREDIT SCORE REPORT',
+  band: { label: 'Credit Agency', marking: 'Official' },
+  seal: { shape: 'badge', lines: ['CREDIT', 'AGENCY'], caption: 'OFFICIAL' },
+  reference: { label: 'Report ID', prefix: 'CREDIT' },
+  closing: { signature: 'Credit Analyst Signature' }
+})
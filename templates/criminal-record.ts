@@ -0,0 +1,26 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Criminal record extract - records office band with a gold badge, CONFIDENTIAL stamp,
+ * ruled sections and navy tables, closed by an official record stamp
+ */
+export default createTemplate({
+  slug: 'criminal-record',
+  accent: '#192342',
+  title: 'GOVERNMENT CRIMINAL RECORD EXTRACT',
+  band: {
+    label: 'Court Records Office',
+    marking: 'Confidential Sensitive',
+    subtitle: 'Secure Government Database',
+    height: 25,
+    emblem: { shape: 'badge', lines: ['CR'], fill: '#dc9924' }
+  },
+  stamp: { text: 'CONFIDENTIAL', color: '#dc3545' },
+  reference: { label: 'Record Ref', prefix: 'CR' },
+  body: { headingRule: true, accentTables: true },
+  closing: {
+    signature: 'Chief Registrar, Court Records Office',
+    verification: ['OFFICIAL', 'RECORD', '{year}', 'VERIFIED']
+  },
+  microtext: 'Secure Government Database'
+})
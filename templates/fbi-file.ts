@@ -0,0 +1,32 @@
+import { createTemplate } from '@/lib/documentTemplates'
+import { generateCaseRef, sanitizeSingleLine } from '@/lib/textClean'
+
+/**
+ * FBI dossier - fixed banner, bureau seal beside the title, CONFIDENTIAL stamp,
+ * a subject panel from the extracted inputs and a QR code box
+ */
+export default createTemplate({
+  slug: 'fbi-file',
+  accent: '#0a2540',
+  title: 'FEDERAL BUREAU OF INVESTIGATION — INTELLIGENCE DOSSIER',
+  band: { label: 'Intelligence Dossier', marking: 'Confidential' },
+  seal: { shape: 'circle', lines: ['FEDERAL BUREAU', 'OF INVESTIGATION'], caption: 'OFFICIAL' },
+  stamp: { text: 'CONFIDENTIAL', color: '#b80f2a' },
+  reference: { label: 'Document ID', prefix: 'FBI' },
+  panel: 'Subject Information',
+  // The header renders the subject block, so drop the model's copy of it
+  prepare: content => ({
+    ...content,
+    sections: content.sections.filter(section => !/^subject\b/i.test(section.heading))
+  }),
+  // Subject info (trusted inputs only, no AI parsing)
+  headerEntries: (metadata, environment) => [
+    { label: 'Case Ref', value: generateCaseRef('FBI', environment.now, environment.random) },
+    { label: 'Date', value: environment.now.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' }) },
+    { label: 'Name', value: sanitizeSingleLine(metadata?.name) || '-' },
+    { label: 'Date of Birth', value: sanitizeSingleLine(metadata?.dob) || '-' },
+    { label: 'City', value: sanitizeSingleLine(metadata?.city) || '-' },
+    { label: 'Occupation', value: sanitizeSingleLine(metadata?.companyName) || '-' }
+  ],
+  closing: { qrCode: true }
+})
@@ -0,0 +1,10 @@
+import { createTemplate } from '@/lib/documentTemplates'
+import { INK } from '@/lib/pdfLayout'
+
+/**
+ * Fallback for services without their own template - the document's own title, no band
+ */
+export default createTemplate({
+  slug: 'generic',
+  accent: INK
+})
@@ -0,0 +1,361 @@
+import { LogoAsset } from '@/lib/assetResolver'
+import { GeneratedBrand } from '@/lib/brand'
+import { DocumentBlock, DocumentEntry, StructuredDocument } from '@/lib/documentModel'
+import {
+  documentColors,
+  DocumentMetadata,
+  DocumentTemplate,
+  stampLines,
+  TemplateEnvironment,
+  templateTitle
+} from '@/lib/documentTemplates'
+import { GENERATOR_NAME, WATERMARK_TEXT } from '@/lib/documentProvenance'
+import { Seal } from '@/lib/pdfLayout'
+import { UploadedImage } from '@/lib/uploadStore'
+
+export interface DocumentPageProps {
+  template: DocumentTemplate
+  content: StructuredDocument
+  metadata?: DocumentMetadata
+  brand?: GeneratedBrand
+  logo?: LogoAsset | null
+  photo?: UploadedImage
+  environment: TemplateEnvironment
+  // Document ID from templateReference
+  reference?: string
+}
+
+/**
+ * Print stylesheet shared by every service - templates append their own via `styles`
+ */
+export function documentStyles(template: DocumentTemplate, brand?: GeneratedBrand): string {
+  const colors = documentColors(template, brand)
+
+  return `
+@page { size: A4; margin: 25mm 20mm 30mm 20mm; }
+* { box-sizing: border-box; }
+html, body { margin: 0; padding: 0; }
+body {
+  --accent: ${template.accent};
+  --heading: ${colors.heading};
+  --rule: ${colors.rule};
+  font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+  font-size: 10pt;
+  line-height: 1.45;
+  color: #000;
+  -webkit-print-color-adjust: exact;
+  print-color-adjust: exact;
+}
+.watermark {
+  position: fixed;
+  top: 50%;
+  left: 50%;
+  transform: translate(-50%, -50%) rotate(-52deg);
+  font-size: 54pt;
+  font-weight: bold;
+  white-space: nowrap;
+  color: #969696;
+  opacity: 0.15;
+  z-index: 10;
+  pointer-events: none;
+}
+.band {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 4mm;
+  background: var(--accent);
+  color: #fff;
+  font-weight: bold;
+  font-size: 9pt;
+  letter-spacing: 0.08em;
+  text-transform: uppercase;
+  padding: 3mm 4mm;
+  margin-bottom: 4mm;
+}
+.band .organisation { display: flex; align-items: center; gap: 4mm; margin-right: auto; }
+.band .subtitle { display: block; font-weight: normal; font-size: 7pt; }
+.band.ornament { border-top: 1.5mm double var(--ornament); border-bottom: 1mm solid var(--ornament); }
+.seal {
+  flex-shrink: 0;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  border: 2px solid currentColor;
+  background: #f8f9fa;
+  font-size: 6pt;
+  font-weight: bold;
+  line-height: 1.2;
+  text-align: center;
+  letter-spacing: normal;
+}
+.seal-circle { border-radius: 50%; box-shadow: inset 0 0 0 1.2mm #fff, inset 0 0 0 1.5mm currentColor; }
+.seal-badge { border-radius: 2mm; }
+.seal .caption { font-weight: normal; font-size: 5pt; color: #666; margin-top: 0.5mm; }
+.letterhead {
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: 5mm;
+  border-bottom: 2px solid var(--rule);
+  padding-bottom: 4mm;
+  margin-bottom: 6mm;
+}
+.letterhead h1 { text-align: left; margin-bottom: 1mm; }
+.subtitles { color: #666; font-size: 8pt; margin: 0 0 6mm; text-align: center; }
+.letterhead .subtitles { text-align: left; margin: 0; }
+.panel { background: #f8f9fa; border: 1px solid var(--heading); padding: 3mm 5mm; margin: 0 0 6mm; break-inside: avoid; }
+.panel-heading { color: var(--heading); font-weight: bold; font-size: 11pt; text-transform: uppercase; margin-bottom: 2mm; }
+.closing { display: flex; align-items: center; justify-content: space-between; gap: 5mm; margin: 8mm 0 3mm; break-inside: avoid; }
+.closing .signature { margin: 0; color: #666; font-size: 9pt; }
+.closing .verification { width: 35mm; padding: 3mm 0; border: 1px solid var(--heading); background: #f0f0f0; color: var(--heading); font-size: 7pt; font-weight: bold; text-align: center; margin-left: auto; }
+.closing .qr { width: 20mm; height: 20mm; border: 1px solid #ccc; color: #999; font-size: 6pt; display: flex; align-items: center; justify-content: center; margin-left: auto; }
+.masthead {
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  min-height: 38mm;
+  margin-bottom: 6mm;
+}
+.photo { width: 30mm; height: 38mm; border: 1px solid #787878; display: flex; align-items: center; justify-content: center; }
+.photo img { max-width: 100%; max-height: 100%; }
+.stamp {
+  align-self: center;
+  border: 2px solid currentColor;
+  padding: 1.5mm 4mm;
+  font-weight: bold;
+  font-size: 12pt;
+  letter-spacing: 0.1em;
+  transform: rotate(-8deg);
+}
+.logo { width: 40mm; height: 30mm; margin-left: auto; }
+.logo img { width: 100%; height: 100%; object-fit: contain; object-position: right center; }
+h1 {
+  color: var(--heading);
+  font-size: 16pt;
+  text-align: center;
+  margin: 0 0 6mm;
+}
+.rule { border: 0; border-top: 1px solid var(--rule); margin: 2mm 0 6mm; }
+h2 {
+  color: var(--heading);
+  font-size: 11pt;
+  text-transform: uppercase;
+  margin: 6mm 0 2mm;
+  break-after: avoid;
+}
+section { break-inside: auto; }
+p { margin: 0 0 3mm; text-align: justify; orphans: 3; widows: 3; }
+ul { margin: 0 0 3mm; padding-left: 6mm; }
+li { margin-bottom: 1mm; }
+.entries {
+  display: grid;
+  grid-template-columns: 35% 65%;
+  margin: 0 0 3mm;
+}
+.entries dt { font-weight: bold; padding-right: 3mm; }
+.entries dt, .entries dd { margin: 0; break-inside: avoid; }
+.metadata { grid-template-columns: 20% 30% 20% 30%; }
+table { width: 100%; border-collapse: collapse; font-size: 9pt; margin: 0 0 3mm; }
+thead { display: table-header-group; }
+tr { break-inside: avoid; }
+th { background: #ebebeb; text-align: left; }
+th, td { border: 1px solid #b4b4b4; padding: 2mm; vertical-align: top; }
+.heading-rule h2 { border-bottom: 1px solid var(--heading); padding-bottom: 1mm; }
+.accent-tables th { background: var(--heading); color: #fff; }
+.accent-tables th, .accent-tables td { border-color: #d1d5db; }
+.accent-tables tbody tr:nth-child(even) { background: #f8f9fa; }
+.signature { margin: 12mm 0 3mm; break-inside: avoid; }
+.signature .line { width: 60mm; border-top: 1px solid #787878; margin-bottom: 2mm; }
+.signature .name { font-weight: bold; }
+${template.styles || ''}
+`
+}
+
+/**
+ * Logo as an image URL - brands as an SVG image rather than inline markup so nothing in it can run or load
+ */
+function logoSource(logo: LogoAsset): string {
+  return logo.type === 'image'
+    ? logo.image.dataUrl
+    : `data:image/svg+xml;base64,${Buffer.from(logo.brand.svg).toString('base64')}`
+}
+
+function SealMark({ seal, size, color }: { seal: Seal; size: number; color: string }) {
+  return (
+    <div className={`seal seal-${seal.shape}`} style={{ width: `${size}mm`, height: `${size}mm`, color, background: seal.fill }}>
+      {seal.lines.map((line, index) => <div key={index}>{line}</div>)}
+      {seal.caption && <div className="caption">{seal.caption}</div>}
+    </div>
+  )
+}
+
+function Entries({ entries, className }: { entries: DocumentEntry[]; className?: string }) {
+  return (
+    <dl className={className ? `entries ${className}` : 'entries'}>
+      {entries.filter(entry => entry.label || entry.value).map((entry, index) => [
+        <dt key={`dt-${index}`}>{entry.label}</dt>,
+        <dd key={`dd-${index}`}>{entry.value || '-'}</dd>
+      ])}
+    </dl>
+  )
+}
+
+function Block({ block }: { block: DocumentBlock }) {
+  switch (block.type) {
+    case 'paragraph':
+      return block.text ? <p>{block.text}</p> : null
+    case 'bullets':
+      return <ul>{block.items.filter(Boolean).map((item, index) => <li key={index}>{item}</li>)}</ul>
+    case 'table':
+      return (
+        <table>
+          <thead>
+            <tr>{block.columns.map((column, index) => <th key={index}>{column}</th>)}</tr>
+          </thead>
+          <tbody>
+            {block.rows.map((cells, row) => (
+              <tr key={row}>{block.columns.map((_, column) => <td key={column}>{cells[column] || ''}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      )
+    case 'keyValue':
+      return <Entries entries={block.entries} />
+    case 'signature':
+      return (
+        <div className="signature">
+          <div className="line" />
+          <div className="name">{block.name}</div>
+          {block.role && <div>{block.role}</div>}
+          {block.date && <div>{block.date}</div>}
+        </div>
+      )
+  }
+}
+
+/**
+ * Signature line, seal, verification stamp or QR box after the content
+ */
+function Closing({ template, content, environment, color }: { template: DocumentTemplate; content: StructuredDocument; environment: TemplateEnvironment; color: string }) {
+  const closing = template.closing
+  if (!closing) return null
+
+  const signed = content.sections.some(section => section.blocks.some(block => block.type === 'signature'))
+  const signature = closing.signature && !signed ? closing.signature : undefined
+  if (!signature && !closing.verification && !closing.seal && !closing.qrCode) return null
+
+  return (
+    <div className="closing">
+      {signature ? (
+        <div className="signature">
+          <div className="line" />
+          <div>{signature}</div>
+        </div>
+      ) : <div />}
+      {closing.seal && <SealMark seal={{ shape: 'circle', lines: stampLines(closing.seal, environment), fill: '#f0f0f0' }} size={30} color={color} />}
+      {closing.verification
+        ? <div className="verification">{stampLines(closing.verification, environment).map((line, index) => <div key={index}>{line}</div>)}</div>
+        : closing.qrCode && <div className="qr">QR CODE</div>}
+    </div>
+  )
+}
+
+/**
+ * A whole document as one printable page - Chrome paginates it
+ */
+export default function DocumentPage({ template, content, metadata, brand, logo, photo, environment, reference }: DocumentPageProps) {
+  const title = templateTitle(template, content)
+  const colors = documentColors(template, brand)
+  const headerEntries = template.headerEntries(metadata, environment).filter(entry => entry.value)
+  const subtitles = [
+    template.subtitle,
+    reference && template.reference ? `${template.reference.label}: ${reference} • Generated by ${GENERATOR_NAME}` : undefined
+  ].filter(Boolean) as string[]
+  const bodyClasses = [
+    `service-${template.slug}`,
+    template.body?.headingRule ? 'heading-rule' : '',
+    template.body?.accentTables ? 'accent-tables' : ''
+  ].filter(Boolean).join(' ')
+  const band = template.band
+
+  return (
+    <html lang="en-GB">
+      <head>
+        <meta charSet="utf-8" />
+        <title>{title}</title>
+        <style dangerouslySetInnerHTML={{ __html: documentStyles(template, brand) }} />
+      </head>
+      <body className={bodyClasses}>
+        <div className="watermark">{WATERMARK_TEXT}</div>
+
+        {band && (
+          <div
+            className={band.ornament ? 'band ornament' : 'band'}
+            style={{ minHeight: band.height ? `${band.height}mm` : undefined, ['--ornament' as string]: band.ornament }}
+          >
+            <span className="organisation">
+              {band.emblem && <SealMark seal={band.emblem} size={Math.min((band.height || 14) - 10, 22)} color={template.accent} />}
+              <span>
+                {band.label}
+                {band.subtitle && <span className="subtitle">{band.subtitle}</span>}
+              </span>
+            </span>
+            {band.marking && <span>{band.marking}</span>}
+          </div>
+        )}
+
+        <div className="masthead">
+          {photo && (
+            <div className="photo">
+              <img src={photo.dataUrl} alt={photo.label} />
+            </div>
+          )}
+          {template.stamp && (
+            <div className="stamp" style={{ color: template.stamp.color }}>{template.stamp.text}</div>
+          )}
+          {logo && (
+            <div className="logo">
+              <img src={logoSource(logo)} alt={logo.type === 'brand' ? logo.brand.text : ''} />
+            </div>
+          )}
+        </div>
+
+        {template.seal ? (
+          <div className="letterhead">
+            <div>
+              <h1>{title}</h1>
+              {subtitles.length > 0 && <div className="subtitles">{subtitles.map((line, index) => <div key={index}>{line}</div>)}</div>}
+            </div>
+            <SealMark seal={template.seal} size={24} color={colors.heading} />
+          </div>
+        ) : (
+          <>
+            <h1>{title}</h1>
+            {subtitles.length > 0 && <div className="subtitles">{subtitles.map((line, index) => <div key={index}>{line}</div>)}</div>}
+          </>
+        )}
+
+        {headerEntries.length > 0 && (template.panel ? (
+          <div className="panel">
+            <div className="panel-heading">{template.panel}</div>
+            <Entries entries={headerEntries} />
+          </div>
+        ) : <Entries entries={headerEntries} />)}
+        {!template.seal && <hr className="rule" />}
+
+        {content.metadata.length > 0 && <Entries entries={content.metadata} className="metadata" />}
+
+        {content.sections.map((section, index) => (
+          <section key={index}>
+            <h2>{section.heading}</h2>
+            {section.blocks.map((block, blockIndex) => <Block key={blockIndex} block={block} />)}
+          </section>
+        ))}
+
+        <Closing template={template} content={content} environment={environment} color={colors.heading} />
+      </body>
+    </html>
+  )
+}
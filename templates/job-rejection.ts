@@ -0,0 +1,14 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Application outcome letter - HR letterhead band, company badge beside the title
+ */
+export default createTemplate({
+  slug: 'job-rejection',
+  accent: '#123f2c',
+  title: 'APPLICATION OUTCOME NOTIFICATION',
+  band: { label: 'Human Resources' },
+  seal: { shape: 'badge', lines: ['HUMAN', 'RESOURCES'], caption: 'OFFICIAL' },
+  reference: { label: 'Letter ID', prefix: 'REJECT' },
+  closing: { signature: 'HR Manager Signature' }
+})
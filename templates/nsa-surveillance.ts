@@ -0,0 +1,15 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * NSA surveillance report - classified band, agency seal beside the title, a TOP SECRET stamp and a QR code box
+ */
+export default createTemplate({
+  slug: 'nsa-surveillance',
+  accent: '#0a2540',
+  title: 'NATIONAL SECURITY AGENCY — SURVEILLANCE REPORT',
+  band: { label: 'Signals Intelligence', marking: 'Top Secret' },
+  seal: { shape: 'circle', lines: ['NATIONAL SECURITY', 'AGENCY'], caption: 'OFFICIAL' },
+  stamp: { text: 'TOP SECRET', color: '#b80f2a' },
+  reference: { label: 'Document ID', prefix: 'NSA' },
+  closing: { qrCode: true }
+})
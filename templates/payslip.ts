@@ -0,0 +1,20 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Payslip - payroll band in corporate green, payroll badge beside the title
+ */
+export default createTemplate({
+  slug: 'payslip',
+  accent: '#123f2c',
+  title: 'STATEMENT OF EARNINGS',
+  band: { label: 'Payroll', marking: 'Private & Confidential' },
+  seal: { shape: 'badge', lines: ['PAYROLL'], caption: 'OFFICIAL' },
+  reference: { label: 'Payslip ID', prefix: 'PAY' },
+  closing: { signature: 'HR Manager Signature' },
+  // Amounts line up in columns when printed through the HTML renderer
+  styles: `
+td:last-child, th:last-child { text-align: right; }
+td { font-variant-numeric: tabular-nums; }
+.entries { grid-template-columns: 25% 25% 25% 25%; }
+`
+})
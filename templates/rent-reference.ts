@@ -0,0 +1,24 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Tenancy reference letter - letting agent band with a PM roundel, ruled sections,
+ * green tables and a verified reference stamp beside the signature
+ */
+export default createTemplate({
+  slug: 'rent-reference',
+  accent: '#228b22',
+  title: 'TENANCY REFERENCE LETTER',
+  band: {
+    label: 'Tenancy Reference',
+    subtitle: 'Property Management Services',
+    height: 25,
+    emblem: { shape: 'circle', lines: ['PM'], fill: '#ffffff' }
+  },
+  reference: { label: 'Reference ID', prefix: 'REF' },
+  body: { headingRule: true, accentTables: true },
+  closing: {
+    signature: 'Property Manager',
+    verification: ['VERIFIED', 'REFERENCE', '{year}', 'CONFIRMED']
+  },
+  microtext: 'Property Management System'
+})
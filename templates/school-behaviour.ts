@@ -0,0 +1,14 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * School behaviour report - school maroon band, school badge beside the title and a head teacher's signature line
+ */
+export default createTemplate({
+  slug: 'school-behaviour',
+  accent: '#703030',
+  title: 'SCHOOL BEHAVIOUR REPORT',
+  band: { label: 'Pupil Report' },
+  seal: { shape: 'badge', lines: ['SCHOOL'], caption: 'OFFICIAL' },
+  reference: { label: 'Record ID', prefix: 'SCHOOL' },
+  closing: { signature: 'Head Teacher Signature' }
+})
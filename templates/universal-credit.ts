@@ -0,0 +1,12 @@
+import { createTemplate } from '@/lib/documentTemplates'
+
+/**
+ * Universal Credit assessment - benefits blue, centred title over the issuing department
+ */
+export default createTemplate({
+  slug: 'universal-credit',
+  accent: '#1565c0',
+  title: 'UNIVERSAL CREDIT ASSESSMENT SUMMARY',
+  subtitle: 'Department for Work and Pensions',
+  band: { label: 'Assessment Summary' }
+})